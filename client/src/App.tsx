@@ -5,6 +5,8 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { ThemeProvider } from "./components/theme/theme-provider";
 import { queryClient } from "./lib/queryClient";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { RealtimeProvider } from "@/hooks/use-realtime";
+import { SessionReminders } from "@/components/groups/session-reminders";
 import AuthPage from "@/pages/auth-page";
 import TestPage from "@/pages/test-page";
 import HomePage from "@/pages/home-page";
@@ -19,6 +21,8 @@ import FriendsPage from "@/pages/friends-page";
 import SettingsPage from "@/pages/settings-page";
 import SessionsPage from "@/pages/sessions-page";
 import DashboardPage from "@/pages/dashboard-page";
+import SearchResultsPage from "@/pages/search-results-page";
+import PaperViewerPage from "@/pages/paper-viewer-page";
 import NotFound from "@/pages/not-found";
 import { ProtectedRoute } from "./lib/protected-route";
 import { useToast } from "./hooks/use-toast";
@@ -73,30 +77,35 @@ function AppContent() {
   return (
     <div className="app min-h-screen bg-background text-foreground">
       <AuthProvider>
-        <Switch>
-          <Route path="/auth" component={AuthPage} />
-          <Route path="/test" component={TestPage} />
-          <ProtectedRoute path="/" component={HomePage} />
-          <ProtectedRoute path="/profile" component={ProfilePage} />
-          <ProtectedRoute path="/resources" component={ResourcesPage} />
-          <ProtectedRoute path="/my-papers" component={MyPapersPage} />
-          <ProtectedRoute path="/discussions" component={DiscussionsPage} />
-          <ProtectedRoute path="/discussions/:id" component={DiscussionDetailPage} />
-          <ProtectedRoute path="/groups" component={GroupsPage} />
-          <ProtectedRoute path="/groups/:id" component={GroupDetailPage} />
-          <Route path="/groups/new">
-            {() => <Redirect to="/groups?create=true" />}
-          </Route>
-          <ProtectedRoute path="/settings" component={SettingsPage} />
-          <ProtectedRoute path="/sessions" component={SessionsPage} />
-          <ProtectedRoute path="/dashboard" component={DashboardPage} />
-          <ProtectedRoute path="/friends" component={FriendsPage} />
-          <Route path="/admin">
-            {user?.role === 'admin' ? <AdminDashboard /> : <HomePage />}
-          </Route>
-          <Route component={NotFound} />
-        </Switch>
-        <Toaster />
+        <RealtimeProvider>
+          <Switch>
+            <Route path="/auth" component={AuthPage} />
+            <Route path="/test" component={TestPage} />
+            <ProtectedRoute path="/" component={HomePage} />
+            <ProtectedRoute path="/profile" component={ProfilePage} />
+            <ProtectedRoute path="/resources" component={ResourcesPage} />
+            <ProtectedRoute path="/my-papers" component={MyPapersPage} />
+            <ProtectedRoute path="/papers/:id" component={PaperViewerPage} />
+            <ProtectedRoute path="/discussions" component={DiscussionsPage} />
+            <ProtectedRoute path="/discussions/:id" component={DiscussionDetailPage} />
+            <ProtectedRoute path="/groups" component={GroupsPage} />
+            <ProtectedRoute path="/groups/:id" component={GroupDetailPage} />
+            <Route path="/groups/new">
+              {() => <Redirect to="/groups?create=true" />}
+            </Route>
+            <ProtectedRoute path="/settings" component={SettingsPage} />
+            <ProtectedRoute path="/sessions" component={SessionsPage} />
+            <ProtectedRoute path="/dashboard" component={DashboardPage} />
+            <ProtectedRoute path="/friends" component={FriendsPage} />
+            <ProtectedRoute path="/search" component={SearchResultsPage} />
+            <Route path="/admin">
+              {user?.role === 'admin' ? <AdminDashboard /> : <HomePage />}
+            </Route>
+            <Route component={NotFound} />
+          </Switch>
+          <SessionReminders />
+          <Toaster />
+        </RealtimeProvider>
       </AuthProvider>
     </div>
   );
@@ -1,6 +1,8 @@
 import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Loader2, Upload } from "lucide-react";
+import { DuplicateUploadWarning } from "@shared/types";
+import { DuplicateUploadDialog } from "@/components/papers/duplicate-upload-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useAuthCheck } from "./auth-refresh";
@@ -25,6 +27,8 @@ export function CustomUploader({
   const { isAuthChecking, isAuthValid, checkAuthentication } = useAuthCheck();
   const [isUploading, setIsUploading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Set when the server holds the upload back as a likely duplicate
+  const [duplicateWarning, setDuplicateWarning] = useState<DuplicateUploadWarning | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -44,7 +48,7 @@ export function CustomUploader({
     }
   };
 
-  const handleUpload = async () => {
+  const handleUpload = async (allowDuplicate = false) => {
     if (!selectedFile) {
       toast({
         title: "No file selected",
@@ -86,6 +90,9 @@ export function CustomUploader({
       if (user) {
         formData.append("uploaderId", user.id.toString());
       }
+      if (allowDuplicate) {
+        formData.append("allowDuplicate", "true");
+      }
 
       console.log("Starting upload to", endpoint);
       console.log("Form data:", Array.from(formData.entries()).map(([key, val]) => 
@@ -107,6 +114,12 @@ export function CustomUploader({
       });
 
       console.log("Upload response status:", response.status, response.statusText);
+
+      if (response.status === 409) {
+        // Likely a duplicate; the uploader decides whether to go ahead
+        setDuplicateWarning(await response.json());
+        return;
+      }
       console.log("Response headers:", [...response.headers.entries()].map(([k, v]) => `${k}: ${v}`).join(", "));
       
       // Try to get the response text for debugging
@@ -227,7 +240,7 @@ export function CustomUploader({
                 Change
               </Button>
               <Button
-                onClick={handleUpload}
+                onClick={() => handleUpload()}
                 disabled={isUploading}
               >
                 {isUploading ? (
@@ -243,6 +256,15 @@ export function CustomUploader({
           </>
         )}
       </div>
+
+      <DuplicateUploadDialog
+        warning={duplicateWarning}
+        onCancel={() => setDuplicateWarning(null)}
+        onUploadAnyway={() => {
+          setDuplicateWarning(null);
+          handleUpload(true);
+        }}
+      />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useLocation } from "wouter";
+import { Exam } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { GraduationCap, FileText, Loader2, MapPin, Trash2 } from "lucide-react";
+import { AddExamDialog } from "@/components/exams/add-exam-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { examLabel, formatExamCountdown, upcomingExamsQueryKey } from "@/lib/exams";
+
+export function ExamCountdown() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const { data: exams = [], isLoading } = useQuery<Exam[]>({
+    queryKey: upcomingExamsQueryKey,
+    queryFn: async () => {
+      const res = await fetch("/api/exams?upcoming=true");
+      if (!res.ok) throw new Error("Failed to fetch exams");
+      return res.json();
+    },
+  });
+
+  const deleteExamMutation = useMutation({
+    mutationFn: async (examId: number) => {
+      const res = await fetch(`/api/exams/${examId}`, {
+        method: "DELETE",
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to remove exam");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exams"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove exam",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const [nextExam, ...laterExams] = exams;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center">
+            <GraduationCap className="h-5 w-5 mr-2" />
+            Exam Countdown
+          </CardTitle>
+          <CardDescription>Your upcoming exams and how long you have left</CardDescription>
+        </div>
+        <AddExamDialog />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : nextExam ? (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-primary/5 border border-primary/20 p-4 flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Next up</p>
+                <p className="text-xl font-semibold">{examLabel(nextExam)}</p>
+                <p className="text-sm text-muted-foreground">
+                  {format(new Date(nextExam.examDate), "EEEE, MMMM d 'at' h:mm a")}
+                  {nextExam.weight != null && ` · ${nextExam.weight}% of grade`}
+                </p>
+                {nextExam.location && (
+                  <p className="text-sm text-muted-foreground flex items-center mt-1">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {nextExam.location}
+                  </p>
+                )}
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-primary">{formatExamCountdown(nextExam.examDate)}</p>
+                <div className="flex items-center justify-end gap-3">
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="px-0"
+                    onClick={() => navigate("/resources?tab=past_papers")}
+                  >
+                    <FileText className="h-4 w-4 mr-1" />
+                    Past papers
+                  </Button>
+                  <button
+                    onClick={() => deleteExamMutation.mutate(nextExam.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label="Remove exam"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {laterExams.map((exam) => (
+              <div key={exam.id} className="flex justify-between items-center border-b pb-3 last:border-0 last:pb-0">
+                <div>
+                  <p className="font-medium">{examLabel(exam)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(exam.examDate), "EEE, MMM d 'at' h:mm a")}
+                    {exam.weight != null && ` · ${exam.weight}%`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{formatExamCountdown(exam.examDate)}</span>
+                  <button
+                    onClick={() => deleteExamMutation.mutate(exam.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label="Remove exam"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center p-4 text-muted-foreground">
+            <p>No upcoming exams. Add one to start the countdown.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { StudyAnalytics as StudyAnalyticsData } from "@shared/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Activity, CalendarDays, Flame, Loader2, Trophy } from "lucide-react";
+
+const chartConfig = {
+  minutes: {
+    label: "Minutes",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+// Heatmap shading by minutes studied that day
+const HEATMAP_LEVELS = [
+  { min: 120, className: "bg-primary" },
+  { min: 60, className: "bg-primary/70" },
+  { min: 30, className: "bg-primary/45" },
+  { min: 1, className: "bg-primary/20" },
+];
+
+// Dates come as YYYY-MM-DD; parsed at local noon so formatting never shifts the day
+const parseDay = (date: string) => new Date(`${date}T12:00:00`);
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function StudyHeatmap({ days }: { days: StudyAnalyticsData["heatmap"] }) {
+  if (days.length === 0) return null;
+
+  // Columns are weeks starting on Sunday, padded so the first day sits in its weekday row
+  const padding = parseDay(days[0].date).getDay();
+  const cells = [...Array.from({ length: padding }, () => null), ...days];
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid grid-flow-col grid-rows-7 gap-[3px] w-max">
+        {cells.map((day, index) => {
+          if (!day) return <div key={`pad-${index}`} className="h-3 w-3" />;
+          const level = HEATMAP_LEVELS.find((level) => day.minutes >= level.min);
+          return (
+            <div
+              key={day.date}
+              className={`h-3 w-3 rounded-sm ${level?.className ?? "bg-muted"}`}
+              title={`${format(parseDay(day.date), "EEE, MMM d, yyyy")}: ${day.minutes > 0 ? formatMinutes(day.minutes) : "no study time"}`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-2 text-xs text-muted-foreground">
+        <span>Less</span>
+        <div className="h-3 w-3 rounded-sm bg-muted" />
+        {[...HEATMAP_LEVELS].reverse().map((level) => (
+          <div key={level.min} className={`h-3 w-3 rounded-sm ${level.className}`} />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+}
+
+export function StudyAnalytics() {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const { data: analytics, isLoading } = useQuery<StudyAnalyticsData>({
+    queryKey: ["/api/analytics/study", timeZone],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/study?timeZone=${encodeURIComponent(timeZone)}`);
+      if (!res.ok) throw new Error("Failed to fetch study analytics");
+      return res.json();
+    },
+  });
+
+  if (isLoading || !analytics) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const daily = analytics.daily.map((day) => ({
+    ...day,
+    label: format(parseDay(day.date), "MMM d"),
+  }));
+  const weekly = analytics.weekly.map((week) => ({
+    ...week,
+    label: format(parseDay(week.weekStart), "MMM d"),
+  }));
+  const subjects = analytics.subjects.slice(0, 8);
+  const studyDays = analytics.heatmap.filter((day) => day.minutes > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4 flex items-center">
+            <div className="bg-orange-100 dark:bg-orange-900 p-3 rounded-full mr-4">
+              <Flame className="h-5 w-5 text-orange-600 dark:text-orange-300" />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Current Streak</p>
+              <p className="text-2xl font-bold">
+                {analytics.currentStreak} {analytics.currentStreak === 1 ? "day" : "days"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4 flex items-center">
+            <div className="bg-primary/10 p-3 rounded-full mr-4">
+              <Trophy className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Longest Streak</p>
+              <p className="text-2xl font-bold">
+                {analytics.longestStreak} {analytics.longestStreak === 1 ? "day" : "days"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4 flex items-center">
+            <div className="bg-primary/10 p-3 rounded-full mr-4">
+              <Activity className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Total Study Time</p>
+              <p className="text-2xl font-bold">{formatMinutes(analytics.totalMinutes)}</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4 flex items-center">
+            <div className="bg-primary/10 p-3 rounded-full mr-4">
+              <CalendarDays className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Study Days This Year</p>
+              <p className="text-2xl font-bold">{studyDays}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Study Activity</CardTitle>
+          <CardDescription>Minutes studied each day over the past year</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <StudyHeatmap days={analytics.heatmap} />
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Last 30 Days</CardTitle>
+            <CardDescription>Minutes studied per day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-[220px] w-full">
+              <BarChart data={daily}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="minutes" fill="var(--color-minutes)" radius={[3, 3, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Weekly Totals</CardTitle>
+            <CardDescription>Minutes studied per week, starting Mondays</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-[220px] w-full">
+              <BarChart data={weekly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="minutes" fill="var(--color-minutes)" radius={[3, 3, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">By Subject</CardTitle>
+          <CardDescription>Where your study time has gone</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {subjects.length > 0 ? (
+            <ChartContainer
+              config={chartConfig}
+              className="w-full aspect-auto"
+              style={{ height: Math.max(120, subjects.length * 40) }}
+            >
+              <BarChart data={subjects} layout="vertical" margin={{ left: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="subject" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="minutes" fill="var(--color-minutes)" radius={[0, 3, 3, 0]} />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-center p-4 text-muted-foreground">
+              No study time logged yet. Use the study timer or your goals to start tracking.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,43 +1,28 @@
 import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { StudyGoalProgress } from "@shared/types";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar, Clock, BarChart2, Activity, PlusCircle, Trash2 } from "lucide-react";
+import { invalidateStudyLogQueries, useLogStudyTime } from "@/hooks/use-study-log";
+import { Calendar, Clock, BarChart2, Activity, PlusCircle, Trash2, Loader2 } from "lucide-react";
 
-interface StudyGoal {
-  id: string;
-  subject: string;
-  targetHours: number;
-  completedHours: number;
-  color: string;
-}
+// Hours with at most one decimal, e.g. 4.5
+const toHours = (minutes: number) => Math.round(minutes / 6) / 10;
 
 export function StudyProgressTracker() {
   const { toast } = useToast();
-  const [studyGoals, setStudyGoals] = useState<StudyGoal[]>([
-    { 
-      id: '1', 
-      subject: 'Mathematics', 
-      targetHours: 10, 
-      completedHours: 4.5,
-      color: 'bg-blue-500' 
-    },
-    { 
-      id: '2', 
-      subject: 'Computer Science', 
-      targetHours: 8, 
-      completedHours: 5.5,
-      color: 'bg-green-500' 
+  const logStudyTime = useLogStudyTime();
+
+  const { data: studyGoals = [], isLoading, dataUpdatedAt } = useQuery<StudyGoalProgress[]>({
+    queryKey: ["/api/study-goals"],
+    queryFn: async () => {
+      const res = await fetch("/api/study-goals");
+      if (!res.ok) throw new Error("Failed to fetch study goals");
+      return res.json();
     },
-    { 
-      id: '3', 
-      subject: 'Physics', 
-      targetHours: 6, 
-      completedHours: 2,
-      color: 'bg-purple-500' 
-    }
-  ]);
+  });
   
   const [showAddForm, setShowAddForm] = useState(false);
   const [newGoal, setNewGoal] = useState<{subject: string; targetHours: number}>({
@@ -45,27 +30,101 @@ export function StudyProgressTracker() {
     targetHours: 5
   });
   
-  const totalHoursStudied = studyGoals.reduce((total, goal) => total + goal.completedHours, 0);
-  const totalTargetHours = studyGoals.reduce((total, goal) => total + goal.targetHours, 0);
-  const overallProgress = Math.round((totalHoursStudied / totalTargetHours) * 100) || 0;
+  // Time beyond a goal's target doesn't make up for another goal falling short
+  const totalMinutesStudied = studyGoals.reduce((total, goal) => total + Math.min(goal.completedMinutes, goal.targetMinutes), 0);
+  const totalTargetMinutes = studyGoals.reduce((total, goal) => total + goal.targetMinutes, 0);
+  const totalHoursStudied = toHours(totalMinutesStudied);
+  const totalTargetHours = toHours(totalTargetMinutes);
+  const overallProgress = Math.round((totalMinutesStudied / totalTargetMinutes) * 100) || 0;
   
   // Generate color for new goals
   const colors = ['bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-red-500', 'bg-yellow-500', 'bg-indigo-500', 'bg-pink-500'];
   
-  const addStudyTime = (goalId: string, hours: number) => {
-    setStudyGoals(prevGoals => 
-      prevGoals.map(goal => 
-        goal.id === goalId 
-          ? { ...goal, completedHours: Math.min(goal.completedHours + hours, goal.targetHours) } 
-          : goal
-      )
+  const addStudyTime = (goal: StudyGoalProgress, hours: number) => {
+    logStudyTime.mutate(
+      { subject: goal.subject, durationMinutes: hours * 60, source: "manual" },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Study time added",
+            description: `Added ${hours} hour${hours === 1 ? '' : 's'} to your study log.`,
+          });
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive"
+          });
+        },
+      }
     );
-    
-    toast({
-      title: "Study time added",
-      description: `Added ${hours} hour${hours === 1 ? '' : 's'} to your study log.`,
-    });
   };
+
+  const addGoalMutation = useMutation({
+    mutationFn: async (goal: { subject: string; targetMinutes: number; color: string }) => {
+      const res = await fetch("/api/study-goals", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(goal),
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to add study goal");
+      }
+      return res.json();
+    },
+    onSuccess: (_, goal) => {
+      invalidateStudyLogQueries();
+      setNewGoal({ subject: '', targetHours: 5 });
+      setShowAddForm(false);
+
+      toast({
+        title: "Goal added",
+        description: `New study goal for ${goal.subject} has been added.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const removeGoalMutation = useMutation({
+    mutationFn: async (goalId: number) => {
+      const res = await fetch(`/api/study-goals/${goalId}`, {
+        method: "DELETE",
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to remove study goal");
+      }
+    },
+    onSuccess: () => {
+      invalidateStudyLogQueries();
+
+      toast({
+        title: "Goal removed",
+        description: "Your study goal has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
   
   const handleAddGoal = () => {
     if (!newGoal.subject.trim()) {
@@ -79,32 +138,10 @@ export function StudyProgressTracker() {
     
     const randomColor = colors[Math.floor(Math.random() * colors.length)];
     
-    setStudyGoals(prev => [
-      ...prev, 
-      {
-        id: Date.now().toString(),
-        subject: newGoal.subject,
-        targetHours: newGoal.targetHours,
-        completedHours: 0,
-        color: randomColor
-      }
-    ]);
-    
-    setNewGoal({ subject: '', targetHours: 5 });
-    setShowAddForm(false);
-    
-    toast({
-      title: "Goal added",
-      description: `New study goal for ${newGoal.subject} has been added.`,
-    });
-  };
-  
-  const removeGoal = (goalId: string) => {
-    setStudyGoals(prev => prev.filter(goal => goal.id !== goalId));
-    
-    toast({
-      title: "Goal removed",
-      description: "Your study goal has been removed.",
+    addGoalMutation.mutate({
+      subject: newGoal.subject.trim(),
+      targetMinutes: Math.round(newGoal.targetHours * 60),
+      color: randomColor
     });
   };
   
@@ -141,18 +178,28 @@ export function StudyProgressTracker() {
           
           {/* Individual goals */}
           <div className="space-y-3">
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : studyGoals.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-2">
+                No study goals yet. Add one to start tracking your progress.
+              </p>
+            )}
             {studyGoals.map(goal => {
-              const percentComplete = Math.round((goal.completedHours / goal.targetHours) * 100);
+              const percentComplete = Math.min(100, Math.round((goal.completedMinutes / goal.targetMinutes) * 100));
               
               return (
                 <div key={goal.id} className="border rounded-lg p-3">
                   <div className="flex justify-between mb-1">
                     <div className="flex items-center">
-                      <div className={`w-3 h-3 rounded-full ${goal.color} mr-2`}></div>
+                      <div className={`w-3 h-3 rounded-full ${goal.color || 'bg-blue-500'} mr-2`}></div>
                       <span className="font-medium text-sm">{goal.subject}</span>
                     </div>
                     <button 
-                      onClick={() => removeGoal(goal.id)}
+                      onClick={() => removeGoalMutation.mutate(goal.id)}
+                      disabled={removeGoalMutation.isPending}
                       className="text-muted-foreground hover:text-destructive"
                       aria-label="Remove goal"
                     >
@@ -161,7 +208,7 @@ export function StudyProgressTracker() {
                   </div>
                   
                   <div className="flex justify-between text-xs mb-2">
-                    <span>{goal.completedHours} / {goal.targetHours} hours</span>
+                    <span>{toHours(goal.completedMinutes)} / {toHours(goal.targetMinutes)} hours</span>
                     <span>{percentComplete}%</span>
                   </div>
                   
@@ -172,7 +219,8 @@ export function StudyProgressTracker() {
                       variant="outline"
                       size="sm"
                       className="text-xs h-7 px-2"
-                      onClick={() => addStudyTime(goal.id, 0.5)}
+                      disabled={logStudyTime.isPending}
+                      onClick={() => addStudyTime(goal, 0.5)}
                     >
                       +30min
                     </Button>
@@ -180,7 +228,8 @@ export function StudyProgressTracker() {
                       variant="outline"
                       size="sm"
                       className="text-xs h-7 px-2"
-                      onClick={() => addStudyTime(goal.id, 1)}
+                      disabled={logStudyTime.isPending}
+                      onClick={() => addStudyTime(goal, 1)}
                     >
                       +1h
                     </Button>
@@ -188,7 +237,8 @@ export function StudyProgressTracker() {
                       variant="outline"
                       size="sm"
                       className="text-xs h-7 px-2"
-                      onClick={() => addStudyTime(goal.id, 2)}
+                      disabled={logStudyTime.isPending}
+                      onClick={() => addStudyTime(goal, 2)}
                     >
                       +2h
                     </Button>
@@ -225,7 +275,7 @@ export function StudyProgressTracker() {
                   />
                 </div>
                 <div className="flex space-x-2">
-                  <Button size="sm" onClick={handleAddGoal}>Add Goal</Button>
+                  <Button size="sm" onClick={handleAddGoal} disabled={addGoalMutation.isPending}>Add Goal</Button>
                   <Button 
                     size="sm" 
                     variant="outline" 
@@ -252,7 +302,7 @@ export function StudyProgressTracker() {
       
       <CardFooter className="border-t pt-4 text-xs text-muted-foreground flex items-center">
         <Activity className="h-3 w-3 mr-1" />
-        <span>Last updated: {new Date().toLocaleDateString()}</span>
+        <span>Last updated: {new Date(dataUpdatedAt || Date.now()).toLocaleDateString()}</span>
       </CardFooter>
     </Card>
   );
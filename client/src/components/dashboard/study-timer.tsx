@@ -1,8 +1,14 @@
 import { useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { startOfDay } from "date-fns";
+import { StudyLogEntry } from "@shared/schema";
+import { StudyGoalProgress } from "@shared/types";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useLogStudyTime } from "@/hooks/use-study-log";
 import { 
   PlayCircle, 
   PauseCircle, 
@@ -40,6 +46,34 @@ export function StudyTimer() {
   const [sessionsCompleted, setSessionsCompleted] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
   const [soundEnabled, setSoundEnabled] = useState(true);
+  const [subject, setSubject] = useState("");
+  const logStudyTime = useLogStudyTime();
+
+  // Goal subjects are offered as suggestions, so timed blocks count towards them
+  const { data: goals = [] } = useQuery<StudyGoalProgress[]>({
+    queryKey: ["/api/study-goals"],
+    queryFn: async () => {
+      const res = await fetch("/api/study-goals");
+      if (!res.ok) throw new Error("Failed to fetch study goals");
+      return res.json();
+    },
+  });
+
+  const todayStart = startOfDay(new Date()).toISOString();
+  const { data: todaysLog = [] } = useQuery<StudyLogEntry[]>({
+    queryKey: ["/api/study-log", todayStart],
+    queryFn: async () => {
+      const res = await fetch(`/api/study-log?from=${encodeURIComponent(todayStart)}`);
+      if (!res.ok) throw new Error("Failed to fetch study log");
+      return res.json();
+    },
+  });
+  const focusBlocksToday = todaysLog.filter(entry => entry.source === "timer").length;
+
+  // The tick interval holds on to the handler from when the timer was started,
+  // so the subject is read through a ref to pick up edits made while it runs
+  const subjectRef = useRef(subject);
+  subjectRef.current = subject;
   
   const timerRef = useRef<number | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -106,6 +140,23 @@ export function StudyTimer() {
     }
     
     if (mode === "focus") {
+      logStudyTime.mutate(
+        {
+          subject: subjectRef.current.trim() || "General",
+          durationMinutes: settings.focusTime,
+          source: "timer",
+        },
+        {
+          onError: (error: Error) => {
+            toast({
+              title: "Couldn't save your focus session",
+              description: error.message,
+              variant: "destructive",
+            });
+          },
+        }
+      );
+
       const newSessionsCompleted = sessionsCompleted + 1;
       setSessionsCompleted(newSessionsCompleted);
       
@@ -244,6 +295,21 @@ export function StudyTimer() {
             </Button>
           </div>
           
+          {/* Subject the focus time is logged under */}
+          <div>
+            <Input
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="What are you studying?"
+              list="study-timer-subjects"
+            />
+            <datalist id="study-timer-subjects">
+              {goals.map(goal => (
+                <option key={goal.id} value={goal.subject} />
+              ))}
+            </datalist>
+          </div>
+          
           {/* Timer Display */}
           <div 
             className={`relative rounded-full aspect-square flex items-center justify-center border-8 ${
@@ -301,7 +367,7 @@ export function StudyTimer() {
           
           {/* Session Counter */}
           <div className="text-center text-sm text-muted-foreground mt-4">
-            <span>Sessions completed: {sessionsCompleted}</span>
+            <span>Focus sessions today: {focusBlocksToday}</span>
           </div>
           
           {/* Settings */}
@@ -0,0 +1,85 @@
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { Exam, Paper } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, GraduationCap } from "lucide-react";
+import { examLabel, formatExamCountdown, upcomingExamsQueryKey } from "@/lib/exams";
+
+// Only the nearest exams get a suggestion, further ones are a distraction
+const MAX_EXAMS_SHOWN = 3;
+const MAX_PAPERS_SHOWN = 4;
+
+interface UpcomingExamPapersProps {
+  onDownload: (paper: Paper) => void;
+}
+
+/**
+ * "Past papers for your upcoming exam in CHEM101" suggestions for the
+ * papers browser, one row per upcoming exam that has matching papers.
+ */
+export function UpcomingExamPapers({ onDownload }: UpcomingExamPapersProps) {
+  const { data: exams = [] } = useQuery<Exam[]>({
+    queryKey: upcomingExamsQueryKey,
+    queryFn: async () => {
+      const res = await fetch("/api/exams?upcoming=true");
+      if (!res.ok) throw new Error("Failed to fetch exams");
+      return res.json();
+    },
+  });
+
+  const nearestExams = exams.slice(0, MAX_EXAMS_SHOWN);
+  const paperQueries = useQueries({
+    queries: nearestExams.map((exam) => ({
+      queryKey: [`/api/exams/${exam.id}/papers`],
+      queryFn: async (): Promise<Paper[]> => {
+        const res = await fetch(`/api/exams/${exam.id}/papers`);
+        if (!res.ok) throw new Error("Failed to fetch past papers");
+        return res.json();
+      },
+    })),
+  });
+
+  const suggestions = nearestExams
+    .map((exam, index) => ({ exam, papers: paperQueries[index]?.data ?? [] }))
+    .filter(({ papers }) => papers.length > 0);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mb-6">
+      {suggestions.map(({ exam, papers }) => (
+        <Card key={exam.id} className="bg-primary/5 border-primary/20">
+          <CardContent className="p-4">
+            <div className="flex items-center mb-3">
+              <GraduationCap className="h-5 w-5 text-primary mr-2" />
+              <p className="font-medium">
+                Past papers for your upcoming exam in {exam.course}
+                <span className="text-sm font-normal text-muted-foreground ml-2">
+                  {examLabel(exam)} · {formatExamCountdown(exam.examDate)}
+                </span>
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {papers.slice(0, MAX_PAPERS_SHOWN).map((paper) => (
+                <div key={paper.id} className="flex items-center justify-between bg-background rounded-md border px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{paper.title}</p>
+                    <p className="text-xs text-muted-foreground">{paper.year} · {paper.institution}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => onDownload(paper)}>
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            {papers.length > MAX_PAPERS_SHOWN && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {papers.length - MAX_PAPERS_SHOWN} more in the list below
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
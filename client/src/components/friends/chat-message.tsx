@@ -17,10 +17,11 @@ interface ChatMessageProps {
   };
   currentUserId: number;
   showTime?: boolean;
+  showReadStatus?: boolean;
   formatTime: (date: string) => string;
 }
 
-export function ChatMessage({ message, currentUserId, showTime = true, formatTime }: ChatMessageProps) {
+export function ChatMessage({ message, currentUserId, showTime = true, showReadStatus = false, formatTime }: ChatMessageProps) {
   const isCurrentUser = message.senderId === currentUserId;
   
   return (
@@ -47,6 +48,11 @@ export function ChatMessage({ message, currentUserId, showTime = true, formatTim
         >
           {message.content}
         </div>
+        {showReadStatus && isCurrentUser && (
+          <span className="text-xs text-muted-foreground -mt-1 mb-1">
+            {message.isRead ? "Read" : "Sent"}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -2,17 +2,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Check, X } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { FriendRequest } from "@shared/types";
 
 interface FriendRequestProps {
-  request: {
-    id: number;
-    senderId: number;
-    senderName?: string;
-    senderAvatar?: string;
-    receiverId: number;
-    status: 'pending' | 'accepted' | 'rejected';
-    createdAt: Date;
-  };
+  request: FriendRequest;
   currentUserId: number;
   onAccept: () => void;
   onDecline: () => void;
@@ -24,7 +17,7 @@ export function FriendRequestItem({ request, currentUserId, onAccept, onDecline
   return (
     <div className="flex items-center gap-3 p-3 border rounded-md">
       <Avatar>
-        <AvatarImage src={request.senderAvatar} />
+        <AvatarImage src={request.senderAvatar ?? undefined} />
         <AvatarFallback>
           {request.senderName?.slice(0, 2).toUpperCase() || "UN"}
         </AvatarFallback>
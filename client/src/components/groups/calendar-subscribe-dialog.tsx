@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CalendarPlus, Copy, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface CalendarFeed {
+  url: string;
+}
+
+const calendarFeedQueryKey = ["/api/calendar/feed"];
+
+/**
+ * Shows the user's private calendar feed URL so their group sessions can be
+ * subscribed to from Google Calendar, Outlook or Apple Calendar.
+ */
+export function CalendarSubscribeDialog() {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: calendarFeedQueryKey,
+    queryFn: async () => {
+      const res = await fetch("/api/calendar/feed");
+      if (!res.ok) throw new Error("Failed to fetch calendar feed");
+      return res.json();
+    },
+    enabled: isOpen,
+  });
+
+  const resetFeedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/calendar/feed/reset", { method: "POST" });
+      if (!res.ok) throw new Error("Failed to reset calendar link");
+      return res.json() as Promise<CalendarFeed>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(calendarFeedQueryKey, data);
+      toast({
+        title: "Calendar link reset",
+        description: "The previous link no longer works. Re-subscribe with the new one.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast({ title: "Link copied", description: "Paste it into your calendar app's subscribe option" });
+    } catch {
+      toast({ title: "Couldn't copy the link", description: "Select it and copy it manually", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          Subscribe
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Subscribe to your sessions</DialogTitle>
+          <DialogDescription>
+            Add this link to Google Calendar ("From URL"), Outlook ("Subscribe from web") or Apple Calendar.
+            Upcoming sessions from all your groups appear there and stay up to date.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !feed ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input value={feed.url} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Anyone with this link can see your sessions. Reset it if it has been shared by mistake.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="pt-4">
+          <Button
+            variant="ghost"
+            onClick={() => resetFeedMutation.mutate()}
+            disabled={!feed || resetFeedMutation.isPending}
+          >
+            {resetFeedMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Reset link
+          </Button>
+          {feed && (
+            <Button asChild>
+              <a href={feed.url.replace(/^https?:/, "webcal:")}>Open in calendar app</a>
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertStudySessionSchema } from "@shared/schema";
+import { insertStudySessionSchema, MAX_SESSION_OCCURRENCES, type SessionRecurrence } from "@shared/schema";
 import { useMutation } from "@tanstack/react-query";
 import { 
   Dialog, 
@@ -25,6 +25,8 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Calendar } from "@/components/ui/calendar";
 import { 
   Popover,
@@ -32,7 +34,8 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
-import { format, parse } from "date-fns";
+import { WEEKDAY_LABELS } from "@/lib/recurrence";
+import { format, parse, endOfDay } from "date-fns";
 import { CalendarIcon, Clock, Loader2, MapPin, Video } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
@@ -57,6 +60,19 @@ const sessionFormSchema = z.object({
   ),
   groupId: z.number(),
   createdBy: z.number(),
+  repeat: z.enum(["none", "daily", "weekly", "custom"]),
+  // Days of the week for "custom", 0 = Sunday
+  weekdays: z.array(z.number()),
+  ends: z.enum(["count", "until"]),
+  count: z.coerce.number().int().min(1, "At least 1 session").max(MAX_SESSION_OCCURRENCES, `At most ${MAX_SESSION_OCCURRENCES} sessions`),
+  untilDate: z.date().optional(),
+}).superRefine((data, ctx) => {
+  if (data.repeat === "custom" && data.weekdays.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["weekdays"], message: "Pick at least one day" });
+  }
+  if (data.repeat !== "none" && data.ends === "until" && !data.untilDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["untilDate"], message: "Pick the last date" });
+  }
 });
 
 type SessionFormValues = z.infer<typeof sessionFormSchema>;
@@ -86,11 +102,17 @@ export function CreateSessionDialog({ groupId, onSessionCreated }: CreateSession
       meetingLink: "",
       groupId: groupId,
       createdBy: user?.id || 0,
+      repeat: "none",
+      weekdays: [],
+      ends: "count",
+      count: 10,
     },
   });
   
   // Watch isVirtual to conditionally require meeting link
   const isVirtual = form.watch("isVirtual");
+  const repeat = form.watch("repeat");
+  const ends = form.watch("ends");
   
   // Create mutation for submitting session
   const createSessionMutation = useMutation({
@@ -117,9 +139,10 @@ export function CreateSessionDialog({ groupId, onSessionCreated }: CreateSession
           meetingLink: data.meetingLink || "",
           groupId: data.groupId,
           createdBy: data.createdBy,
+          recurrence: buildRecurrence(data),
         };
         
-        const response = await fetch("/api/sessions", {
+        const response = await fetch(`/api/groups/${data.groupId}/sessions`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -152,6 +175,9 @@ export function CreateSessionDialog({ groupId, onSessionCreated }: CreateSession
       queryClient.invalidateQueries({
         queryKey: [`/api/groups/${groupId}/sessions`],
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/upcoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/upcoming-events"] });
       
       // Call the callback if provided
       if (onSessionCreated) {
@@ -183,6 +209,21 @@ export function CreateSessionDialog({ groupId, onSessionCreated }: CreateSession
     }
   }
   
+  // Recurrence rule for the API, null for a one-off session
+  function buildRecurrence(data: SessionFormValues): SessionRecurrence | null {
+    if (data.repeat === "none") return null;
+
+    return {
+      frequency: data.repeat === "daily" ? "daily" : "weekly",
+      interval: 1,
+      weekdays: data.repeat === "custom" ? data.weekdays : undefined,
+      until: data.ends === "until" && data.untilDate ? endOfDay(data.untilDate).toISOString() : undefined,
+      count: data.ends === "count" ? data.count : undefined,
+      // Keeps the session at the same local time across daylight saving changes
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  }
+  
   // Form submission handler
   function onSubmit(data: SessionFormValues) {
     createSessionMutation.mutate(data);
@@ -379,6 +420,136 @@ export function CreateSessionDialog({ groupId, onSessionCreated }: CreateSession
               />
             </div>
             
+            <FormField
+              control={form.control}
+              name="repeat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeat</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="daily">Every day</SelectItem>
+                      <SelectItem value="weekly">Every week</SelectItem>
+                      <SelectItem value="custom">On specific days of the week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            {repeat === "custom" && (
+              <FormField
+                control={form.control}
+                name="weekdays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat on*</FormLabel>
+                    <FormControl>
+                      <ToggleGroup
+                        type="multiple"
+                        variant="outline"
+                        className="justify-start"
+                        value={field.value.map(String)}
+                        onValueChange={(values) => field.onChange(values.map(Number).sort((a, b) => a - b))}
+                      >
+                        {WEEKDAY_LABELS.map((day, index) => (
+                          <ToggleGroupItem key={day} value={String(index)} size="sm">
+                            {day}
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
+            {repeat !== "none" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="ends"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="count">After a number of sessions</SelectItem>
+                          <SelectItem value="until">On a date</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                {ends === "count" ? (
+                  <FormField
+                    control={form.control}
+                    name="count"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sessions*</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={MAX_SESSION_OCCURRENCES} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="untilDate"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Last Date*</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant="outline"
+                                className={cn(
+                                  "w-full pl-3 text-left font-normal",
+                                  !field.value && "text-muted-foreground"
+                                )}
+                              >
+                                {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value}
+                              onSelect={field.onChange}
+                              disabled={(date) => date < form.getValues("startDate")}
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
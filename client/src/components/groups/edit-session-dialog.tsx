@@ -0,0 +1,300 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { StudySession } from "@shared/schema";
+import { SessionOccurrence } from "@shared/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { describeRecurrence } from "@/lib/recurrence";
+
+const editSessionFormSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  description: z.string().optional(),
+  date: z.string().min(1, "Date is required"),
+  startTime: z.string().min(1, "Start time is required"),
+  endTime: z.string().min(1, "End time is required"),
+  location: z.string().optional(),
+  meetingLink: z.string().optional().refine(
+    (val) => !val || val.startsWith('http'),
+    {
+      message: "Meeting link must be a valid URL",
+    }
+  ),
+}).refine((data) => data.endTime > data.startTime, {
+  path: ["endTime"],
+  message: "End time must be after the start time",
+});
+
+type EditSessionFormValues = z.infer<typeof editSessionFormSchema>;
+
+export type EditSessionScope = "occurrence" | "series";
+
+interface EditSessionDialogProps {
+  session: SessionOccurrence;
+  // "occurrence" changes only this date of a recurring session
+  scope: EditSessionScope;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function toFormValues(session: StudySession): EditSessionFormValues {
+  const startTime = new Date(session.startTime);
+  const endTime = new Date(session.endTime);
+  return {
+    title: session.title,
+    description: session.description || "",
+    date: format(startTime, "yyyy-MM-dd"),
+    startTime: format(startTime, "HH:mm"),
+    endTime: format(endTime, "HH:mm"),
+    location: session.location || "",
+    meetingLink: session.meetingLink || "",
+  };
+}
+
+export function invalidateSessionQueries(groupId: number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/groups/${groupId}/sessions`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/sessions/upcoming"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/upcoming-events"] });
+}
+
+export function EditSessionDialog({ session, scope, open, onOpenChange }: EditSessionDialogProps) {
+  const { toast } = useToast();
+  const editingSeries = scope === "series" && !!session.recurrence;
+
+  // Occurrences carry their own dates, the series form starts from the first one
+  const { data: series } = useQuery<StudySession>({
+    queryKey: [`/api/sessions/${session.id}`],
+    queryFn: async () => {
+      const res = await fetch(`/api/sessions/${session.id}`);
+      if (!res.ok) throw new Error("Failed to fetch session");
+      return res.json();
+    },
+    enabled: open && editingSeries,
+  });
+
+  const form = useForm<EditSessionFormValues>({
+    resolver: zodResolver(editSessionFormSchema),
+    defaultValues: toFormValues(session),
+  });
+
+  // Keyed on identity rather than the objects, so a background refetch doesn't wipe unsaved edits
+  const occurrenceKey = `${session.id}-${session.occurrenceStart}`;
+  const seriesLoaded = !!series;
+  useEffect(() => {
+    if (!open) return;
+    form.reset(toFormValues(editingSeries && series ? series : session));
+  }, [open, editingSeries, seriesLoaded, occurrenceKey]);
+
+  const updateSessionMutation = useMutation({
+    mutationFn: async (data: EditSessionFormValues) => {
+      const startTime = new Date(`${data.date}T${data.startTime}`);
+      const endTime = new Date(`${data.date}T${data.endTime}`);
+      const query = scope === "occurrence" && session.recurrence
+        ? `?occurrence=${encodeURIComponent(new Date(session.occurrenceStart).toISOString())}`
+        : "";
+
+      // Only send what changed, so an edited occurrence keeps following
+      // the series for everything else
+      const dirty = form.formState.dirtyFields;
+      const changes: Record<string, string> = {};
+      if (dirty.title) changes.title = data.title;
+      if (dirty.description) changes.description = data.description || "";
+      if (dirty.date || dirty.startTime || dirty.endTime) {
+        changes.startTime = startTime.toISOString();
+        changes.endTime = endTime.toISOString();
+      }
+      if (dirty.location) changes.location = data.location || "";
+      if (dirty.meetingLink) changes.meetingLink = data.meetingLink || "";
+
+      const res = await fetch(`/api/sessions/${session.id}${query}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to update study session");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      toast({
+        title: "Session updated",
+        description: editingSeries ? "All sessions in the series were updated" : "The session was updated",
+      });
+      invalidateSessionQueries(session.groupId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update session",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>{editingSeries ? "Edit All Sessions" : "Edit Session"}</DialogTitle>
+          <DialogDescription>
+            {editingSeries && session.recurrence
+              ? `Changes apply to every session in the series (${describeRecurrence(session.recurrence)})`
+              : session.recurrence
+                ? `Changes apply only to the session on ${format(new Date(session.occurrenceStart), "EEEE, MMMM d")}`
+                : "Update the details of this study session"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateSessionMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Session Title*</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea className="resize-none h-24" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{editingSeries ? "First Date*" : "Date*"}</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Time*</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Time*</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {session.isVirtual ? (
+              <FormField
+                control={form.control}
+                name="meetingLink"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Meeting Link</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <FormControl>
+                      <Input placeholder="E.g. Library, Room 101" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter className="pt-4">
+              <Button type="submit" disabled={updateSessionMutation.isPending}>
+                {updateSessionMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Changes"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { PomodoroAction, PomodoroPhase } from "@shared/schema";
+import { PomodoroRoom } from "@shared/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Brain, Coffee, PlayCircle, PauseCircle, RefreshCw, SkipForward, Timer } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateStudyLogQueries } from "@/hooks/use-study-log";
+import { queryClient } from "@/lib/queryClient";
+
+const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  focus: "Focus",
+  shortBreak: "Short Break",
+  longBreak: "Long Break",
+};
+
+export const groupPomodoroQueryKey = (groupId: number) => [`/api/groups/${groupId}/pomodoro`];
+
+function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * The group's shared Pomodoro timer. The countdown runs against the server's
+ * clock, so everyone with the page open sees the same time left; any member
+ * can start, pause, skip or reset it for the whole group.
+ */
+export function GroupPomodoro({ groupId }: { groupId: number }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { isConnected, send, subscribe } = useRealtime();
+  const queryKey = groupPomodoroQueryKey(groupId);
+
+  // Server time minus local time, measured whenever a room state arrives
+  const clockOffsetRef = useRef(0);
+  const [now, setNow] = useState(Date.now());
+
+  const { data: room, refetch } = useQuery<PomodoroRoom>({
+    queryKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/groups/${groupId}/pomodoro`);
+      if (!res.ok) throw new Error("Failed to fetch group timer");
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (room) {
+      clockOffsetRef.current = new Date(room.serverTime).getTime() - Date.now();
+    }
+  }, [room]);
+
+  // Being on the page is what makes a member a participant
+  useEffect(() => {
+    if (!isConnected) return;
+    send({ type: "pomodoro_presence", groupId, isViewing: true });
+    return () => send({ type: "pomodoro_presence", groupId, isViewing: false });
+  }, [groupId, isConnected, send]);
+
+  useEffect(() => {
+    return subscribe((event) => {
+      if (event.type !== "pomodoro" || event.room.groupId !== groupId) return;
+
+      const previous = queryClient.getQueryData<PomodoroRoom>(queryKey);
+      queryClient.setQueryData(queryKey, event.room);
+
+      // Participants get the finished block added to their study log
+      const blockFinished = previous && event.room.completedFocusBlocks > previous.completedFocusBlocks;
+      if (blockFinished && event.room.participants.some((participant) => participant.id === user?.id)) {
+        invalidateStudyLogQueries();
+      }
+    });
+  }, [groupId, subscribe, user?.id]);
+
+  const isRunning = room?.status === "running";
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const timeLeft = !room
+    ? 0
+    : room.status === "running" && room.phaseEndsAt
+      ? Math.max(0, Math.ceil((new Date(room.phaseEndsAt).getTime() - now - clockOffsetRef.current) / 1000))
+      : room.status === "paused" && room.remainingSeconds
+        ? room.remainingSeconds
+        : room.phaseSeconds;
+
+  // The server announces the next phase itself; this only covers a missed message
+  const reachedZero = isRunning && timeLeft === 0;
+  useEffect(() => {
+    if (!reachedZero) return;
+    const timeout = window.setTimeout(() => refetch(), 3000);
+    return () => clearTimeout(timeout);
+  }, [reachedZero, refetch]);
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: PomodoroAction): Promise<PomodoroRoom> => {
+      const res = await fetch(`/api/groups/${groupId}/pomodoro/${action}`, {
+        method: "POST",
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to update the group timer");
+      }
+      return res.json();
+    },
+    onSuccess: (updatedRoom) => {
+      queryClient.setQueryData(queryKey, updatedRoom);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update the group timer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!room) return null;
+
+  const progress = ((room.phaseSeconds - timeLeft) / room.phaseSeconds) * 100;
+  const isFocus = room.phase === "focus";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Timer className="mr-2 h-5 w-5" />
+          Group Pomodoro
+        </CardTitle>
+        <CardDescription>
+          One timer for everyone in the group. Focus blocks count towards the study time of everyone here when they finish.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row items-center gap-6">
+          <div
+            className={`relative rounded-full aspect-square flex items-center justify-center border-8 ${
+              isFocus ? "border-primary" : "border-blue-400"
+            } w-40 h-40 text-3xl font-bold select-none flex-shrink-0`}
+            style={{
+              background: `conic-gradient(
+                ${isFocus ? "rgb(var(--primary))" : "rgb(96, 165, 250)"} ${progress}%,
+                transparent ${progress}% 100%
+              )`
+            }}
+          >
+            <div className="flex flex-col items-center justify-center rounded-full bg-background w-[85%] h-[85%] z-10">
+              <span>{formatTime(timeLeft)}</span>
+              <span className="text-xs font-medium text-muted-foreground flex items-center">
+                {isFocus ? <Brain className="mr-1 h-3 w-3" /> : <Coffee className="mr-1 h-3 w-3" />}
+                {PHASE_LABELS[room.phase]}
+                {room.status === "paused" && " · Paused"}
+              </span>
+            </div>
+          </div>
+
+          <div className="flex-1 w-full space-y-4">
+            <div className="flex space-x-3">
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-10 w-10 rounded-full"
+                onClick={() => actionMutation.mutate(isRunning ? "pause" : "start")}
+                disabled={actionMutation.isPending}
+                aria-label={isRunning ? "Pause" : "Start"}
+              >
+                {isRunning ? <PauseCircle className="h-6 w-6" /> : <PlayCircle className="h-6 w-6" />}
+              </Button>
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-10 w-10 rounded-full"
+                onClick={() => actionMutation.mutate("skip")}
+                disabled={actionMutation.isPending}
+                aria-label="Skip to the next phase"
+              >
+                <SkipForward className="h-5 w-5" />
+              </Button>
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-10 w-10 rounded-full"
+                onClick={() => actionMutation.mutate("reset")}
+                disabled={actionMutation.isPending}
+                aria-label="Reset"
+              >
+                <RefreshCw className="h-5 w-5" />
+              </Button>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-900 mb-2">
+                Here now ({room.participants.length})
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {room.participants.map((participant) => (
+                  <span
+                    key={participant.id}
+                    className="text-xs bg-gray-100 text-gray-700 py-1 px-2 rounded-full"
+                  >
+                    {participant.name}
+                    {participant.id === room.startedBy && isRunning && " (started)"}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {room.completedFocusBlocks} focus {room.completedFocusBlocks === 1 ? "block" : "blocks"} completed by this group
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { SessionOccurrence } from "@shared/types";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MoreVertical, Pencil, Trash2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { EditSessionDialog, invalidateSessionQueries, type EditSessionScope } from "./edit-session-dialog";
+
+interface SessionActionsMenuProps {
+  session: SessionOccurrence;
+}
+
+/**
+ * Edit and cancel actions for the organizer and group admins. Recurring
+ * sessions offer each action for this occurrence or the whole series.
+ */
+export function SessionActionsMenu({ session }: SessionActionsMenuProps) {
+  const { toast } = useToast();
+  const [editScope, setEditScope] = useState<EditSessionScope | null>(null);
+  const [cancelScope, setCancelScope] = useState<EditSessionScope | null>(null);
+  const isRecurring = !!session.recurrence;
+  const occurrenceDate = format(new Date(session.occurrenceStart), "EEEE, MMMM d");
+
+  const cancelSessionMutation = useMutation({
+    mutationFn: async (scope: EditSessionScope) => {
+      const query = scope === "occurrence" && isRecurring
+        ? `?occurrence=${encodeURIComponent(new Date(session.occurrenceStart).toISOString())}`
+        : "";
+      const res = await fetch(`/api/sessions/${session.id}${query}`, {
+        method: "DELETE",
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to cancel study session");
+      }
+    },
+    onSuccess: (_, scope) => {
+      toast({
+        title: scope === "series" && isRecurring ? "Series deleted" : "Session cancelled",
+        description: "Group members have been notified",
+      });
+      invalidateSessionQueries(session.groupId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel session",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Session options">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setEditScope("occurrence")}>
+            <Pencil className="mr-2 h-4 w-4" />
+            {isRecurring ? "Edit this session" : "Edit session"}
+          </DropdownMenuItem>
+          {isRecurring && (
+            <DropdownMenuItem onClick={() => setEditScope("series")}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit all sessions
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-destructive" onClick={() => setCancelScope("occurrence")}>
+            <XCircle className="mr-2 h-4 w-4" />
+            {isRecurring ? "Cancel this session" : "Cancel session"}
+          </DropdownMenuItem>
+          {isRecurring && (
+            <DropdownMenuItem className="text-destructive" onClick={() => setCancelScope("series")}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete all sessions
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {editScope && (
+        <EditSessionDialog
+          session={session}
+          scope={editScope}
+          open={!!editScope}
+          onOpenChange={(open) => !open && setEditScope(null)}
+        />
+      )}
+
+      <AlertDialog open={!!cancelScope} onOpenChange={(open) => !open && setCancelScope(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {cancelScope === "series" ? "Delete all sessions" : "Cancel session"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancelScope === "series"
+                ? `Every session of "${session.title}" will be removed, including past ones.`
+                : isRecurring
+                  ? `Only the session on ${occurrenceDate} will be cancelled. The rest of the series stays scheduled.`
+                  : `"${session.title}" will be removed from the group's schedule.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => cancelScope && cancelSessionMutation.mutate(cancelScope)}
+            >
+              {cancelScope === "series" ? "Delete All" : "Cancel Session"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
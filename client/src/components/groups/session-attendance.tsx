@@ -0,0 +1,179 @@
+import { useMutation } from "@tanstack/react-query";
+import { CHECK_IN_OPENS_MINUTES_BEFORE, type RsvpStatus, type SessionAttendance as Attendance } from "@shared/schema";
+import { GroupMember, SessionOccurrence } from "@shared/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Loader2, UserCheck } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+const RSVP_OPTIONS: { status: RsvpStatus; label: string }[] = [
+  { status: "going", label: "Going" },
+  { status: "maybe", label: "Maybe" },
+  { status: "not_going", label: "Can't go" },
+];
+
+export const groupAttendanceQueryKey = (groupId: number | string) => [`/api/groups/${groupId}/attendance`];
+
+// Attendance records are matched to occurrences by session and original start
+export const attendanceKey = (sessionId: number, occurrenceStart: Date | string) =>
+  `${sessionId}-${new Date(occurrenceStart).getTime()}`;
+
+interface SessionAttendanceProps {
+  session: SessionOccurrence;
+  // Records for this occurrence only
+  attendance: Attendance[];
+  members: GroupMember[];
+}
+
+/**
+ * RSVP buttons, check-in and the attendee list for one session occurrence,
+ * shown to group members. Check-in opens shortly before the session starts
+ * and closes when it ends.
+ */
+export function SessionAttendance({ session, attendance, members }: SessionAttendanceProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const now = Date.now();
+  const startTime = new Date(session.startTime).getTime();
+  const hasEnded = new Date(session.endTime).getTime() <= now;
+  const checkInOpen = !hasEnded && now >= startTime - CHECK_IN_OPENS_MINUTES_BEFORE * 60 * 1000;
+
+  const mine = attendance.find((record) => record.userId === user?.id);
+  const going = attendance.filter((record) => record.rsvp === "going");
+  const maybe = attendance.filter((record) => record.rsvp === "maybe");
+  const checkedIn = attendance.filter((record) => record.checkedInAt);
+
+  const memberName = (userId: number) => {
+    const member = members.find((m) => m.userId === userId);
+    return member?.user?.displayName || member?.user?.username || "Unknown member";
+  };
+
+  const occurrenceQuery = session.recurrence
+    ? `?occurrence=${encodeURIComponent(new Date(session.occurrenceStart).toISOString())}`
+    : "";
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: groupAttendanceQueryKey(session.groupId) });
+    queryClient.invalidateQueries({ queryKey: ["/api/user-stats"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Something went wrong",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const rsvpMutation = useMutation({
+    mutationFn: async (status: RsvpStatus) => {
+      const res = await fetch(`/api/sessions/${session.id}/rsvp${occurrenceQuery}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status }),
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to save your RSVP");
+      }
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/sessions/${session.id}/check-in${occurrenceQuery}`, {
+        method: "POST",
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to check in");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Checked in",
+        description: `Enjoy "${session.title}"!`,
+      });
+      onSuccess();
+    },
+    onError,
+  });
+
+  const attendeeList = (records: Attendance[]) =>
+    records.map((record) => memberName(record.userId)).join(", ");
+
+  return (
+    <div className="border-t border-gray-100 pt-3 mt-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+        {hasEnded ? (
+          <span>
+            <UserCheck className="inline mr-1 h-4 w-4" />
+            {checkedIn.length} attended{checkedIn.length > 0 && `: ${attendeeList(checkedIn)}`}
+          </span>
+        ) : (
+          <>
+            <span>
+              {going.length} going{going.length > 0 && `: ${attendeeList(going)}`}
+            </span>
+            {maybe.length > 0 && (
+              <span>· {maybe.length} maybe: {attendeeList(maybe)}</span>
+            )}
+            {checkedIn.length > 0 && (
+              <span>· {checkedIn.length} checked in</span>
+            )}
+          </>
+        )}
+      </div>
+
+      {!hasEnded && (
+        <div className="flex flex-wrap items-center gap-2">
+          {RSVP_OPTIONS.map(({ status, label }) => (
+            <Button
+              key={status}
+              size="sm"
+              variant={mine?.rsvp === status ? "default" : "outline"}
+              disabled={rsvpMutation.isPending}
+              onClick={() => mine?.rsvp !== status && rsvpMutation.mutate(status)}
+            >
+              {label}
+            </Button>
+          ))}
+
+          {mine?.checkedInAt ? (
+            <Badge variant="secondary" className="ml-auto">
+              <CheckCircle2 className="mr-1 h-3 w-3" />
+              Checked in
+            </Badge>
+          ) : checkInOpen && (
+            <Button
+              size="sm"
+              className="ml-auto"
+              disabled={checkInMutation.isPending}
+              onClick={() => checkInMutation.mutate()}
+            >
+              {checkInMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <UserCheck className="mr-2 h-4 w-4" />
+              )}
+              Check in
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
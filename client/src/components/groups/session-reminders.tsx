@@ -0,0 +1,65 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { PendingSessionReminder } from "@shared/types";
+
+const REMINDER_POLL_INTERVAL = 60000; // 1 minute
+const REMINDER_TOAST_DURATION = 15000; // 15 seconds
+
+/**
+ * Polls for due study session reminders and shows each one as a toast.
+ * Reminders are dismissed on the server once shown, so other tabs and
+ * later visits don't show them again. Renders nothing.
+ */
+export function SessionReminders() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { subscribe } = useRealtime();
+  const shownRef = useRef(new Set<number>());
+
+  const { data: reminders = [], refetch } = useQuery<PendingSessionReminder[]>({
+    queryKey: ["/api/reminders"],
+    queryFn: async () => {
+      const res = await fetch("/api/reminders");
+      if (!res.ok) throw new Error("Failed to fetch reminders");
+      return res.json();
+    },
+    enabled: !!user,
+    refetchInterval: REMINDER_POLL_INTERVAL,
+  });
+
+  // Reminder notifications are pushed, so there's no need to wait for the next poll
+  useEffect(() => {
+    if (!user) return;
+    return subscribe((event) => {
+      if (event.type === "notification" && event.notification.type === "session_reminder") {
+        refetch();
+      }
+    });
+  }, [user, subscribe, refetch]);
+
+  useEffect(() => {
+    reminders.forEach((reminder) => {
+      if (shownRef.current.has(reminder.id)) return;
+      shownRef.current.add(reminder.id);
+
+      const startTime = new Date(reminder.session.startTime);
+      toast({
+        title: `${reminder.session.title} starts ${formatDistanceToNow(startTime, { addSuffix: true })}`,
+        description: `${reminder.groupName} · ${format(startTime, "h:mm a")}${
+          reminder.session.location ? ` · ${reminder.session.location}` : ""
+        }`,
+        duration: REMINDER_TOAST_DURATION,
+      });
+
+      fetch(`/api/reminders/${reminder.id}/dismiss`, { method: "POST" }).catch((error) => {
+        console.error("Failed to dismiss reminder:", error);
+      });
+    });
+  }, [reminders, toast]);
+
+  return null;
+}
@@ -3,13 +3,13 @@ import { useLocation } from "wouter";
 import { Input } from "@/components/ui/input";
 import { 
   Search, 
-  Bell, 
   MessageSquare, 
   ChevronDown,
   Menu
 } from "lucide-react";
 import { ThemeToggle } from "../theme/theme-toggle";
 import { SearchSuggestions } from "../search/search-suggestions";
+import { NotificationBell } from "./notification-bell";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 import {
@@ -87,9 +87,7 @@ export function Header({ onToggleMobileMenu }: HeaderProps) {
         {/* Nav Actions - Desktop */}
         <div className="flex items-center space-x-1">
           <ThemeToggle />
-          <Button variant="ghost" size="icon" aria-label="Notifications">
-            <Bell className="h-5 w-5 text-gray-600" />
-          </Button>
+          <NotificationBell />
           <Button variant="ghost" size="icon" aria-label="Messages">
             <MessageSquare className="h-5 w-5 text-gray-600" />
           </Button>
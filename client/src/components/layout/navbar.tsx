@@ -23,6 +23,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
+import { NotificationBell } from "./notification-bell";
 
 const navItems = [
   { path: "/dashboard", label: "Dashboard", icon: Home },
@@ -83,6 +84,7 @@ export function Navbar() {
         </div>
 
         <div className="flex items-center gap-2">
+          <NotificationBell />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" className="relative h-10 w-10 rounded-full">
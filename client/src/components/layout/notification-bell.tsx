@@ -0,0 +1,145 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { notificationsQueryKey } from "@/hooks/use-realtime";
+import { queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Notification } from "@shared/schema";
+import { NotificationFeed } from "@shared/types";
+
+export function NotificationBell() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+
+  // New notifications arrive through the realtime connection
+  const { data: feed } = useQuery<NotificationFeed>({
+    queryKey: notificationsQueryKey,
+    queryFn: async () => {
+      const res = await fetch("/api/notifications");
+      if (!res.ok) throw new Error("Failed to fetch notifications");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const notifications = feed?.notifications ?? [];
+  const unreadCount = feed?.unreadCount ?? 0;
+
+  const markAsReadMutation = useMutation({
+    mutationFn: async (notificationId: number) => {
+      const res = await fetch(`/api/notifications/${notificationId}/read`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to mark notification as read");
+      return res.json();
+    },
+    onSuccess: (notification: Notification) => {
+      queryClient.setQueryData<NotificationFeed>(notificationsQueryKey, (current) =>
+        current && {
+          notifications: current.notifications.map(n => n.id === notification.id ? notification : n),
+          unreadCount: Math.max(0, current.unreadCount - 1),
+        }
+      );
+    },
+  });
+
+  const markAllAsReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/notifications/read-all", { method: "POST" });
+      if (!res.ok) throw new Error("Failed to mark notifications as read");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<NotificationFeed>(notificationsQueryKey, (current) =>
+        current && {
+          notifications: current.notifications.map(n => ({ ...n, isRead: true })),
+          unreadCount: 0,
+        }
+      );
+    },
+  });
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.isRead) {
+      markAsReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-[1rem] h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-medium leading-4 text-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markAllAsReadMutation.mutate()}
+              disabled={markAllAsReadMutation.isPending}
+            >
+              <CheckCheck className="mr-1 h-3 w-3" />
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            You're all caught up
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex items-start gap-2 py-2 cursor-pointer"
+                onSelect={() => handleSelect(notification)}
+              >
+                <span
+                  className={cn(
+                    "mt-1.5 h-2 w-2 flex-shrink-0 rounded-full",
+                    notification.isRead ? "bg-transparent" : "bg-primary"
+                  )}
+                />
+                <div className="flex-1 overflow-hidden">
+                  <p className={cn("text-sm truncate", !notification.isRead && "font-medium")}>
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {notification.message}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
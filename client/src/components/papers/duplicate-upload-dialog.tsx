@@ -0,0 +1,63 @@
+import { ExternalLink } from "lucide-react";
+import { DuplicateUploadWarning } from "@shared/types";
+import { Badge } from "@/components/ui/badge";
+import { duplicateReasonLabel } from "@/lib/papers";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface DuplicateUploadDialogProps {
+  warning: DuplicateUploadWarning | null;
+  onCancel: () => void;
+  onUploadAnyway: () => void;
+}
+
+// Asks before sharing a paper that looks like one already shared
+export function DuplicateUploadDialog({ warning, onCancel, onUploadAnyway }: DuplicateUploadDialogProps) {
+  return (
+    <AlertDialog open={!!warning} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Already shared?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {warning?.message}. Check whether one of these is the paper you're uploading.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="max-h-64 space-y-2 overflow-y-auto">
+          {warning?.duplicates.map((paper) => (
+            <li key={paper.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="min-w-0">
+                <a
+                  href={`/papers/${paper.id}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-medium hover:underline inline-flex items-center"
+                >
+                  {paper.title}
+                  <ExternalLink className="h-3 w-3 ml-1 flex-shrink-0" />
+                </a>
+                <p className="text-xs text-muted-foreground">
+                  {paper.course} · {paper.year} · {paper.institution} · Uploaded by {paper.uploaderName || "Anonymous"}
+                </p>
+              </div>
+              <Badge variant={paper.reason === "same_file" ? "destructive" : "secondary"} className="flex-shrink-0">
+                {duplicateReasonLabel(paper.reason)}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Cancel Upload</AlertDialogCancel>
+          <AlertDialogAction onClick={onUploadAnyway}>Upload Anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,31 @@
+import { useState } from "react";
+import { FileText } from "lucide-react";
+import { Paper } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { paperThumbnailUrl } from "@/lib/papers";
+
+interface PaperThumbnailProps {
+  paper: Pick<Paper, "id" | "version">;
+  className?: string;
+}
+
+// Thumbnail of a paper's first page, or a file icon when it has none
+export function PaperThumbnail({ paper, className }: PaperThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <div className={cn("h-12 w-10 flex-shrink-0 overflow-hidden rounded border bg-muted flex items-center justify-center", className)}>
+      {failed ? (
+        <FileText className="h-5 w-5 text-primary" />
+      ) : (
+        <img
+          src={paperThumbnailUrl(paper)}
+          alt=""
+          loading="lazy"
+          className="h-full w-full object-cover object-top bg-white"
+          onError={() => setFailed(true)}
+        />
+      )}
+    </div>
+  );
+}
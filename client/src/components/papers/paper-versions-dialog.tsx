@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, History, Loader2, Upload } from "lucide-react";
+import { Paper } from "@shared/schema";
+import { DuplicateUploadWarning, PaperVersionEntry } from "@shared/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { paperVersionDownloadUrl } from "@/lib/papers";
+import { DuplicateUploadDialog } from "./duplicate-upload-dialog";
+
+interface PaperVersionsDialogProps {
+  paper: Pick<Paper, "id" | "title">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Version history of a paper, with a form to upload a replacement file
+export function PaperVersionsDialog({ paper, open, onOpenChange }: PaperVersionsDialogProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [changeNote, setChangeNote] = useState("");
+  // Bumped to clear the file input after an upload
+  const [fileInputKey, setFileInputKey] = useState(0);
+  // Set when the server holds the file back as one already shared as another paper
+  const [duplicateWarning, setDuplicateWarning] = useState<DuplicateUploadWarning | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<PaperVersionEntry[]>({
+    queryKey: [`/api/papers/${paper.id}/versions`],
+    queryFn: async () => {
+      const res = await fetch(`/api/papers/${paper.id}/versions`, { credentials: 'include' });
+      if (!res.ok) throw new Error("Failed to fetch versions");
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (allowDuplicate: boolean) => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      if (changeNote.trim()) formData.append("changeNote", changeNote.trim());
+      if (allowDuplicate) formData.append("allowDuplicate", "true");
+
+      const res = await fetch(`/api/papers/${paper.id}/versions`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (res.status === 409) {
+        return { duplicateWarning: (await res.json()) as DuplicateUploadWarning };
+      }
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to upload new version");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data?.duplicateWarning) {
+        setDuplicateWarning(data.duplicateWarning);
+        return;
+      }
+
+      setFile(null);
+      setChangeNote("");
+      setFileInputKey(key => key + 1);
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paper.id}/versions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/papers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/papers/my-papers"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paper.id}/preview`] });
+      toast({
+        title: "New version uploaded",
+        description: "Downloads now get the new file",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" /> Version History
+          </DialogTitle>
+          <DialogDescription>
+            Every file uploaded for "{paper.title}". Downloads get the latest version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-64">
+            <ul className="space-y-3 pr-3">
+              {versions.map((version, index) => (
+                <li key={version.version} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Version {version.version}</span>
+                      {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')} by {version.uploaderName}
+                    </p>
+                    {version.changeNote && (
+                      <p className="text-sm mt-1 break-words">{version.changeNote}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => window.open(paperVersionDownloadUrl(paper.id, version.version), "_blank")}
+                    title={`Download version ${version.version}`}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <form
+          className="space-y-3 border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (file) uploadMutation.mutate(false);
+          }}
+        >
+          <h4 className="text-sm font-medium">Upload a new version</h4>
+          <div className="space-y-1">
+            <Label htmlFor="version-file">File</Label>
+            <Input
+              key={fileInputKey}
+              id="version-file"
+              type="file"
+              accept=".pdf,.doc,.docx,.ppt,.pptx,.txt,.jpg,.png"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="version-note">What changed?</Label>
+            <Textarea
+              id="version-note"
+              placeholder="e.g. Fixed the answer to question 3"
+              maxLength={500}
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!file || uploadMutation.isPending}>
+              {uploadMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Upload Version
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+
+      <DuplicateUploadDialog
+        warning={duplicateWarning}
+        onCancel={() => setDuplicateWarning(null)}
+        onUploadAnyway={() => {
+          setDuplicateWarning(null);
+          uploadMutation.mutate(true);
+        }}
+      />
+    </Dialog>
+  );
+}
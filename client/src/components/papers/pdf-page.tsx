@@ -0,0 +1,54 @@
+import { useEffect, useRef } from "react";
+import { RenderingCancelledException, type RenderTask } from "pdfjs-dist";
+import { PIXELS_PER_POINT } from "@/lib/papers";
+import type { PDFDocumentProxy } from "@/lib/pdf";
+
+interface PdfPageProps {
+  document: PDFDocumentProxy;
+  // 1-based
+  pageNumber: number;
+  // 1 draws the page at its printed size
+  zoom?: number;
+  // Draws the page this many pixels wide instead of at a zoom
+  width?: number;
+  className?: string;
+  alt?: string;
+}
+
+// One page of a PDF drawn on a canvas, sharp on high-density screens
+export function PdfPage({ document, pageNumber, zoom = 1, width, className, alt }: PdfPageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let task: RenderTask | null = null;
+
+    document.getPage(pageNumber)
+      .then((page) => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        const pageWidth = page.getViewport({ scale: 1 }).width;
+        const cssScale = width ? width / pageWidth : zoom * PIXELS_PER_POINT;
+        const viewport = page.getViewport({ scale: cssScale * window.devicePixelRatio });
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        canvas.style.width = `${Math.round(pageWidth * cssScale)}px`;
+
+        task = page.render({ canvas, viewport });
+        return task.promise;
+      })
+      .catch((error) => {
+        if (!(error instanceof RenderingCancelledException)) {
+          console.error(`Failed to draw page ${pageNumber}:`, error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [document, pageNumber, zoom, width]);
+
+  return <canvas ref={canvasRef} className={className} role="img" aria-label={alt} />;
+}
@@ -0,0 +1,148 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useLocation } from "wouter";
+import { SavedSearch } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Bookmark, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { resourceTypeLabel } from "@/lib/resource-types";
+
+// Results page URL for a saved search, filters included
+function savedSearchUrl(search: SavedSearch) {
+  const params = new URLSearchParams({ q: search.query });
+  if (search.course) params.set("course", search.course);
+  if (search.year) params.set("year", search.year);
+  if (search.institution) params.set("institution", search.institution);
+  if (search.resourceType) params.set("resourceType", search.resourceType);
+  return `/search?${params.toString()}`;
+}
+
+export function SavedSearches() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const { data: searches = [], isLoading } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+    queryFn: async () => {
+      const res = await fetch("/api/saved-searches");
+      if (!res.ok) throw new Error("Failed to fetch saved searches");
+      return res.json();
+    },
+  });
+
+  // Opening a search marks its new matches as seen
+  const openSearchMutation = useMutation({
+    mutationFn: async (search: SavedSearch) => {
+      await fetch(`/api/saved-searches/${search.id}/visit`, {
+        method: "POST",
+        credentials: 'include'
+      });
+    },
+    onSettled: (_, __, search) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      navigate(savedSearchUrl(search));
+    },
+  });
+
+  const deleteSearchMutation = useMutation({
+    mutationFn: async (searchId: number) => {
+      const res = await fetch(`/api/saved-searches/${searchId}`, {
+        method: "DELETE",
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to remove saved search");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove saved search",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Bookmark className="h-5 w-5 mr-2" />
+          Saved Searches
+        </CardTitle>
+        <CardDescription>
+          Searches you saved, with the papers uploaded since you last opened them
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : searches.length === 0 ? (
+          <div className="text-center py-6">
+            <p className="text-gray-500">No saved searches yet.</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Use "Save search" on the search results page to keep an eye on new papers.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {searches.map(search => {
+              const filters = [
+                search.course,
+                search.year,
+                search.institution,
+                search.resourceType && resourceTypeLabel(search.resourceType),
+              ].filter(Boolean);
+
+              return (
+                <div key={search.id} className="flex items-center justify-between gap-4 py-3">
+                  <button
+                    className="flex-1 min-w-0 text-left hover:text-primary transition-colors"
+                    onClick={() => openSearchMutation.mutate(search)}
+                    disabled={openSearchMutation.isPending}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{search.name}</span>
+                      {search.newMatchCount > 0 && (
+                        <Badge>{search.newMatchCount} new</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-muted-foreground">
+                      {search.name !== search.query && <span>"{search.query}"</span>}
+                      {filters.map(filter => (
+                        <Badge key={filter} variant="outline" className="font-normal">{filter}</Badge>
+                      ))}
+                      <span>
+                        · Last opened {formatDistanceToNow(new Date(search.lastVisitedAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    onClick={() => deleteSearchMutation.mutate(search.id)}
+                    disabled={deleteSearchMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove saved search</span>
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,30 +1,38 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { 
+import {
   CommandDialog,
   CommandEmpty,
   CommandGroup,
   CommandInput,
   CommandItem,
-  CommandList
+  CommandList,
+  CommandSeparator
 } from "@/components/ui/command";
-import { Search, FileText, MessageSquare, Users, Calendar } from "lucide-react";
+import { Search, FileText, MessageSquare, Users, GraduationCap, Hash, User, History, X } from "lucide-react";
 import { useLocation } from "wouter";
+import { SearchSuggestionType, SearchSuggestionsResponse } from "@shared/types";
+import { useDebouncedValue } from "@/hooks/use-debounce";
+import { queryClient } from "@/lib/queryClient";
 
-type SearchResult = {
-  id: string | number;
-  title: string;
-  type: 'paper' | 'discussion' | 'group' | 'session';
-  url: string;
-}
+// Wait for a pause in typing before asking the server
+const SUGGESTION_DELAY = 200;
+
+const SUGGESTION_ICONS: Record<SearchSuggestionType, typeof Search> = {
+  paper: FileText,
+  discussion: MessageSquare,
+  group: Users,
+  course: GraduationCap,
+  tag: Hash,
+  user: User,
+};
 
 export function SearchSuggestions() {
   const [open, setOpen] = useState(false);
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<SearchResult[]>([]);
-  const [loading, setLoading] = useState(false);
   const [, navigate] = useLocation();
-  const searchTimeout = useRef<number | null>(null);
+  const debouncedQuery = useDebouncedValue(query.trim(), SUGGESTION_DELAY);
 
   useEffect(() => {
     const down = (e: KeyboardEvent) => {
@@ -38,64 +46,45 @@ export function SearchSuggestions() {
     return () => document.removeEventListener("keydown", down);
   }, []);
 
-  useEffect(() => {
-    if (query.length < 2) {
-      setResults([]);
-      return;
-    }
-
-    // Clear previous timeout
-    if (searchTimeout.current) {
-      window.clearTimeout(searchTimeout.current);
-    }
+  const { data, isFetching } = useQuery<SearchSuggestionsResponse>({
+    queryKey: ["/api/search/suggestions", debouncedQuery],
+    queryFn: async () => {
+      const res = await fetch(`/api/search/suggestions?q=${encodeURIComponent(debouncedQuery)}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to load suggestions");
+      return res.json();
+    },
+    enabled: open,
+    // Recent searches change with every search, so refetch whenever the dialog opens
+    staleTime: 0,
+    // Keep showing the last suggestions while the next ones load
+    placeholderData: keepPreviousData,
+  });
 
-    setLoading(true);
-
-    // Set a new timeout to prevent too many API calls
-    searchTimeout.current = window.setTimeout(async () => {
-      try {
-        const response = await fetch(`/api/search?query=${encodeURIComponent(query)}&limit=5`);
-        if (response.ok) {
-          const data = await response.json();
-          setResults(data);
-        } else {
-          console.error("Search error:", response.statusText);
-          setResults([]);
-        }
-      } catch (error) {
-        console.error("Search error:", error);
-        setResults([]);
-      } finally {
-        setLoading(false);
-      }
-    }, 300);
-
-    return () => {
-      if (searchTimeout.current) {
-        window.clearTimeout(searchTimeout.current);
-      }
-    };
-  }, [query]);
+  const clearHistoryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/search/recent", {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to clear search history");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/search/suggestions"] });
+    },
+  });
 
-  const handleSelect = (result: SearchResult) => {
+  const go = (url: string) => {
     setOpen(false);
-    navigate(result.url);
+    setQuery("");
+    navigate(url);
   };
+  const search = (text: string) => go(`/search?q=${encodeURIComponent(text)}`);
 
-  const getIcon = (type: string) => {
-    switch (type) {
-      case 'paper':
-        return <FileText className="h-4 w-4 mr-2" />;
-      case 'discussion':
-        return <MessageSquare className="h-4 w-4 mr-2" />;
-      case 'group':
-        return <Users className="h-4 w-4 mr-2" />;
-      case 'session':
-        return <Calendar className="h-4 w-4 mr-2" />;
-      default:
-        return <Search className="h-4 w-4 mr-2" />;
-    }
-  };
+  const suggestions = data?.suggestions ?? [];
+  const recent = data?.recent ?? [];
+  const trimmedQuery = query.trim();
 
   return (
     <>
@@ -111,7 +100,8 @@ export function SearchSuggestions() {
           <span className="text-xs">⌘</span>K
         </kbd>
       </Button>
-      <CommandDialog open={open} onOpenChange={setOpen}>
+      {/* Suggestions are matched on the server, typos included, so cmdk mustn't filter them again */}
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
         <CommandInput
           placeholder="Search papers, discussions, groups..."
           value={query}
@@ -119,24 +109,66 @@ export function SearchSuggestions() {
         />
         <CommandList>
           <CommandEmpty>
-            {loading ? "Searching..." : "No results found."}
+            {isFetching ? "Searching..." : "Type to search"}
           </CommandEmpty>
-          {results.length > 0 && (
-            <CommandGroup heading="Results">
-              {results.map((result) => (
+          {trimmedQuery && (
+            <CommandGroup>
+              <CommandItem value="search-query" onSelect={() => search(trimmedQuery)}>
+                <Search className="h-4 w-4 mr-2" />
+                <span>Search for "{trimmedQuery}"</span>
+              </CommandItem>
+            </CommandGroup>
+          )}
+          {recent.length > 0 && (
+            <CommandGroup heading="Recent searches">
+              {recent.map((recentQuery) => (
                 <CommandItem
-                  key={`${result.type}-${result.id}`}
-                  onSelect={() => handleSelect(result)}
+                  key={recentQuery}
+                  value={`recent-${recentQuery}`}
+                  onSelect={() => search(recentQuery)}
                 >
-                  {getIcon(result.type)}
-                  <span>{result.title}</span>
-                  <span className="ml-auto text-xs text-muted-foreground capitalize">
-                    {result.type}
-                  </span>
+                  <History className="h-4 w-4 mr-2" />
+                  <span>{recentQuery}</span>
                 </CommandItem>
               ))}
+              {!trimmedQuery && (
+                <CommandItem
+                  value="clear-recent"
+                  onSelect={() => clearHistoryMutation.mutate()}
+                  className="text-muted-foreground"
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  <span>Clear search history</span>
+                </CommandItem>
+              )}
             </CommandGroup>
           )}
+          {suggestions.length > 0 && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="Suggestions">
+                {suggestions.map((suggestion) => {
+                  const Icon = SUGGESTION_ICONS[suggestion.type];
+                  return (
+                    <CommandItem
+                      key={`${suggestion.type}-${suggestion.url}`}
+                      value={`${suggestion.type}-${suggestion.url}`}
+                      onSelect={() => go(suggestion.url)}
+                    >
+                      <Icon className="h-4 w-4 mr-2" />
+                      <span className="truncate">{suggestion.label}</span>
+                      {suggestion.detail && (
+                        <span className="ml-2 text-xs text-muted-foreground truncate">{suggestion.detail}</span>
+                      )}
+                      <span className="ml-auto pl-2 text-xs text-muted-foreground capitalize">
+                        {suggestion.type}
+                      </span>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            </>
+          )}
         </CommandList>
       </CommandDialog>
     </>
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// The value as it was once it stopped changing for `delay` milliseconds
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
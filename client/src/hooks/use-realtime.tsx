@@ -0,0 +1,308 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode
+} from "react";
+import { QueryClient, QueryKey, useQueryClient } from "@tanstack/react-query";
+import { ChatConversation, ChatMessage, ChatTarget, Friend, NotificationFeed, RealtimeClientEvent, RealtimeEvent } from "@shared/types";
+import { useAuth } from "@/hooks/use-auth";
+
+const RECONNECT_BASE_DELAY = 1000; // 1 second
+const RECONNECT_MAX_DELAY = 30000; // 30 seconds
+const TYPING_NOTIFY_INTERVAL = 3000; // 3 seconds between "still typing" notices
+const TYPING_TIMEOUT = 5000; // 5 seconds without a notice clears the indicator
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+type RealtimeContextType = {
+  isConnected: boolean;
+  send: (event: RealtimeClientEvent) => void;
+  subscribe: (listener: RealtimeListener) => () => void;
+};
+
+const RealtimeContext = createContext<RealtimeContextType>({
+  isConnected: false,
+  send: () => {},
+  subscribe: () => () => {},
+});
+
+// Query keys used by the chat views
+export const groupChatQueryKey = (groupId: number | string): QueryKey => [`/api/groups/${groupId}/chat`];
+export const directMessagesQueryKey = (friendId: number | undefined): QueryKey => ["/api/messages", friendId];
+export const conversationsQueryKey: QueryKey = ["/api/conversations"];
+export const notificationsQueryKey: QueryKey = ["/api/notifications"];
+
+/**
+ * Adds a message to a cached message list, replacing any copy with the same id.
+ * Lists that were never fetched are left alone so they load fresh when opened.
+ */
+export function upsertCachedMessage<T extends { id: number }>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  message: T
+) {
+  queryClient.setQueryData<T[]>(queryKey, (messages) => {
+    if (!messages) return messages;
+    return [...messages.filter((m) => m.id !== message.id), message];
+  });
+}
+
+/**
+ * Moves a conversation to the top with the new message as its preview.
+ * Conversations that are not cached yet are refetched instead.
+ */
+function updateCachedConversation(
+  queryClient: QueryClient,
+  userId: number,
+  partnerId: number,
+  message: ChatMessage
+) {
+  const conversations = queryClient.getQueryData<ChatConversation[]>(conversationsQueryKey);
+  const conversation = conversations?.find((c) => c.id === partnerId);
+
+  if (!conversations || !conversation) {
+    queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
+    return;
+  }
+
+  // Already counted, e.g. the list was refetched after the message arrived
+  if (conversation.lastMessageId !== undefined && message.id <= conversation.lastMessageId) return;
+
+  const updated: ChatConversation = {
+    ...conversation,
+    lastMessageId: message.id,
+    lastMessage: message.content,
+    lastMessageTime: message.createdAt,
+    unreadCount: conversation.unreadCount + (message.receiverId === userId && !message.isRead ? 1 : 0),
+  };
+  queryClient.setQueryData<ChatConversation[]>(conversationsQueryKey, [
+    updated,
+    ...conversations.filter((c) => c.id !== partnerId),
+  ]);
+}
+
+function isSameTarget(a: ChatTarget, b: ChatTarget) {
+  if (a.kind === "group" && b.kind === "group") return a.groupId === b.groupId;
+  if (a.kind === "direct" && b.kind === "direct") return a.userId === b.userId;
+  return false;
+}
+
+function getSocketUrl() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/ws`;
+}
+
+// --- Realtime Provider Component ---
+export const RealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const listenersRef = useRef(new Set<RealtimeListener>());
+  const userId = user?.id;
+
+  const send = useCallback((event: RealtimeClientEvent) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(event));
+    }
+  }, []);
+
+  const subscribe = useCallback((listener: RealtimeListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closedByUs = false;
+
+    const handleEvent = (event: RealtimeEvent) => {
+      switch (event.type) {
+        case "group_message":
+          upsertCachedMessage(queryClient, groupChatQueryKey(event.groupId), event.message);
+          break;
+        case "direct_message": {
+          const { senderId, receiverId } = event.message;
+          const partnerId = senderId === userId ? receiverId : senderId;
+          upsertCachedMessage(queryClient, directMessagesQueryKey(partnerId), event.message);
+          updateCachedConversation(queryClient, userId, partnerId, event.message);
+          break;
+        }
+        case "messages_read": {
+          const partnerId = event.readerId === userId ? event.senderId : event.readerId;
+          queryClient.setQueryData<ChatMessage[]>(directMessagesQueryKey(partnerId), (messages) =>
+            messages?.map((message) =>
+              event.messageIds.includes(message.id) ? { ...message, isRead: true } : message
+            )
+          );
+          if (event.readerId === userId) {
+            queryClient.setQueryData<ChatConversation[]>(conversationsQueryKey, (conversations) =>
+              conversations?.map((conversation) =>
+                conversation.id === partnerId ? { ...conversation, unreadCount: 0 } : conversation
+              )
+            );
+          }
+          break;
+        }
+        case "presence":
+          queryClient.setQueryData<Friend[]>(["/api/friends"], (friends) =>
+            friends?.map((friend) =>
+              friend.friendId === event.userId
+                ? { ...friend, isOnline: event.isOnline, lastActive: event.lastActive }
+                : friend
+            )
+          );
+          break;
+        case "notification":
+          queryClient.setQueryData<NotificationFeed>(notificationsQueryKey, (feed) =>
+            feed && {
+              notifications: [event.notification, ...feed.notifications],
+              unreadCount: feed.unreadCount + 1,
+            }
+          );
+          break;
+      }
+
+      listenersRef.current.forEach((listener) => listener(event));
+    };
+
+    const connect = () => {
+      socket = new WebSocket(getSocketUrl());
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        // Catch up on anything sent while we were disconnected
+        if (attempts > 0) {
+          queryClient.invalidateQueries({
+            predicate: (query) => {
+              const key = String(query.queryKey[0]);
+              return key === "/api/messages" || key === "/api/conversations" ||
+                key === "/api/notifications" || key.endsWith("/chat");
+            },
+          });
+        }
+        attempts = 0;
+        setIsConnected(true);
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data) as RealtimeEvent);
+        } catch (error) {
+          console.error("Invalid realtime event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (closedByUs) return;
+
+        const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempts, RECONNECT_MAX_DELAY);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closedByUs = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      socketRef.current = null;
+    };
+  }, [userId, queryClient]);
+
+  return (
+    <RealtimeContext.Provider value={{ isConnected, send, subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
+
+export function useRealtime() {
+  return useContext(RealtimeContext);
+}
+
+/**
+ * Tracks who else is typing in a conversation and lets the current user
+ * announce their own typing. Pass null while no conversation is open.
+ */
+export function useTypingIndicator(target: ChatTarget | null) {
+  const { send, subscribe } = useRealtime();
+  const [typingUsers, setTypingUsers] = useState<Record<number, string>>({});
+  const lastNotifyRef = useRef(0);
+
+  // Primitive key so callers can pass a fresh object each render
+  const targetKey = target
+    ? target.kind === "group" ? `group:${target.groupId}` : `direct:${target.userId}`
+    : null;
+
+  useEffect(() => {
+    setTypingUsers({});
+    lastNotifyRef.current = 0;
+    if (!target) return;
+
+    const timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+    const removeUser = (userId: number) => {
+      clearTimeout(timers.get(userId));
+      timers.delete(userId);
+      setTypingUsers(({ [userId]: _removed, ...rest }) => rest);
+    };
+
+    const unsubscribe = subscribe((event) => {
+      if (event.type === "typing" && isSameTarget(event.target, target)) {
+        if (!event.isTyping) {
+          removeUser(event.userId);
+          return;
+        }
+        clearTimeout(timers.get(event.userId));
+        timers.set(event.userId, setTimeout(() => removeUser(event.userId), TYPING_TIMEOUT));
+        setTypingUsers((users) => ({ ...users, [event.userId]: event.userName }));
+      }
+
+      // A message from someone means they have stopped typing
+      if (event.type === "group_message" && target.kind === "group" && event.groupId === target.groupId) {
+        removeUser(event.message.userId);
+      }
+      if (event.type === "direct_message" && target.kind === "direct" && event.message.senderId === target.userId) {
+        removeUser(event.message.senderId);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, [targetKey, subscribe]);
+
+  // Call on every keystroke; notices are throttled
+  const notifyTyping = useCallback(() => {
+    if (!target) return;
+    const now = Date.now();
+    if (now - lastNotifyRef.current < TYPING_NOTIFY_INTERVAL) return;
+    lastNotifyRef.current = now;
+    send({ type: "typing", target, isTyping: true });
+  }, [targetKey, send]);
+
+  // Call when the message is sent or the input is cleared
+  const stopTyping = useCallback(() => {
+    if (!target || lastNotifyRef.current === 0) return;
+    lastNotifyRef.current = 0;
+    send({ type: "typing", target, isTyping: false });
+  }, [targetKey, send]);
+
+  return { typingUsers: Object.values(typingUsers), notifyTyping, stopTyping };
+}
@@ -0,0 +1,39 @@
+import { useMutation } from "@tanstack/react-query";
+import { StudyLogEntry } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+export interface LogStudyTimeInput {
+  subject: string;
+  durationMinutes: number;
+  source: "timer" | "manual";
+}
+
+// Goal progress, analytics and user stats are derived from the log, so they refresh with it
+export function invalidateStudyLogQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/study-log"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/study-goals"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/analytics/study"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/user-stats"] });
+}
+
+export function useLogStudyTime() {
+  return useMutation({
+    mutationFn: async (entry: LogStudyTimeInput): Promise<StudyLogEntry> => {
+      const res = await fetch("/api/study-log", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(entry),
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const error = await res.text();
+        throw new Error(error || "Failed to log study time");
+      }
+      return res.json();
+    },
+    onSuccess: invalidateStudyLogQueries,
+  });
+}
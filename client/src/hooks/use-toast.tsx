@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 
 type ToastVariant = "default" | "destructive" | "success";
 
@@ -10,23 +10,31 @@ export interface Toast {
   duration?: number;
 }
 
-interface ToastAction {
-  type: "ADD_TOAST" | "REMOVE_TOAST";
-  toast?: Toast;
-  toastId?: string;
-}
-
 interface ToastState {
   toasts: Toast[];
 }
 
-const initialState: ToastState = {
+// Shared by every useToast() caller, so toasts raised anywhere reach the <Toaster />
+let memoryState: ToastState = {
   toasts: [],
 };
+const listeners = new Set<(state: ToastState) => void>();
+
+function setToastState(update: (prevState: ToastState) => ToastState) {
+  memoryState = update(memoryState);
+  listeners.forEach((listener) => listener(memoryState));
+}
 
 // Simple implementation of toast hook
 export function useToast() {
-  const [state, setState] = useState<ToastState>(initialState);
+  const [state, setState] = useState<ToastState>(memoryState);
+
+  useEffect(() => {
+    listeners.add(setState);
+    return () => {
+      listeners.delete(setState);
+    };
+  }, []);
 
   const toast = useCallback(
     ({ title, description, variant = "default", duration = 5000 }: Omit<Toast, "id">) => {
@@ -39,13 +47,13 @@ export function useToast() {
         duration,
       };
 
-      setState((prevState) => ({
+      setToastState((prevState) => ({
         toasts: [...prevState.toasts, newToast],
       }));
 
       // Automatically remove toast after duration
       setTimeout(() => {
-        setState((prevState) => ({
+        setToastState((prevState) => ({
           toasts: prevState.toasts.filter((t) => t.id !== id),
         }));
       }, duration);
@@ -56,7 +64,7 @@ export function useToast() {
   );
 
   const dismiss = useCallback((toastId: string) => {
-    setState((prevState) => ({
+    setToastState((prevState) => ({
       toasts: prevState.toasts.filter((t) => t.id !== toastId),
     }));
   }, []);
@@ -66,4 +74,4 @@ export function useToast() {
     toast,
     dismiss,
   };
-} 
\ No newline at end of file
+}
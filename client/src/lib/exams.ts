@@ -0,0 +1,22 @@
+import { differenceInCalendarDays, differenceInHours } from "date-fns";
+import type { Exam } from "@shared/schema";
+
+export const upcomingExamsQueryKey = ["/api/exams", "upcoming"];
+
+// e.g. "CHEM101 Final", or just the course when the exam has no title
+export function examLabel(exam: Exam) {
+  return exam.title ? `${exam.course} ${exam.title}` : exam.course;
+}
+
+// "in 3 hours", "Tomorrow", "in 12 days"
+export function formatExamCountdown(examDate: Date | string, now = new Date()) {
+  const date = new Date(examDate);
+  const days = differenceInCalendarDays(date, now);
+
+  if (days <= 0) {
+    const hours = differenceInHours(date, now);
+    return hours <= 0 ? "Now" : `in ${hours} ${hours === 1 ? "hour" : "hours"}`;
+  }
+  if (days === 1) return "Tomorrow";
+  return `in ${days} days`;
+}
@@ -0,0 +1,37 @@
+import type { Paper } from "@shared/schema";
+import type { DuplicateReason } from "@shared/types";
+
+// Page sizes of previews and PDFs are in points; at 100% zoom a point is drawn as it would be printed
+export const PIXELS_PER_POINT = 96 / 72;
+
+// Where a paper's file is downloaded from. The server checks the session
+// and redirects to a short-lived signed link, which streams the file.
+export function paperDownloadUrl(paper: Pick<Paper, "id">) {
+  return `/api/papers/${paper.id}/file`;
+}
+
+// Image of one page (1-based) of a paper's preview. Browsers cache previews,
+// so the URL names the version they show.
+export function paperPreviewUrl(paper: Pick<Paper, "id" | "version">, page: number) {
+  return `/api/papers/${paper.id}/preview/${page}?v=${paper.version}`;
+}
+
+// PNG of the first page of a paper, for lists. It's built in the background
+// after upload, so it can be missing for a moment.
+export function paperThumbnailUrl(paper: Pick<Paper, "id" | "version">) {
+  return `/api/papers/${paper.id}/thumbnail?v=${paper.version}`;
+}
+
+// Where one version of a paper's file is downloaded from; the latest is paperDownloadUrl
+export function paperVersionDownloadUrl(paperId: number, version: number) {
+  return `/api/papers/${paperId}/versions/${version}/file`;
+}
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  same_file: "Same file",
+  similar_title: "Similar title",
+};
+
+export function duplicateReasonLabel(reason: DuplicateReason) {
+  return DUPLICATE_REASON_LABELS[reason];
+}
@@ -0,0 +1,12 @@
+import { getDocument, GlobalWorkerOptions } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+export type { PDFDocumentProxy } from "pdfjs-dist";
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+// Opens a PDF from a link that answers Range requests, so the first pages
+// show while the rest of the file is still loading. Destroy the task when done.
+export function openPdf(url: string) {
+  return getDocument({ url, isEvalSupported: false });
+}
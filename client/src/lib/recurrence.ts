@@ -0,0 +1,25 @@
+import { format } from "date-fns";
+import type { SessionRecurrence } from "@shared/schema";
+
+// Indexed like Date.getDay(), which the recurrence weekdays follow
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Short summary of a recurrence rule, e.g. "Weekly on Mon, Wed · 10 sessions"
+export function describeRecurrence(recurrence: SessionRecurrence): string {
+  const interval = recurrence.interval ?? 1;
+  let pattern: string;
+
+  if (recurrence.frequency === "daily") {
+    pattern = interval === 1 ? "Daily" : `Every ${interval} days`;
+  } else {
+    pattern = interval === 1 ? "Weekly" : `Every ${interval} weeks`;
+    if (recurrence.weekdays?.length) {
+      pattern += ` on ${recurrence.weekdays.map((day) => WEEKDAY_LABELS[day]).join(", ")}`;
+    }
+  }
+
+  if (recurrence.until) {
+    return `${pattern} until ${format(new Date(recurrence.until), "MMM d, yyyy")}`;
+  }
+  return recurrence.count ? `${pattern} · ${recurrence.count} sessions` : pattern;
+}
@@ -0,0 +1,11 @@
+// Display names of the papers' resourceType values
+const RESOURCE_TYPE_LABELS: Record<string, string> = {
+  past_paper: "Past Paper",
+  notes: "Notes",
+  textbook: "Textbook",
+  solution: "Solution",
+};
+
+export function resourceTypeLabel(type: string | null | undefined) {
+  return (type && RESOURCE_TYPE_LABELS[type]) || "Other";
+}
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { User, AdminStats as BaseAdminStats, AdminAction, Paper } from '@shared/schema';
+import { DuplicateCluster } from '@shared/types';
 import { useAuth } from '@/hooks/use-auth';
+import { duplicateReasonLabel } from '@/lib/papers';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -49,6 +51,9 @@ export default function AdminDashboard() {
   const [error, setError] = useState<string | null>(null);
   const [discussions, setDiscussions] = useState<any[]>([]);
   const [papers, setPapers] = useState<Paper[]>([]);
+  const [duplicateClusters, setDuplicateClusters] = useState<DuplicateCluster[]>([]);
+  // Paper to keep in each duplicate cluster, by the cluster's first paper id
+  const [keptPaperIds, setKeptPaperIds] = useState<Record<number, number>>({});
   const { user } = useAuth();
   const [, navigate] = useLocation();
 
@@ -65,24 +70,26 @@ export default function AdminDashboard() {
 
     const fetchData = async () => {
       try {
-        const [usersRes, statsRes, actionsRes, discussionsRes, papersRes] = await Promise.all([
+        const [usersRes, statsRes, actionsRes, discussionsRes, papersRes, duplicatesRes] = await Promise.all([
           fetch('/api/admin/users'),
           fetch('/api/admin/stats'),
           fetch('/api/admin/actions'),
           fetch('/api/admin/discussions'),
           fetch('/api/papers'),
+          fetch('/api/admin/papers/duplicates'),
         ]);
 
-        if (!usersRes.ok || !statsRes.ok || !actionsRes.ok || !discussionsRes.ok || !papersRes.ok) {
+        if (!usersRes.ok || !statsRes.ok || !actionsRes.ok || !discussionsRes.ok || !papersRes.ok || !duplicatesRes.ok) {
           throw new Error('Failed to fetch admin data');
         }
 
-        const [usersData, statsData, actionsData, discussionsData, papersData] = await Promise.all([
+        const [usersData, statsData, actionsData, discussionsData, papersData, duplicatesData] = await Promise.all([
           usersRes.json(),
           statsRes.json(),
           actionsRes.json(),
           discussionsRes.json(),
           papersRes.json(),
+          duplicatesRes.json(),
         ]);
 
         setUsers(usersData);
@@ -90,6 +97,7 @@ export default function AdminDashboard() {
         setActions(actionsData);
         setDiscussions(discussionsData);
         setPapers(papersData);
+        setDuplicateClusters(duplicatesData);
       } catch (error: unknown) {
         setError(error instanceof Error ? error.message : 'An error occurred');
       } finally {
@@ -157,6 +165,34 @@ export default function AdminDashboard() {
     }
   };
 
+  // Keeps the chosen paper of a cluster and merges the rest into it
+  const handleMergeDuplicates = async (cluster: DuplicateCluster) => {
+    const targetId = keptPaperIds[cluster.papers[0].id] ?? cluster.papers[0].id;
+    const duplicateIds = cluster.papers.map(paper => paper.id).filter(id => id !== targetId);
+
+    try {
+      const res = await fetch('/api/admin/papers/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetId, duplicateIds })
+      });
+
+      if (!res.ok) throw new Error('Failed to merge papers');
+
+      const merged: Paper = await res.json();
+      setPapers(papers
+        .filter(paper => !duplicateIds.includes(paper.id))
+        .map(paper => paper.id === merged.id ? merged : paper));
+      setDuplicateClusters(duplicateClusters.filter(c => c !== cluster));
+
+      const [statsRes, actionsRes] = await Promise.all([fetch('/api/admin/stats'), fetch('/api/admin/actions')]);
+      if (statsRes.ok) setStats(await statsRes.json());
+      if (actionsRes.ok) setActions(await actionsRes.json());
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -219,6 +255,12 @@ export default function AdminDashboard() {
             >
               Recent Actions
             </button>
+            <button
+              className={`px-4 py-2 ${activeTab === 3 ? 'border-b-2 border-blue-500' : ''}`}
+              onClick={() => setActiveTab(3)}
+            >
+              Duplicate Papers ({duplicateClusters.length})
+            </button>
           </nav>
         </div>
 
@@ -368,6 +410,78 @@ export default function AdminDashboard() {
             ))}
           </div>
         </TabPanel>
+
+        {/* Duplicate Papers Tab */}
+        <TabPanel value={activeTab} index={3}>
+          {duplicateClusters.length > 0 ? (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                Choose the paper to keep in each group. Merging deletes the others and adds their downloads to it.
+              </p>
+              {duplicateClusters.map(cluster => {
+                const clusterId = cluster.papers[0].id;
+                const keptId = keptPaperIds[clusterId] ?? clusterId;
+
+                return (
+                  <div key={clusterId} className="border rounded p-4">
+                    <div className="flex justify-between items-center mb-2">
+                      <div className="flex gap-2">
+                        {cluster.reasons.map(reason => (
+                          <span key={reason} className="text-xs bg-gray-100 px-2 py-1 rounded">
+                            {duplicateReasonLabel(reason)}
+                          </span>
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => handleMergeDuplicates(cluster)}
+                        className="bg-blue-500 text-white px-3 py-1 rounded"
+                      >
+                        Merge
+                      </button>
+                    </div>
+                    <table className="min-w-full">
+                      <thead>
+                        <tr>
+                          <th className="px-4 py-2">Keep</th>
+                          <th className="px-4 py-2">Title</th>
+                          <th className="px-4 py-2">Course</th>
+                          <th className="px-4 py-2">Uploaded By</th>
+                          <th className="px-4 py-2">Uploaded On</th>
+                          <th className="px-4 py-2">Downloads</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {cluster.papers.map(paper => (
+                          <tr key={paper.id}>
+                            <td className="px-4 py-2 text-center">
+                              <input
+                                type="radio"
+                                name={`keep-${clusterId}`}
+                                checked={paper.id === keptId}
+                                onChange={() => setKeptPaperIds({ ...keptPaperIds, [clusterId]: paper.id })}
+                              />
+                            </td>
+                            <td className="px-4 py-2">
+                              <a href={`/papers/${paper.id}`} target="_blank" rel="noreferrer" className="hover:underline">
+                                {paper.title}
+                              </a>
+                            </td>
+                            <td className="px-4 py-2">{paper.course} · {paper.year} · {paper.institution}</td>
+                            <td className="px-4 py-2">{paper.uploaderName}</td>
+                            <td className="px-4 py-2">{new Date(paper.uploadDate).toLocaleDateString()}</td>
+                            <td className="px-4 py-2">{paper.downloads ?? 0}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-center text-gray-600">No duplicate papers found.</p>
+          )}
+        </TabPanel>
       </div>
     </div>
   );
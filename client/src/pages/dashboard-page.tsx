@@ -2,6 +2,8 @@ import { useState } from "react";
 import { AppShell } from "@/components/layout/app-shell";
 import { StudyProgressTracker } from "@/components/dashboard/study-progress";
 import { StudyTimer } from "@/components/dashboard/study-timer";
+import { StudyAnalytics } from "@/components/dashboard/study-analytics";
+import { ExamCountdown } from "@/components/dashboard/exam-countdown";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
@@ -12,17 +14,41 @@ import {
   BookOpen, 
   Users, 
   MessageSquare,
-  FileText 
+  FileText,
+  Loader2
 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
+import { UpcomingEvent, UpcomingEventsPage } from "@shared/types";
 
-interface EventItem {
-  id: number;
-  title: string;
-  date: string;
-  type: 'session' | 'group' | 'reminder';
+const EVENTS_PAGE_SIZE = 10;
+
+function eventTitle(event: UpcomingEvent) {
+  switch (event.type) {
+    case "session":
+      return event.session.title;
+    case "friend_session":
+      return `${event.session.title} · ${event.groupName}`;
+    case "new_group":
+      return `New group: ${event.group.name}`;
+  }
+}
+
+function eventDetail(event: UpcomingEvent) {
+  switch (event.type) {
+    case "session":
+      return event.groupName;
+    case "friend_session":
+      return `${event.friends.map((friend) => friend.name).join(", ")} ${event.friends.length === 1 ? "is" : "are"} going`;
+    case "new_group":
+      return `Created by ${event.creatorName}${event.group.course ? ` for ${event.group.course}` : ""}`;
+  }
+}
+
+function eventGroupId(event: UpcomingEvent) {
+  return event.type === "new_group" ? event.group.id : event.session.groupId;
 }
 
 export default function DashboardPage() {
@@ -69,40 +95,23 @@ export default function DashboardPage() {
   });
   
   // Fetch upcoming events
-  const { data: events } = useQuery({
+  const {
+    data: eventPages,
+    isLoading: loadingEvents,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<UpcomingEventsPage>({
     queryKey: ["/api/upcoming-events"],
-    queryFn: async () => {
-      try {
-        const res = await fetch(`/api/upcoming-events?userId=${user?.id}`);
-        if (!res.ok) return [];
-        return await res.json();
-      } catch (error) {
-        console.error("Error fetching upcoming events:", error);
-        return [];
-      }
+    queryFn: async ({ pageParam }) => {
+      const res = await fetch(`/api/upcoming-events?offset=${pageParam}&limit=${EVENTS_PAGE_SIZE}`);
+      if (!res.ok) throw new Error("Failed to fetch upcoming events");
+      return res.json();
     },
-    // Fallback data
-    placeholderData: [
-      {
-        id: 1,
-        title: "Group Study Session: Advanced Calculus",
-        date: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000).toISOString(),
-        type: "session" as const
-      },
-      {
-        id: 2,
-        title: "Physics Exam Preparation",
-        date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
-        type: "group" as const
-      },
-      {
-        id: 3,
-        title: "Computer Science Project Deadline",
-        date: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(),
-        type: "reminder" as const
-      }
-    ]
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
   });
+  const events = eventPages?.pages.flatMap((page) => page.events) ?? [];
   
   return (
     <AppShell>
@@ -124,8 +133,9 @@ export default function DashboardPage() {
         
         {/* Dashboard Tabs */}
         <Tabs defaultValue="overview" value={activeTab} onValueChange={setActiveTab} className="mb-8">
-          <TabsList className="grid grid-cols-3 mb-6">
+          <TabsList className="grid grid-cols-4 mb-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="progress">Progress</TabsTrigger>
             <TabsTrigger value="tools">Study Tools</TabsTrigger>
           </TabsList>
@@ -195,6 +205,8 @@ export default function DashboardPage() {
               </Card>
             </div>
             
+            <ExamCountdown />
+            
             {/* Upcoming Events */}
             <Card>
               <CardHeader className="pb-3">
@@ -202,26 +214,35 @@ export default function DashboardPage() {
                   <Calendar className="h-5 w-5 mr-2" />
                   Upcoming Events
                 </CardTitle>
-                <CardDescription>Your scheduled study sessions and deadlines</CardDescription>
+                <CardDescription>Your study sessions, sessions your friends are joining and new groups in your department</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {events && events.length > 0 ? (
-                    events.map((event: EventItem) => (
-                      <div key={event.id} className="flex justify-between items-center border-b pb-3 last:border-0 last:pb-0">
+                  {loadingEvents ? (
+                    <div className="flex justify-center p-4">
+                      <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : events.length > 0 ? (
+                    events.map((event) => (
+                      <div
+                        key={event.id}
+                        className="flex justify-between items-center border-b pb-3 last:border-0 last:pb-0 cursor-pointer"
+                        onClick={() => navigate(`/groups/${eventGroupId(event)}`)}
+                      >
                         <div className="flex items-start space-x-3">
                           <div className={`p-2 rounded-full ${
                             event.type === 'session' ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300' :
-                            event.type === 'group' ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300' :
+                            event.type === 'new_group' ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300' :
                             'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300'
                           }`}>
                             {event.type === 'session' ? <Clock className="h-4 w-4" /> :
-                             event.type === 'group' ? <Users className="h-4 w-4" /> :
-                             <BookOpen className="h-4 w-4" />}
+                             event.type === 'new_group' ? <BookOpen className="h-4 w-4" /> :
+                             <Users className="h-4 w-4" />}
                           </div>
                           <div>
-                            <p className="font-medium">{event.title}</p>
+                            <p className="font-medium">{eventTitle(event)}</p>
                             <p className="text-sm text-muted-foreground">
+                              {event.type === 'new_group' ? 'Created ' : ''}
                               {new Date(event.date).toLocaleDateString(undefined, { 
                                 weekday: 'short', 
                                 month: 'short', 
@@ -229,6 +250,7 @@ export default function DashboardPage() {
                                 hour: '2-digit',
                                 minute: '2-digit'
                               })}
+                              {' · '}{eventDetail(event)}
                             </p>
                           </div>
                         </div>
@@ -239,11 +261,28 @@ export default function DashboardPage() {
                       <p>No upcoming events</p>
                     </div>
                   )}
+                  {hasNextPage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Show more
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
           </TabsContent>
           
+          {/* Analytics Tab */}
+          <TabsContent value="analytics" className="space-y-6">
+            <StudyAnalytics />
+          </TabsContent>
+          
           {/* Progress Tab */}
           <TabsContent value="progress" className="space-y-6">
             <StudyProgressTracker />
@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { AppShell } from "@/components/layout/app-shell";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,7 +11,8 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { queryClient } from "@/lib/queryClient";
-import { Friend, FriendRequest } from "@shared/types";
+import { conversationsQueryKey, directMessagesQueryKey, upsertCachedMessage, useTypingIndicator } from "@/hooks/use-realtime";
+import { ChatConversation, ChatMessage as ChatMessageType, Friend, FriendRequest } from "@shared/types";
 import { 
   UserPlus, 
   Users, 
@@ -51,6 +53,13 @@ export default function FriendsPage() {
     enabled: !!user,
   });
   
+  // The friends list receives live presence updates, so read status from there
+  const selectedFriendStatus = friends.find(f => f.friendId === selectedFriend?.friendId) ?? selectedFriend;
+  
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(
+    selectedFriend ? { kind: "direct", userId: selectedFriend.friendId } : null
+  );
+  
   // Fetch friend requests
   const { data: friendRequests = [], isLoading: isRequestsLoading } = useQuery<FriendRequest[]>({
     queryKey: ["/api/friend-requests"],
@@ -75,9 +84,9 @@ export default function FriendsPage() {
     enabled: !!user,
   });
   
-  // Fetch messages for selected friend
+  // Fetch messages for selected friend; new messages arrive through the realtime connection
   const { data: messages = [], isLoading: isMessagesLoading } = useQuery<any[]>({
-    queryKey: ["/api/messages", selectedFriend?.userId],
+    queryKey: directMessagesQueryKey(selectedFriend?.friendId),
     queryFn: async () => {
       if (!user || !selectedFriend) return [];
       const res = await fetch(`/api/messages?userId=${user.id}&friendId=${selectedFriend.friendId}`);
@@ -87,6 +96,17 @@ export default function FriendsPage() {
     enabled: !!user && !!selectedFriend,
   });
   
+  // Fetch conversations for last-message previews and unread badges
+  const { data: conversations = [] } = useQuery<ChatConversation[]>({
+    queryKey: conversationsQueryKey,
+    queryFn: async () => {
+      const res = await fetch("/api/conversations");
+      if (!res.ok) throw new Error("Failed to fetch conversations");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+  
   // Search users mutation
   const searchUsersMutation = useMutation({
     mutationFn: async (query: string) => {
@@ -209,6 +229,32 @@ export default function FriendsPage() {
     },
   });
   
+  // Mark conversation as read mutation
+  const markAsReadMutation = useMutation({
+    mutationFn: async (friendId: number) => {
+      const res = await fetch(`/api/conversations/${friendId}/read`, {
+        method: "POST",
+      });
+      if (!res.ok) throw new Error("Failed to mark messages as read");
+      return res.json();
+    },
+    onSuccess: (_result, friendId) => {
+      queryClient.setQueryData<ChatConversation[]>(conversationsQueryKey, (conversations) =>
+        conversations?.map(c => c.id === friendId ? { ...c, unreadCount: 0 } : c)
+      );
+    },
+  });
+  
+  // Mark incoming messages as read while their conversation is open
+  const hasUnreadMessages = !!selectedFriend &&
+    messages.some(m => m.senderId === selectedFriend.friendId && !m.isRead);
+  
+  useEffect(() => {
+    if (hasUnreadMessages && selectedFriend && !markAsReadMutation.isPending) {
+      markAsReadMutation.mutate(selectedFriend.friendId);
+    }
+  }, [hasUnreadMessages, selectedFriend?.friendId]);
+  
   // Send message mutation
   const sendMessageMutation = useMutation({
     mutationFn: async ({ receiverId, content }: { receiverId: number; content: string }) => {
@@ -226,10 +272,9 @@ export default function FriendsPage() {
       if (!res.ok) throw new Error("Failed to send message");
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (message: ChatMessageType) => {
       setMessageText("");
-      // Refresh messages
-      queryClient.invalidateQueries({ queryKey: ["/api/messages", selectedFriend?.userId] });
+      upsertCachedMessage(queryClient, directMessagesQueryKey(message.receiverId), message);
     },
     onError: (error: Error) => {
       toast({
@@ -244,6 +289,7 @@ export default function FriendsPage() {
   const handleSendMessage = () => {
     if (!messageText.trim() || !selectedFriend || !user) return;
     
+    stopTyping();
     sendMessageMutation.mutate({
       receiverId: selectedFriend.friendId,
       content: messageText,
@@ -256,12 +302,32 @@ export default function FriendsPage() {
     searchUsersMutation.mutate(searchQuery);
   };
   
-  // Filter friends by search
-  const filteredFriends = searchQuery
+  // People picked in the search bar arrive as ?q=, shown under Discover
+  const initialQuery = new URLSearchParams(useSearch()).get("q");
+  useEffect(() => {
+    if (!initialQuery) return;
+    setSearchQuery(initialQuery);
+    setActiveTab("discover");
+    searchUsersMutation.mutate(initialQuery);
+  }, [initialQuery]);
+  
+  const conversationsByFriend = new Map(conversations.map(c => [c.id, c]));
+  const totalUnreadCount = conversations.reduce((total, c) => total + c.unreadCount, 0);
+  
+  // Read receipt is shown under the latest message the user sent
+  const lastSentMessageId = messages.filter(m => m.senderId === user?.id).pop()?.id;
+  
+  // Filter friends by search, most recent conversations first
+  const filteredFriends = (searchQuery
     ? friends.filter(friend => 
         friend.friendName.toLowerCase().includes(searchQuery.toLowerCase())
       )
-    : friends;
+    : friends
+  ).slice().sort((a, b) => {
+    const aTime = conversationsByFriend.get(a.friendId)?.lastMessageTime;
+    const bTime = conversationsByFriend.get(b.friendId)?.lastMessageTime;
+    return (bTime ? new Date(bTime).getTime() : 0) - (aTime ? new Date(aTime).getTime() : 0);
+  });
     
   // Count pending requests
   const pendingRequestsCount = friendRequests.filter(r => r.status === 'pending').length;
@@ -322,7 +388,9 @@ export default function FriendsPage() {
                   <TabsList className="grid grid-cols-3 w-full">
                     <TabsTrigger value="friends" className="relative">
                       Friends
-                      {friends.length > 0 && (
+                      {totalUnreadCount > 0 ? (
+                        <Badge variant="destructive" className="ml-1">{totalUnreadCount}</Badge>
+                      ) : friends.length > 0 && (
                         <Badge className="ml-1">{friends.length}</Badge>
                       )}
                     </TabsTrigger>
@@ -360,7 +428,9 @@ export default function FriendsPage() {
                       </div>
                     ) : (
                       <div className="space-y-1">
-                        {filteredFriends.map((friend) => (
+                        {filteredFriends.map((friend) => {
+                          const conversation = conversationsByFriend.get(friend.friendId);
+                          return (
                           <div 
                             key={friend.friendId}
                             className={`flex items-center gap-3 p-2 rounded-md cursor-pointer hover:bg-muted transition-colors ${
@@ -370,7 +440,7 @@ export default function FriendsPage() {
                           >
                             <div className="relative">
                               <Avatar>
-                                <AvatarImage src={friend.friendAvatar} />
+                                <AvatarImage src={friend.friendAvatar ?? undefined} />
                                 <AvatarFallback>
                                   {friend.friendName.slice(0, 2).toUpperCase()}
                                 </AvatarFallback>
@@ -388,9 +458,24 @@ export default function FriendsPage() {
                                     : ''}
                                 </p>
                               </div>
+                              {conversation && (
+                                <div className="flex justify-between items-center gap-2">
+                                  <p className={`text-sm truncate ${
+                                    conversation.unreadCount > 0 ? 'font-medium' : 'text-muted-foreground'
+                                  }`}>
+                                    {conversation.lastMessage}
+                                  </p>
+                                  {conversation.unreadCount > 0 && (
+                                    <Badge variant="destructive" className="h-5 px-1.5">
+                                      {conversation.unreadCount}
+                                    </Badge>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           </div>
-                        ))}
+                          );
+                        })}
                       </div>
                     )}
                   </TabsContent>
@@ -524,7 +609,7 @@ export default function FriendsPage() {
                     <div className="flex justify-between items-center">
                       <div className="flex items-center gap-3">
                         <Avatar>
-                          <AvatarImage src={selectedFriend.friendAvatar} />
+                          <AvatarImage src={selectedFriend.friendAvatar ?? undefined} />
                           <AvatarFallback>
                             {selectedFriend.friendName.slice(0, 2).toUpperCase()}
                           </AvatarFallback>
@@ -532,11 +617,13 @@ export default function FriendsPage() {
                         <div>
                           <CardTitle className="text-lg">{selectedFriend.friendName}</CardTitle>
                           <CardDescription>
-                            {selectedFriend.isOnline 
-                              ? <span className="text-green-500">Online</span>
-                              : selectedFriend.lastActive 
-                                ? `Last seen ${formatDistanceToNow(new Date(selectedFriend.lastActive), { addSuffix: true })}` 
-                                : ''}
+                            {typingUsers.length > 0
+                              ? <span className="italic">typing...</span>
+                              : selectedFriendStatus?.isOnline 
+                                ? <span className="text-green-500">Online</span>
+                                : selectedFriendStatus?.lastActive 
+                                  ? `Last seen ${formatDistanceToNow(new Date(selectedFriendStatus.lastActive), { addSuffix: true })}` 
+                                  : ''}
                           </CardDescription>
                         </div>
                       </div>
@@ -572,11 +659,17 @@ export default function FriendsPage() {
                             message={message}
                             currentUserId={user?.id || 0}
                             showTime={index === 0 || messages[index - 1].senderId !== message.senderId}
+                            showReadStatus={message.id === lastSentMessageId}
                             formatTime={formatMessageTime}
                           />
                         ))}
                       </div>
                     )}
+                    {typingUsers.length > 0 && (
+                      <p className="text-xs text-muted-foreground italic py-2">
+                        {selectedFriend.friendName} is typing...
+                      </p>
+                    )}
                   </CardContent>
                   
                   <CardFooter className="pt-4 border-t">
@@ -584,7 +677,14 @@ export default function FriendsPage() {
                       <Input
                         placeholder="Type a message..."
                         value={messageText}
-                        onChange={e => setMessageText(e.target.value)}
+                        onChange={e => {
+                          setMessageText(e.target.value);
+                          if (e.target.value.trim()) {
+                            notifyTyping();
+                          } else {
+                            stopTyping();
+                          }
+                        }}
                         onKeyDown={e => e.key === 'Enter' && handleSendMessage()}
                       />
                       <Button 
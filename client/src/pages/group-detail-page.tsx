@@ -1,19 +1,25 @@
 import { useState, useEffect, useRef } from "react";
 import { useRoute, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { StudyGroup, StudySession } from "@shared/schema";
+import { StudyGroup, type SessionAttendance as Attendance } from "@shared/schema";
+import { ExtendedGroupChatMessage, GroupMember, SessionOccurrence } from "@shared/types";
 import { AppShell } from "@/components/layout/app-shell";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { Users, Calendar, ArrowLeft, Clock, MapPin, Video, MessageSquare, SendHorizontal, Loader2 } from "lucide-react";
+import { Users, Calendar, ArrowLeft, Clock, MapPin, Video, MessageSquare, SendHorizontal, Loader2, Repeat } from "lucide-react";
 import { CreateSessionDialog } from "@/components/groups/create-session-dialog";
+import { SessionActionsMenu } from "@/components/groups/session-actions-menu";
+import { SessionAttendance, attendanceKey, groupAttendanceQueryKey } from "@/components/groups/session-attendance";
+import { GroupPomodoro } from "@/components/groups/group-pomodoro";
+import { describeRecurrence } from "@/lib/recurrence";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { groupChatQueryKey, upsertCachedMessage, useTypingIndicator } from "@/hooks/use-realtime";
 
 export default function GroupDetailPage() {
   const { user } = useAuth();
@@ -38,7 +44,7 @@ export default function GroupDetailPage() {
   });
 
   // Fetch group sessions
-  const { data: sessions = [], isLoading: loadingSessions } = useQuery<StudySession[]>({
+  const { data: sessions = [], isLoading: loadingSessions } = useQuery<SessionOccurrence[]>({
     queryKey: [`/api/groups/${groupId}/sessions`],
     queryFn: async () => {
       if (!groupId) return [];
@@ -50,7 +56,7 @@ export default function GroupDetailPage() {
   });
 
   // Fetch group members
-  const { data: members = [], isLoading: loadingMembers } = useQuery<any[]>({
+  const { data: members = [], isLoading: loadingMembers } = useQuery<GroupMember[]>({
     queryKey: [`/api/groups/${groupId}/members`],
     queryFn: async () => {
       if (!groupId) return [];
@@ -61,9 +67,34 @@ export default function GroupDetailPage() {
     enabled: !!groupId,
   });
 
+  const isMember = members.some((member) => member.userId === user?.id);
+
+  // RSVPs and check-ins are only visible to members
+  const { data: attendance = [] } = useQuery<Attendance[]>({
+    queryKey: groupAttendanceQueryKey(groupId ?? ''),
+    queryFn: async () => {
+      const res = await fetch(`/api/groups/${groupId}/attendance`);
+      if (!res.ok) throw new Error("Failed to fetch session attendance");
+      return res.json();
+    },
+    enabled: !!groupId && isMember,
+  });
+
+  const attendanceByOccurrence = new Map<string, Attendance[]>();
+  attendance.forEach((record) => {
+    const key = attendanceKey(record.sessionId, record.occurrenceStart);
+    attendanceByOccurrence.set(key, [...(attendanceByOccurrence.get(key) || []), record]);
+  });
+
+  // The organizer and group admins can edit or cancel a session
+  const isGroupAdmin = members.some((member) => member.userId === user?.id && member.isAdmin);
+  const canManageSession = (session: SessionOccurrence) =>
+    session.createdBy === user?.id || isGroupAdmin;
+
   // Fetch group chat messages
-  const { data: chat = [], isLoading: loadingChat } = useQuery({
-    queryKey: [`/api/groups/${groupId}/chat`],
+  // New messages are pushed into this cache by the realtime connection
+  const { data: chat = [], isLoading: loadingChat } = useQuery<ExtendedGroupChatMessage[]>({
+    queryKey: groupChatQueryKey(groupId ?? ''),
     queryFn: async () => {
       if (!groupId) return [];
       const res = await fetch(`/api/groups/${groupId}/chat`);
@@ -79,9 +110,9 @@ export default function GroupDetailPage() {
       const res = await apiRequest('POST', `/api/groups/${groupId}/chat`, { message });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (message: ExtendedGroupChatMessage) => {
       setMessageText('');
-      queryClient.invalidateQueries({ queryKey: [`/api/groups/${groupId}/chat`] });
+      upsertCachedMessage(queryClient, groupChatQueryKey(message.groupId), message);
     },
     onError: (error: Error) => {
       toast({
@@ -92,11 +123,16 @@ export default function GroupDetailPage() {
     }
   });
 
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(
+    groupId && activeTab === 'chat' ? { kind: 'group', groupId } : null
+  );
+
   // Handle sending a message
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (!messageText.trim()) return;
     
+    stopTyping();
     sendMessageMutation.mutate(messageText);
   };
 
@@ -221,6 +257,12 @@ export default function GroupDetailPage() {
                       )}
                     </CardContent>
                   </Card>
+
+                  {isMember && (
+                    <div className="mt-6">
+                      <GroupPomodoro groupId={group.id} />
+                    </div>
+                  )}
                 </div>
                 
                 <div className="space-y-6">
@@ -242,7 +284,7 @@ export default function GroupDetailPage() {
                             const day = startDate.getDate();
                             
                             return (
-                              <div key={session.id} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
+                              <div key={`${session.id}-${session.occurrenceStart}`} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
                                 <div className="bg-primary-100 rounded-md h-12 w-12 flex flex-col items-center justify-center flex-shrink-0">
                                   <span className="text-xs font-medium text-primary-800">{month}</span>
                                   <span className="text-lg font-bold text-primary-800">{day}</span>
@@ -344,13 +386,18 @@ export default function GroupDetailPage() {
                   ) : sessions.length > 0 ? (
                     <div className="space-y-6">
                       {sessions.map((session) => (
-                        <div key={session.id} className="border border-gray-200 rounded-lg p-4">
+                        <div key={`${session.id}-${session.occurrenceStart}`} className="border border-gray-200 rounded-lg p-4">
                           <div className="flex flex-col md:flex-row md:items-center justify-between mb-3">
                             <h3 className="font-semibold text-lg text-gray-900">{session.title}</h3>
                             <div className="flex items-center mt-2 md:mt-0">
                               <div className="text-sm text-gray-500">
                                 {format(new Date(session.startTime), "MMM d, yyyy")}
                               </div>
+                              {canManageSession(session) && (
+                                <div className="ml-2">
+                                  <SessionActionsMenu session={session} />
+                                </div>
+                              )}
                             </div>
                           </div>
                           
@@ -376,6 +423,13 @@ export default function GroupDetailPage() {
                                 </>
                               )}
                             </div>
+                            
+                            {session.recurrence && (
+                              <div className="flex items-center">
+                                <Repeat className="mr-2 h-4 w-4" />
+                                <span>{describeRecurrence(session.recurrence)}</span>
+                              </div>
+                            )}
                           </div>
                           
                           {session.description && (
@@ -391,6 +445,14 @@ export default function GroupDetailPage() {
                               Join Virtual Meeting
                             </Button>
                           )}
+
+                          {isMember && (
+                            <SessionAttendance
+                              session={session}
+                              attendance={attendanceByOccurrence.get(attendanceKey(session.id, session.occurrenceStart)) || []}
+                              members={members}
+                            />
+                          )}
                         </div>
                       ))}
                     </div>
@@ -501,11 +563,28 @@ export default function GroupDetailPage() {
                     )}
                   </div>
 
+                  {typingUsers.length > 0 && (
+                    <p className="text-xs text-muted-foreground italic mb-2">
+                      {typingUsers.length === 1
+                        ? `${typingUsers[0]} is typing...`
+                        : typingUsers.length === 2
+                          ? `${typingUsers[0]} and ${typingUsers[1]} are typing...`
+                          : 'Several people are typing...'}
+                    </p>
+                  )}
+
                   <form onSubmit={handleSendMessage} className="flex gap-2">
                     <Input
                       placeholder="Type your message..."
                       value={messageText}
-                      onChange={(e) => setMessageText(e.target.value)}
+                      onChange={(e) => {
+                        setMessageText(e.target.value);
+                        if (e.target.value.trim()) {
+                          notifyTyping();
+                        } else {
+                          stopTyping();
+                        }
+                      }}
                       disabled={sendMessageMutation.isPending}
                       className="flex-1"
                     />
@@ -4,6 +4,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { StudyGroup, StudySession, insertStudyGroupSchema, insertStudySessionSchema } from "@shared/schema";
+import { SessionOccurrence } from "@shared/types";
 import { AppShell } from "@/components/layout/app-shell";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
 import { Button } from "@/components/ui/button";
@@ -135,7 +136,7 @@ export default function GroupsPage() {
   });
 
   // Fetch upcoming sessions
-  const { data: upcomingSessions = [], isLoading: loadingSessions } = useQuery<StudySession[]>({
+  const { data: upcomingSessions = [], isLoading: loadingSessions } = useQuery<SessionOccurrence[]>({
     queryKey: ["/api/sessions/upcoming"],
     queryFn: async () => {
       if (!user) return [];
@@ -214,7 +215,7 @@ export default function GroupsPage() {
         
         console.log("Formatted values:", formattedValues);
         
-        const res = await fetch(`/api/sessions`, {
+        const res = await fetch(`/api/groups/${values.groupId}/sessions`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -886,7 +887,7 @@ export default function GroupsPage() {
                       const day = startDate.getDate();
                       
                       return (
-                        <div key={session.id} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
+                        <div key={`${session.id}-${session.occurrenceStart}`} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
                           <div className="bg-primary-100 rounded-md h-12 w-12 flex flex-col items-center justify-center flex-shrink-0">
                             <span className="text-xs font-medium text-primary-800">{month}</span>
                             <span className="text-lg font-bold text-primary-800">{day}</span>
@@ -13,11 +13,13 @@ import {
   Download,
   ChevronRight
 } from "lucide-react";
-import { Activity, DiscussionPost, Paper, StudySession } from "@shared/schema";
+import { Activity, DiscussionPost, Paper } from "@shared/schema";
+import { SessionOccurrence } from "@shared/types";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { paperDownloadUrl } from "@/lib/papers";
 
 export default function HomePage() {
   const { user } = useAuth();
@@ -47,7 +49,7 @@ export default function HomePage() {
   });
   
   // Fetch upcoming study sessions
-  const { data: sessions, isLoading: loadingSessions } = useQuery<StudySession[]>({
+  const { data: sessions, isLoading: loadingSessions } = useQuery<SessionOccurrence[]>({
     queryKey: ["/api/sessions/upcoming"],
     queryFn: async () => {
       const res = await fetch('/api/sessions/upcoming');
@@ -260,12 +262,7 @@ export default function HomePage() {
                       <Button
                         variant="ghost"
                         size="icon"
-                        onClick={() => {
-                          // Download logic
-                          window.open(paper.fileUrl, "_blank");
-                          // Increment download count
-                          fetch(`/api/papers/${paper.id}/download`, { method: 'POST' });
-                        }}
+                        onClick={() => window.open(paperDownloadUrl(paper), "_blank")}
                       >
                         <Download className="h-5 w-5 text-gray-500 hover:text-primary" />
                       </Button>
@@ -315,7 +312,7 @@ export default function HomePage() {
                     const day = format(sessionDate, 'd');
                     
                     return (
-                      <div key={session.id} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
+                      <div key={`${session.id}-${session.occurrenceStart}`} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
                         <div className="bg-primary-100 rounded-md h-12 w-12 flex flex-col items-center justify-center flex-shrink-0">
                           <span className="text-xs font-medium text-primary-800">{month}</span>
                           <span className="text-lg font-bold text-primary-800">{day}</span>
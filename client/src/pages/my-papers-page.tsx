@@ -21,7 +21,8 @@ import {
   Search,
   Trash2,
   Edit,
-  ExternalLink
+  ExternalLink,
+  History
 } from "lucide-react";
 import {
   Dialog,
@@ -35,6 +36,8 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { paperDownloadUrl } from "@/lib/papers";
+import { PaperVersionsDialog } from "@/components/papers/paper-versions-dialog";
 import { Input } from "@/components/ui/input";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
@@ -56,6 +59,7 @@ export default function MyPapersPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [paperToDelete, setPaperToDelete] = useState<ExtendedPaper | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
+  const [versionsPaper, setVersionsPaper] = useState<ExtendedPaper | null>(null);
 
   // Fetch only the current user's papers
   const { data: myPapers = [], isLoading } = useQuery<ExtendedPaper[]>({
@@ -83,7 +87,7 @@ export default function MyPapersPage() {
     try {
       // Create a link element and click it to trigger the download
       const a = document.createElement("a");
-      a.href = paper.fileUrl;
+      a.href = paperDownloadUrl(paper);
       a.download = paper.title || "paper";
       document.body.appendChild(a);
       a.click();
@@ -223,6 +227,9 @@ export default function MyPapersPage() {
                               <span className="truncate max-w-[200px]" title={paper.title || ""}>
                                 {paper.title || "Untitled Resource"}
                               </span>
+                              {paper.version > 1 && (
+                                <Badge variant="secondary" className="ml-2">v{paper.version}</Badge>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>
@@ -256,6 +263,14 @@ export default function MyPapersPage() {
                               >
                                 <Download className="h-4 w-4" />
                               </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setVersionsPaper(paper)}
+                                title="Versions"
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -314,6 +329,14 @@ export default function MyPapersPage() {
             </CardContent>
           </Card>
         </div>
+
+        {versionsPaper && (
+          <PaperVersionsDialog
+            paper={versionsPaper}
+            open={!!versionsPaper}
+            onOpenChange={(open) => !open && setVersionsPaper(null)}
+          />
+        )}
       </div>
     </AppShell>
   );
@@ -0,0 +1,319 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation, useSearch } from "wouter";
+import { format } from "date-fns";
+import { AppShell } from "@/components/layout/app-shell";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileText,
+  Loader2,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { ExtendedPaper, PaperPreview } from "@shared/types";
+import { PdfPage } from "@/components/papers/pdf-page";
+import { cn } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { PIXELS_PER_POINT, paperDownloadUrl, paperPreviewUrl } from "@/lib/papers";
+import { openPdf, type PDFDocumentProxy } from "@/lib/pdf";
+import { resourceTypeLabel } from "@/lib/resource-types";
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+// Width of the page thumbnails in the sidebar, in pixels
+const SIDEBAR_PAGE_WIDTH = 110;
+
+export default function PaperViewerPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  // Search results link to the page that matched
+  const initialPage = parseInt(new URLSearchParams(useSearch()).get("page") ?? "") || 1;
+  const [page, setPage] = useState(initialPage);
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_LEVELS.indexOf(1));
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  const { data: paper, isLoading: isLoadingPaper } = useQuery<ExtendedPaper | null>({
+    queryKey: [`/api/papers/${id}`],
+    queryFn: async () => {
+      const res = await fetch(`/api/papers/${id}`, { credentials: 'include' });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch paper");
+      return res.json();
+    },
+  });
+
+  // Built on the server in the background after upload; checked again until it's ready
+  const { data: preview, isLoading: isLoadingPreview } = useQuery<PaperPreview>({
+    queryKey: [`/api/papers/${id}/preview`],
+    queryFn: async () => {
+      const res = await fetch(`/api/papers/${id}/preview`, { credentials: 'include' });
+      if (!res.ok) throw new Error("Failed to load preview");
+      return res.json();
+    },
+    enabled: !!paper,
+    staleTime: Infinity,
+    refetchInterval: (query) => (query.state.data?.kind === "pending" ? 2000 : false),
+  });
+
+  // PDFs are drawn here from the file itself, fetched in ranges through a signed download link
+  const { data: downloadLink, isError: isDownloadLinkError } = useQuery<{ url: string }>({
+    queryKey: [`/api/papers/${id}/download`],
+    queryFn: async () => (await apiRequest("POST", `/api/papers/${id}/download`)).json(),
+    enabled: preview?.kind === "pdf",
+    staleTime: Infinity,
+  });
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pdfFailed, setPdfFailed] = useState(false);
+
+  useEffect(() => {
+    if (!downloadLink) return;
+    setPdfFailed(false);
+    const task = openPdf(downloadLink.url);
+    task.promise.then(setPdf, (error) => {
+      console.error("Failed to open PDF:", error);
+      setPdfFailed(true);
+    });
+    return () => {
+      setPdf(null);
+      task.destroy();
+    };
+  }, [downloadLink]);
+
+  const pageCount = preview?.kind === "pages" ? preview.pages.length : pdf ? pdf.numPages : 1;
+  const currentPage = Math.min(Math.max(page, 1), pageCount);
+  const pageSize = preview?.kind === "pages" ? preview.pages[currentPage - 1] : undefined;
+
+  // Arrow keys turn pages, unless the user is typing somewhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === "ArrowLeft") setPage(p => Math.max(1, Math.min(p, pageCount) - 1));
+      if (e.key === "ArrowRight") setPage(p => Math.min(pageCount, p + 1));
+    };
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [pageCount]);
+
+  if (isLoadingPaper) {
+    return (
+      <AppShell>
+        <div className="container py-6">
+          <div className="flex justify-center py-20">
+            <div className="flex flex-col items-center">
+              <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+              <p className="text-muted-foreground">Loading paper...</p>
+            </div>
+          </div>
+        </div>
+      </AppShell>
+    );
+  }
+
+  if (!paper) {
+    return (
+      <AppShell>
+        <div className="container py-6">
+          <div className="flex justify-center py-20">
+            <div className="flex flex-col items-center">
+              <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+              <h2 className="text-xl font-bold mb-2">Paper not found</h2>
+              <p className="text-muted-foreground mb-6">
+                The paper you're looking for doesn't exist or has been removed.
+              </p>
+              <Button onClick={() => navigate("/resources")}>
+                Back to Resources
+              </Button>
+            </div>
+          </div>
+        </div>
+      </AppShell>
+    );
+  }
+
+  const downloadButton = (
+    <Button onClick={() => window.open(paperDownloadUrl(paper), "_blank")}>
+      <Download className="h-4 w-4 mr-2" />
+      Download
+    </Button>
+  );
+
+  return (
+    <AppShell>
+      <div className="container py-6">
+        <div className="flex items-center text-sm text-muted-foreground mb-6">
+          <Button
+            variant="ghost"
+            className="px-0 hover:bg-transparent hover:text-primary"
+            onClick={() => navigate("/resources")}
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Resources
+          </Button>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+              <div>
+                <CardTitle className="text-2xl font-bold">{paper.title}</CardTitle>
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <Badge variant="outline">{resourceTypeLabel(paper.resourceType)}</Badge>
+                  <Badge variant="outline">{paper.course}</Badge>
+                  {paper.version > 1 && <Badge variant="secondary">Version {paper.version}</Badge>}
+                  <span className="text-sm text-muted-foreground">
+                    {paper.year} · {paper.institution} · Uploaded by {paper.uploaderName || "Anonymous"} on{" "}
+                    {format(new Date(paper.uploadDate), 'MMM d, yyyy')}
+                  </span>
+                </div>
+                {paper.description && (
+                  <CardDescription className="mt-3">{paper.description}</CardDescription>
+                )}
+              </div>
+              {downloadButton}
+            </div>
+          </CardHeader>
+        </Card>
+
+        {preview?.kind === "none" || pdfFailed || isDownloadLinkError ? (
+          <Card>
+            <CardContent className="flex flex-col items-center py-12 text-center">
+              <FileText className="h-12 w-12 text-gray-300 mb-4" />
+              <h3 className="text-lg font-medium mb-1">No preview available</h3>
+              <p className="text-muted-foreground mb-4 max-w-md">
+                This file can't be shown in the browser. Download it to open it on your device.
+              </p>
+              {downloadButton}
+            </CardContent>
+          </Card>
+        ) : isLoadingPreview || !preview || preview.kind === "pending" || (preview.kind === "pdf" && !pdf) ? (
+          <div className="flex justify-center py-20">
+            <div className="flex flex-col items-center">
+              <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+              <p className="text-muted-foreground">Preparing preview...</p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-4">
+            {(preview.kind === "pages" || preview.kind === "pdf") && pageCount > 1 && (
+              <ScrollArea className="hidden md:block h-[75vh] w-36 flex-shrink-0 rounded-md border">
+                <div className="flex flex-col gap-3 p-3">
+                  {Array.from({ length: pageCount }, (_, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setPage(index + 1)}
+                      className={cn(
+                        "rounded border-2 transition-colors",
+                        index + 1 === currentPage ? "border-primary" : "border-transparent hover:border-muted-foreground/40"
+                      )}
+                    >
+                      {pdf ? (
+                        <PdfPage
+                          document={pdf}
+                          pageNumber={index + 1}
+                          width={SIDEBAR_PAGE_WIDTH}
+                          alt={`Page ${index + 1}`}
+                          className="block w-full bg-white"
+                        />
+                      ) : (
+                        <img
+                          src={paperPreviewUrl(paper, index + 1)}
+                          alt={`Page ${index + 1}`}
+                          loading="lazy"
+                          className="w-full bg-white"
+                        />
+                      )}
+                      <span className="block text-xs text-muted-foreground py-1">{index + 1}</span>
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+
+            <Card className="flex-1 min-w-0">
+              <div className="flex items-center justify-between border-b p-2">
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPage(currentPage - 1)}
+                    disabled={currentPage <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    <span className="sr-only">Previous page</span>
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {currentPage} of {pageCount}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPage(currentPage + 1)}
+                    disabled={currentPage >= pageCount}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                    <span className="sr-only">Next page</span>
+                  </Button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setZoomIndex(zoomIndex - 1)}
+                    disabled={zoomIndex === 0}
+                  >
+                    <ZoomOut className="h-4 w-4" />
+                    <span className="sr-only">Zoom out</span>
+                  </Button>
+                  <span className="w-12 text-center text-sm text-muted-foreground">{Math.round(zoom * 100)}%</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setZoomIndex(zoomIndex + 1)}
+                    disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+                  >
+                    <ZoomIn className="h-4 w-4" />
+                    <span className="sr-only">Zoom in</span>
+                  </Button>
+                </div>
+              </div>
+              <div className="h-[70vh] overflow-auto bg-muted p-4">
+                {pdf ? (
+                  <PdfPage
+                    document={pdf}
+                    pageNumber={currentPage}
+                    zoom={zoom}
+                    alt={`Page ${currentPage} of ${paper.title}`}
+                    className="block mx-auto max-w-none bg-white shadow-md"
+                  />
+                ) : (
+                  <img
+                    key={currentPage}
+                    src={paperPreviewUrl(paper, currentPage)}
+                    alt={`Page ${currentPage} of ${paper.title}`}
+                    className="mx-auto max-w-none bg-white shadow-md"
+                    style={pageSize
+                      ? { width: pageSize.width * PIXELS_PER_POINT * zoom }
+                      : { width: `${zoom * 100}%` }}
+                  />
+                )}
+              </div>
+              {preview.kind === "pages" && (
+                <p className="border-t px-4 py-2 text-xs text-muted-foreground">
+                  The preview shows the text of each page. Download the paper for images, diagrams and the original layout.
+                </p>
+              )}
+            </Card>
+          </div>
+        )}
+      </div>
+    </AppShell>
+  );
+}
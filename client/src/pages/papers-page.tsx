@@ -50,10 +50,14 @@ import {
   FileUp,
   Plus,
   Loader2,
+  Eye,
 } from "lucide-react";
+import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { paperDownloadUrl } from "@/lib/papers";
+import { PaperThumbnail } from "@/components/papers/paper-thumbnail";
 
 const filterSchema = z.object({
   course: z.string().optional(),
@@ -66,6 +70,7 @@ type FilterValues = z.infer<typeof filterSchema>;
 export default function PapersPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [, navigate] = useLocation();
   const [isUploading, setIsUploading] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [filters, setFilters] = useState<FilterValues>({});
@@ -192,24 +197,9 @@ export default function PapersPage() {
     }
   };
 
-  // Handle paper download
-  const handleDownload = async (paper: Paper) => {
-    try {
-      // Increment download count
-      await apiRequest("POST", `/api/papers/${paper.id}/download`);
-      
-      // Open file in new tab
-      window.open(paper.fileUrl, "_blank");
-      
-      // Invalidate the papers query to refresh download count
-      queryClient.invalidateQueries({ queryKey: ["/api/papers"] });
-    } catch (error) {
-      toast({
-        title: "Download failed",
-        description: "Failed to download the paper",
-        variant: "destructive",
-      });
-    }
+  // Handle paper download. The server counts it once the file starts streaming.
+  const handleDownload = (paper: Paper) => {
+    window.open(paperDownloadUrl(paper), "_blank");
   };
 
   // Apply filters
@@ -521,11 +511,14 @@ export default function PapersPage() {
                       <TableRow key={paper.id}>
                         <TableCell>
                           <div className="flex items-start space-x-3">
-                            <div className="h-10 w-10 bg-primary-50 rounded-md flex items-center justify-center">
-                              <FileText className="h-5 w-5 text-primary" />
-                            </div>
+                            <PaperThumbnail paper={paper} />
                             <div>
-                              <div className="font-medium">{paper.title}</div>
+                              <button
+                                className="font-medium text-left hover:text-primary transition-colors"
+                                onClick={() => navigate(`/papers/${paper.id}`)}
+                              >
+                                {paper.title}
+                              </button>
                               {paper.description && (
                                 <div className="text-sm text-gray-500 line-clamp-1">
                                   {paper.description}
@@ -538,7 +531,15 @@ export default function PapersPage() {
                         <TableCell>{paper.year}</TableCell>
                         <TableCell>{paper.institution}</TableCell>
                         <TableCell>{paper.downloads}</TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => navigate(`/papers/${paper.id}`)}
+                          >
+                            <Eye className="h-4 w-4 mr-1" />
+                            View
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Loader2, User, Lock, Mail, Pencil } from "lucide-react";
+import { SavedSearches } from "@/components/search/saved-searches";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -164,6 +165,7 @@ export default function ProfilePage() {
               <TabsList>
                 <TabsTrigger value="profile">Profile Information</TabsTrigger>
                 <TabsTrigger value="activity">Activity History</TabsTrigger>
+                <TabsTrigger value="saved-searches">Saved Searches</TabsTrigger>
               </TabsList>
               
               <TabsContent value="profile" className="space-y-4">
@@ -350,6 +352,10 @@ export default function ProfilePage() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="saved-searches" className="space-y-4">
+                <SavedSearches />
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -4,7 +4,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Paper, insertPaperSchema } from "@shared/schema";
-import { ExtendedPaper } from "@shared/types";
+import { DuplicateUploadWarning, ExtendedPaper } from "@shared/types";
 import { AppShell } from "@/components/layout/app-shell";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
 import { Button } from "@/components/ui/button";
@@ -55,11 +55,16 @@ import {
   BookOpen,
   FileQuestion,
   ListFilter,
-  FilePlus
+  FilePlus,
+  Eye
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { resourceTypeLabel } from "@/lib/resource-types";
+import { paperDownloadUrl } from "@/lib/papers";
+import { PaperThumbnail } from "@/components/papers/paper-thumbnail";
+import { DuplicateUploadDialog } from "@/components/papers/duplicate-upload-dialog";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { useLocation } from "wouter";
@@ -69,6 +74,7 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
+import { UpcomingExamPapers } from "@/components/exams/upcoming-exam-papers";
 
 const filterSchema = z.object({
   course: z.string().optional(),
@@ -84,6 +90,12 @@ const extendedPaperSchema = insertPaperSchema.extend({
   resourceType: z.string().default("past_paper"),
 });
 
+// What an upload sends; the server sets the file's key, the uploader and the hash itself
+type UploadValues = Pick<
+  z.infer<typeof extendedPaperSchema>,
+  "title" | "description" | "course" | "year" | "institution" | "resourceType"
+> & { file: File; allowDuplicate?: boolean };
+
 export default function ResourcesPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -93,11 +105,12 @@ export default function ResourcesPage() {
   const [filters, setFilters] = useState<FilterValues>({});
   const [searchQuery, setSearchQuery] = useState("");
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [activeTab, setActiveTab] = useState("all");
-
-  // Check URL for create param to open dialog automatically
+  // An upload held back because it looks like papers already shared
+  const [duplicateUpload, setDuplicateUpload] = useState<{ warning: DuplicateUploadWarning; values: UploadValues } | null>(null);
+  // Check URL for create param to open dialog automatically, and tab to preselect a tab
   const urlParams = new URLSearchParams(window.location.search);
   const shouldOpenDialog = urlParams.get('create') === 'true';
+  const [activeTab, setActiveTab] = useState(urlParams.get('tab') || "all");
   
   // Open dialog if create=true in URL
   useEffect(() => {
@@ -148,17 +161,12 @@ export default function ResourcesPage() {
 
   // Upload resource mutation
   const uploadMutation = useMutation({
-    mutationFn: async (values: z.infer<typeof extendedPaperSchema> & { file: File }) => {
+    mutationFn: async (values: UploadValues) => {
       try {
         console.log("Starting upload mutation with values:", values);
         
         const formData = new FormData();
         
-        // Ensure uploaderId is always set to current user
-        if (!values.uploaderId && user) {
-          values.uploaderId = user.id;
-        }
-        
         // Append all form values to formData
         Object.entries(values).forEach(([key, value]) => {
           if (value !== undefined && value !== null && key !== 'file') {
@@ -176,6 +184,11 @@ export default function ResourcesPage() {
           body: formData,
         });
         
+        if (response.status === 409) {
+          // Likely a duplicate; the uploader decides whether to go ahead
+          return { duplicateWarning: (await response.json()) as DuplicateUploadWarning };
+        }
+
         if (!response.ok) {
           const error = await response.text();
           console.error("Upload response not OK:", error);
@@ -193,7 +206,12 @@ export default function ResourcesPage() {
         throw error;
       }
     },
-    onSuccess: () => {
+    onSuccess: (data, values) => {
+      if (data?.duplicateWarning) {
+        setDuplicateUpload({ warning: data.duplicateWarning, values });
+        return;
+      }
+
       setIsDialogOpen(false);
       setUploadedFile(null);
       uploadForm.reset();
@@ -262,7 +280,7 @@ export default function ResourcesPage() {
     try {
       // Create a link element and click it to trigger the download
       const a = document.createElement("a");
-      a.href = paper.fileUrl;
+      a.href = paperDownloadUrl(paper);
       a.download = paper.title || "resource";
       document.body.appendChild(a);
       a.click();
@@ -306,17 +324,6 @@ export default function ResourcesPage() {
           resource.resourceType !== "notes")
       );
 
-  // Get resource type label
-  const getResourceTypeLabel = (type: string | undefined) => {
-    switch(type) {
-      case "past_paper": return "Past Paper";
-      case "notes": return "Notes";
-      case "textbook": return "Textbook";
-      case "solution": return "Solution";
-      default: return "Other";
-    }
-  };
-
   // Create a ref for the form element
   const formRef = useRef<HTMLFormElement>(null);
 
@@ -347,18 +354,13 @@ export default function ResourcesPage() {
     console.log("Manual submission with values:", formValues);
     
     // Set all optional fields to empty string if undefined
-    const cleanedValues = {
-      ...formValues,
+    uploadMutation.mutate({
+      title: formValues.title,
       description: formValues.description || "",
       course: formValues.course || "",
       year: formValues.year || new Date().getFullYear().toString(),
       institution: formValues.institution || "",
-      // Ensure user ID is set
-      uploaderId: formValues.uploaderId || user?.id
-    };
-    
-    uploadMutation.mutate({
-      ...cleanedValues,
+      resourceType: formValues.resourceType,
       file: uploadedFile,
     });
   };
@@ -581,6 +583,8 @@ export default function ResourcesPage() {
                 </div>
               </div>
 
+              <UpcomingExamPapers onDownload={handleDownload} />
+
               <Card className="mb-6">
                 <CardContent className="p-4">
                   <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab}>
@@ -839,23 +843,26 @@ export default function ResourcesPage() {
                         <TableHead>Course</TableHead>
                         <TableHead>Uploaded By</TableHead>
                         <TableHead>Date</TableHead>
-                        <TableHead className="text-right">Download</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {tabFilteredResources.map((resource) => (
                         <TableRow key={resource.id}>
                           <TableCell className="font-medium">
-                            <div className="flex items-center">
-                              <FileText className="h-4 w-4 mr-2 flex-shrink-0" />
+                            <button
+                              className="flex items-center gap-3 text-left hover:text-primary transition-colors"
+                              onClick={() => navigate(`/papers/${resource.id}`)}
+                            >
+                              <PaperThumbnail paper={resource} />
                               <span className="truncate max-w-[200px]" title={resource.title || ""}>
                                 {resource.title || "Untitled Resource"}
                               </span>
-                            </div>
+                            </button>
                           </TableCell>
                           <TableCell>
                             <Badge variant="outline">
-                              {getResourceTypeLabel(resource.resourceType)}
+                              {resourceTypeLabel(resource.resourceType)}
                             </Badge>
                           </TableCell>
                           <TableCell>
@@ -875,7 +882,15 @@ export default function ResourcesPage() {
                               <span className="text-muted-foreground text-sm">-</span>
                             )}
                           </TableCell>
-                          <TableCell className="text-right">
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => navigate(`/papers/${resource.id}`)}
+                            >
+                              <Eye className="h-4 w-4 mr-2" />
+                              View
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -896,6 +911,15 @@ export default function ResourcesPage() {
           </Card>
         </div>
       </div>
+
+      <DuplicateUploadDialog
+        warning={duplicateUpload?.warning ?? null}
+        onCancel={() => setDuplicateUpload(null)}
+        onUploadAnyway={() => {
+          if (duplicateUpload) uploadMutation.mutate({ ...duplicateUpload.values, allowDuplicate: true });
+          setDuplicateUpload(null);
+        }}
+      />
     </AppShell>
   );
 }
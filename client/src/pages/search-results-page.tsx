@@ -1,58 +1,151 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { Paper, Resource, DiscussionPost } from "@shared/schema";
+import { useSearch } from "wouter";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { HighlightedText, SearchFacetCount, SearchResponse, SearchResult, SearchResultType } from "@shared/types";
 import { SearchBar } from "@/components/ui/search-bar";
 import { AppShell } from "@/components/layout/app-shell";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, FileText, MessageSquare, Calendar, User, Download, ThumbsUp } from "lucide-react";
+import { FileText, MessageSquare, Calendar, Users, Building, X, Loader2, Bookmark } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatDistanceToNow } from 'date-fns';
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { resourceTypeLabel } from "@/lib/resource-types";
+
+const PAGE_SIZE = 10;
+
+type Filters = {
+  type?: SearchResultType;
+  course?: string;
+  year?: string;
+  institution?: string;
+  resourceType?: string;
+};
+
+const TYPE_TABS: { value: SearchResultType; label: string }[] = [
+  { value: 'paper', label: 'Papers' },
+  { value: 'discussion', label: 'Discussions' },
+  { value: 'group', label: 'Groups' },
+  { value: 'session', label: 'Sessions' },
+];
+
+const TYPE_ICONS: Record<SearchResultType, typeof FileText> = {
+  paper: FileText,
+  discussion: MessageSquare,
+  group: Users,
+  session: Calendar,
+};
+
+// Filters given in the URL next to the query, e.g. by a saved search
+function filtersFromParams(searchParams: URLSearchParams): Filters {
+  const type = searchParams.get('type');
+  return {
+    type: TYPE_TABS.some(tab => tab.value === type) ? type as SearchResultType : undefined,
+    course: searchParams.get('course') || undefined,
+    year: searchParams.get('year') || undefined,
+    institution: searchParams.get('institution') || undefined,
+    resourceType: searchParams.get('resourceType') || undefined,
+  };
+}
 
 export default function SearchResultsPage() {
+  const { toast } = useToast();
   // Parse query parameter
-  const [location] = useLocation();
-  const queryParams = new URLSearchParams(location.split('?')[1] || '');
-  const searchQuery = queryParams.get('q') || '';
-  const [activeTab, setActiveTab] = useState<'all' | 'papers' | 'resources' | 'discussions'>('all');
+  const search = useSearch();
+  const searchParams = new URLSearchParams(search);
+  const searchQuery = searchParams.get('q') || '';
+  const [filters, setFilters] = useState<Filters>(() => filtersFromParams(searchParams));
 
-  // Search queries for different content types
-  const { data: papers, isLoading: papersLoading } = useQuery<Paper[]>({
-    queryKey: ['/api/search/papers', searchQuery],
-    queryFn: async () => {
-      if (!searchQuery) return [];
-      return fetch(`/api/search/papers?q=${encodeURIComponent(searchQuery)}`).then(res => res.json());
-    },
-    enabled: !!searchQuery
-  });
+  // A new search starts with only the filters it came with
+  useEffect(() => {
+    setFilters(filtersFromParams(new URLSearchParams(search)));
+  }, [search]);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/search', searchQuery, filters],
+    queryFn: async ({ pageParam }): Promise<SearchResponse> => {
+      const params = new URLSearchParams({
+        query: searchQuery,
+        offset: String(pageParam),
+        limit: String(PAGE_SIZE),
+      });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+      });
 
-  const { data: resources, isLoading: resourcesLoading } = useQuery<Resource[]>({
-    queryKey: ['/api/search/resources', searchQuery],
-    queryFn: async () => {
-      if (!searchQuery) return [];
-      return fetch(`/api/search/resources?q=${encodeURIComponent(searchQuery)}`).then(res => res.json());
+      const res = await fetch(`/api/search?${params.toString()}`);
+      if (!res.ok) throw new Error("Search failed");
+      return res.json();
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((count, page) => count + page.results.length, 0);
+      return loaded < lastPage.total ? loaded : undefined;
     },
     enabled: !!searchQuery
   });
 
-  const { data: discussions, isLoading: discussionsLoading } = useQuery<DiscussionPost[]>({
-    queryKey: ['/api/search/discussions', searchQuery],
-    queryFn: async () => {
-      if (!searchQuery) return [];
-      return fetch(`/api/search/discussions?q=${encodeURIComponent(searchQuery)}`).then(res => res.json());
+  const results = data?.pages.flatMap(page => page.results) ?? [];
+  const firstPage = data?.pages[0];
+  const totalResults = firstPage?.total ?? 0;
+  const facets = firstPage?.facets;
+  const typeCount = (type: SearchResultType) => facets?.type.find(facet => facet.value === type)?.count ?? 0;
+  const allTypesCount = facets?.type.reduce((sum, facet) => sum + facet.count, 0) ?? 0;
+
+  const toggleFilter = (facet: Exclude<keyof Filters, 'type'>, value: string) => {
+    setFilters(current => ({ ...current, [facet]: current[facet] === value ? undefined : value }));
+  };
+
+  // The type tab isn't saved; saved searches count new papers
+  const saveSearchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          query: searchQuery,
+          course: filters.course ?? null,
+          year: filters.year ?? null,
+          institution: filters.institution ?? null,
+          resourceType: filters.resourceType ?? null,
+        }),
+        credentials: 'include'
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || "Failed to save search");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Search saved",
+        description: "New papers matching it will be counted on your profile",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save search",
+        description: error.message,
+        variant: "destructive",
+      });
     },
-    enabled: !!searchQuery
   });
 
-  const isLoading = papersLoading || resourcesLoading || discussionsLoading;
-  
-  // Calculate total results
-  const totalResults = (papers?.length || 0) + (resources?.length || 0) + (discussions?.length || 0);
-
   return (
     <AppShell>
       <div className="container mx-auto px-4 py-6">
@@ -66,353 +159,238 @@ export default function SearchResultsPage() {
             className="mb-2"
           />
           <h1 className="text-2xl font-bold mb-4">Search Results</h1>
-          
+
           {/* Search bar */}
           <div className="mb-6">
             <SearchBar defaultValue={searchQuery} fullWidth={true} />
           </div>
-          
+
           {searchQuery && (
-            <p className="text-gray-500 mb-4">
-              {isLoading 
-                ? "Searching..." 
-                : `Found ${totalResults} results for "${searchQuery}"`
-              }
-            </p>
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <p className="text-gray-500">
+                {isLoading
+                  ? "Searching..."
+                  : `Found ${totalResults} results for "${searchQuery}"`
+                }
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => saveSearchMutation.mutate()}
+                disabled={saveSearchMutation.isPending}
+              >
+                {saveSearchMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Bookmark className="h-4 w-4 mr-2" />
+                )}
+                Save search
+              </Button>
+            </div>
           )}
-          
-          {/* Results tabs */}
-          <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)} className="mt-6">
-            <TabsList className="grid w-full grid-cols-4 mb-6">
+
+          {/* Results tabs, one per content type */}
+          <Tabs
+            value={filters.type ?? 'all'}
+            onValueChange={(v) => setFilters(current => ({ ...current, type: v === 'all' ? undefined : v as SearchResultType }))}
+            className="mt-6"
+          >
+            <TabsList className="grid w-full grid-cols-5 mb-6">
               <TabsTrigger value="all">
                 All Results
-                {!isLoading && totalResults > 0 && (
-                  <Badge variant="secondary" className="ml-2">{totalResults}</Badge>
-                )}
-              </TabsTrigger>
-              <TabsTrigger value="papers">
-                Papers
-                {!isLoading && papers && papers.length > 0 && (
-                  <Badge variant="secondary" className="ml-2">{papers.length}</Badge>
-                )}
-              </TabsTrigger>
-              <TabsTrigger value="resources">
-                Resources
-                {!isLoading && resources && resources.length > 0 && (
-                  <Badge variant="secondary" className="ml-2">{resources.length}</Badge>
-                )}
-              </TabsTrigger>
-              <TabsTrigger value="discussions">
-                Discussions
-                {!isLoading && discussions && discussions.length > 0 && (
-                  <Badge variant="secondary" className="ml-2">{discussions.length}</Badge>
+                {allTypesCount > 0 && (
+                  <Badge variant="secondary" className="ml-2">{allTypesCount}</Badge>
                 )}
               </TabsTrigger>
+              {TYPE_TABS.map(tab => (
+                <TabsTrigger key={tab.value} value={tab.value}>
+                  {tab.label}
+                  {typeCount(tab.value) > 0 && (
+                    <Badge variant="secondary" className="ml-2">{typeCount(tab.value)}</Badge>
+                  )}
+                </TabsTrigger>
+              ))}
             </TabsList>
-            
-            {/* All results tab */}
-            <TabsContent value="all" className="space-y-6">
+          </Tabs>
+
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Facets */}
+            <div className="space-y-4">
+              <FacetList
+                title="Course"
+                facets={facets?.course ?? []}
+                selected={filters.course}
+                onSelect={(value) => toggleFilter('course', value)}
+              />
+              <FacetList
+                title="Year"
+                facets={facets?.year ?? []}
+                selected={filters.year}
+                onSelect={(value) => toggleFilter('year', value)}
+              />
+              <FacetList
+                title="Institution"
+                facets={facets?.institution ?? []}
+                selected={filters.institution}
+                onSelect={(value) => toggleFilter('institution', value)}
+              />
+              <FacetList
+                title="Resource type"
+                facets={facets?.resourceType ?? []}
+                selected={filters.resourceType}
+                onSelect={(value) => toggleFilter('resourceType', value)}
+                formatValue={resourceTypeLabel}
+              />
+            </div>
+
+            {/* Results */}
+            <div className="lg:col-span-3 space-y-4">
               {isLoading ? (
-                <div className="space-y-4">
-                  {Array(3).fill(0).map((_, i) => (
-                    <Card key={i}>
-                      <CardHeader className="pb-2">
-                        <Skeleton className="h-6 w-2/3" />
-                      </CardHeader>
-                      <CardContent>
-                        <Skeleton className="h-4 w-full mb-2" />
-                        <Skeleton className="h-4 w-3/4" />
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              ) : totalResults === 0 ? (
+                Array(3).fill(0).map((_, i) => (
+                  <Card key={i}>
+                    <CardHeader className="pb-2">
+                      <Skeleton className="h-6 w-2/3" />
+                    </CardHeader>
+                    <CardContent>
+                      <Skeleton className="h-4 w-full mb-2" />
+                      <Skeleton className="h-4 w-3/4" />
+                    </CardContent>
+                  </Card>
+                ))
+              ) : results.length === 0 ? (
                 <div className="text-center py-8">
                   <p className="text-muted-foreground">No results found for "{searchQuery}"</p>
-                  <p className="text-sm mt-2">Try using different keywords or check your spelling</p>
+                  <p className="text-sm mt-2">Try using different keywords or removing filters</p>
                 </div>
               ) : (
                 <>
-                  {papers && papers.length > 0 && (
-                    <div>
-                      <h2 className="text-xl font-semibold mb-3 flex items-center">
-                        <FileText className="mr-2 h-5 w-5" />
-                        Papers
-                      </h2>
-                      <div className="space-y-4">
-                        {papers.slice(0, 3).map(paper => (
-                          <PaperResultCard key={paper.id} paper={paper} />
-                        ))}
-                        {papers.length > 3 && (
-                          <Button variant="outline" className="w-full" onClick={() => setActiveTab('papers')}>
-                            View all {papers.length} papers
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-                  )}
-                  
-                  {resources && resources.length > 0 && (
-                    <div>
-                      <h2 className="text-xl font-semibold mb-3 flex items-center mt-8">
-                        <BookOpen className="mr-2 h-5 w-5" />
-                        Resources
-                      </h2>
-                      <div className="space-y-4">
-                        {resources.slice(0, 3).map(resource => (
-                          <ResourceResultCard key={resource.id} resource={resource} />
-                        ))}
-                        {resources.length > 3 && (
-                          <Button variant="outline" className="w-full" onClick={() => setActiveTab('resources')}>
-                            View all {resources.length} resources
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-                  )}
-                  
-                  {discussions && discussions.length > 0 && (
-                    <div>
-                      <h2 className="text-xl font-semibold mb-3 flex items-center mt-8">
-                        <MessageSquare className="mr-2 h-5 w-5" />
-                        Discussions
-                      </h2>
-                      <div className="space-y-4">
-                        {discussions.slice(0, 3).map(discussion => (
-                          <DiscussionResultCard key={discussion.id} discussion={discussion} />
-                        ))}
-                        {discussions.length > 3 && (
-                          <Button variant="outline" className="w-full" onClick={() => setActiveTab('discussions')}>
-                            View all {discussions.length} discussions
-                          </Button>
-                        )}
-                      </div>
-                    </div>
+                  {results.map(result => (
+                    <SearchResultCard key={`${result.type}-${result.id}`} result={result} />
+                  ))}
+                  {hasNextPage && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        `Show more (${totalResults - results.length} left)`
+                      )}
+                    </Button>
                   )}
                 </>
               )}
-            </TabsContent>
-            
-            {/* Papers tab */}
-            <TabsContent value="papers">
-              {isLoading ? (
-                <div className="space-y-4">
-                  {Array(5).fill(0).map((_, i) => (
-                    <Card key={i}>
-                      <CardHeader className="pb-2">
-                        <Skeleton className="h-6 w-2/3" />
-                      </CardHeader>
-                      <CardContent>
-                        <Skeleton className="h-4 w-full mb-2" />
-                        <Skeleton className="h-4 w-3/4" />
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              ) : papers && papers.length > 0 ? (
-                <div className="space-y-4">
-                  {papers.map(paper => (
-                    <PaperResultCard key={paper.id} paper={paper} />
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-8">
-                  <p className="text-muted-foreground">No papers found for "{searchQuery}"</p>
-                </div>
-              )}
-            </TabsContent>
-            
-            {/* Resources tab */}
-            <TabsContent value="resources">
-              {isLoading ? (
-                <div className="space-y-4">
-                  {Array(5).fill(0).map((_, i) => (
-                    <Card key={i}>
-                      <CardHeader className="pb-2">
-                        <Skeleton className="h-6 w-2/3" />
-                      </CardHeader>
-                      <CardContent>
-                        <Skeleton className="h-4 w-full mb-2" />
-                        <Skeleton className="h-4 w-3/4" />
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              ) : resources && resources.length > 0 ? (
-                <div className="space-y-4">
-                  {resources.map(resource => (
-                    <ResourceResultCard key={resource.id} resource={resource} />
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-8">
-                  <p className="text-muted-foreground">No resources found for "{searchQuery}"</p>
-                </div>
-              )}
-            </TabsContent>
-            
-            {/* Discussions tab */}
-            <TabsContent value="discussions">
-              {isLoading ? (
-                <div className="space-y-4">
-                  {Array(5).fill(0).map((_, i) => (
-                    <Card key={i}>
-                      <CardHeader className="pb-2">
-                        <Skeleton className="h-6 w-2/3" />
-                      </CardHeader>
-                      <CardContent>
-                        <Skeleton className="h-4 w-full mb-2" />
-                        <Skeleton className="h-4 w-3/4" />
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              ) : discussions && discussions.length > 0 ? (
-                <div className="space-y-4">
-                  {discussions.map(discussion => (
-                    <DiscussionResultCard key={discussion.id} discussion={discussion} />
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-8">
-                  <p className="text-muted-foreground">No discussions found for "{searchQuery}"</p>
-                </div>
-              )}
-            </TabsContent>
-          </Tabs>
+            </div>
+          </div>
         </div>
       </div>
     </AppShell>
   );
 }
 
-// Card component for Paper search results
-function PaperResultCard({ paper }: { paper: Paper }) {
+// Text with the parts matching the query marked
+function Highlighted({ parts }: { parts: HighlightedText }) {
   return (
-    <Card>
-      <CardHeader className="pb-2">
-        <div className="flex justify-between">
-          <CardTitle className="text-lg font-semibold hover:text-primary transition-colors">
-            <a href={`/papers/${paper.id}`}>{paper.title}</a>
-          </CardTitle>
-          <Badge variant="outline">{paper.course}</Badge>
-        </div>
-      </CardHeader>
-      <CardContent>
-        <p className="text-muted-foreground text-sm line-clamp-2 mb-2">{paper.description}</p>
-        <div className="flex items-center text-xs text-muted-foreground">
-          <Calendar className="h-3 w-3 mr-1" />
-          <span>{new Date(paper.year).getFullYear()}</span>
-          {paper.institution && (
-            <>
-              <span className="mx-1">•</span>
-              <span>{paper.institution}</span>
-            </>
-          )}
-          <span className="mx-1">•</span>
-          <User className="h-3 w-3 mr-1" />
-          <span>Uploader ID: {paper.uploaderId}</span>
-        </div>
-      </CardContent>
-      <CardFooter className="pt-0 flex justify-between">
-        <div className="flex items-center text-xs">
-          <Download className="h-3 w-3 mr-1" />
-          <span>{paper.downloads || 0} downloads</span>
-        </div>
-        <Button variant="outline" size="sm" asChild>
-          <a href={`/papers/${paper.id}`}>View Details</a>
-        </Button>
-      </CardFooter>
-    </Card>
+    <>
+      {parts.map((part, i) => part.highlight ? (
+        <mark key={i} className="bg-yellow-200 text-inherit rounded-sm px-0.5">{part.text}</mark>
+      ) : (
+        <span key={i}>{part.text}</span>
+      ))}
+    </>
   );
 }
 
-// Card component for Resource search results
-function ResourceResultCard({ resource }: { resource: Resource }) {
+function FacetList({
+  title,
+  facets,
+  selected,
+  onSelect,
+  formatValue = (value) => value
+}: {
+  title: string;
+  facets: SearchFacetCount[];
+  selected?: string;
+  onSelect: (value: string) => void;
+  formatValue?: (value: string) => string;
+}) {
+  if (facets.length === 0) return null;
+
   return (
     <Card>
       <CardHeader className="pb-2">
-        <div className="flex justify-between">
-          <CardTitle className="text-lg font-semibold hover:text-primary transition-colors">
-            <a href={`/resources/${resource.id}`}>{resource.title}</a>
-          </CardTitle>
-          <Badge variant="outline">{resource.type}</Badge>
-        </div>
+        <CardTitle className="text-sm font-semibold">{title}</CardTitle>
       </CardHeader>
-      <CardContent>
-        <p className="text-muted-foreground text-sm line-clamp-2 mb-2">{resource.description}</p>
-        <div className="flex items-center text-xs text-muted-foreground">
-          <User className="h-3 w-3 mr-1" />
-          <span>Uploader ID: {resource.uploaderId}</span>
-          <span className="mx-1">•</span>
-          <Calendar className="h-3 w-3 mr-1" />
-          <span>{formatDistanceToNow(new Date(resource.uploadDate))} ago</span>
-          {resource.course && (
-            <>
-              <span className="mx-1">•</span>
-              <span>{resource.course}</span>
-            </>
-          )}
-        </div>
+      <CardContent className="space-y-1">
+        {facets.map(facet => {
+          const isSelected = selected?.toLowerCase() === facet.value.toLowerCase();
+          return (
+            <button
+              key={facet.value}
+              onClick={() => onSelect(facet.value)}
+              className={`w-full flex items-center justify-between text-sm rounded px-2 py-1 hover:bg-muted ${
+                isSelected ? 'bg-muted font-medium' : ''
+              }`}
+            >
+              <span className="truncate">{formatValue(facet.value)}</span>
+              <span className="flex items-center text-muted-foreground">
+                {facet.count}
+                {isSelected && <X className="h-3 w-3 ml-1" />}
+              </span>
+            </button>
+          );
+        })}
       </CardContent>
-      <CardFooter className="pt-0 flex justify-between">
-        <div className="flex items-center text-xs">
-          <Download className="h-3 w-3 mr-1" />
-          <span>{resource.downloads || 0} downloads</span>
-          {resource.rating && resource.rating > 0 && (
-            <>
-              <span className="mx-1">•</span>
-              <span>Rating: {resource.rating.toFixed(1)}/5</span>
-            </>
-          )}
-        </div>
-        <Button variant="outline" size="sm" asChild>
-          <a href={`/resources/${resource.id}`}>View Resource</a>
-        </Button>
-      </CardFooter>
     </Card>
   );
 }
 
-// Card component for Discussion search results
-function DiscussionResultCard({ discussion }: { discussion: DiscussionPost }) {
-  const formattedDate = formatDistanceToNow(new Date(discussion.createdAt));
-  
+// Card for a search result of any type
+function SearchResultCard({ result }: { result: SearchResult }) {
+  const Icon = TYPE_ICONS[result.type];
+
   return (
     <Card>
       <CardHeader className="pb-2">
-        <CardTitle className="text-lg font-semibold hover:text-primary transition-colors">
-          <a href={`/discussions/${discussion.id}`}>{discussion.title}</a>
-        </CardTitle>
+        <div className="flex justify-between gap-2">
+          <CardTitle className="text-lg font-semibold hover:text-primary transition-colors flex items-center">
+            <Icon className="mr-2 h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            {/* Papers open at the page that matched */}
+            <a href={result.matchedPage !== null ? `${result.url}?page=${result.matchedPage}` : result.url}>
+              <Highlighted parts={result.highlightedTitle} />
+            </a>
+          </CardTitle>
+          {result.course && <Badge variant="outline">{result.course}</Badge>}
+        </div>
       </CardHeader>
       <CardContent>
-        <p className="text-muted-foreground text-sm line-clamp-2 mb-2">{discussion.content}</p>
+        {result.snippet.length > 0 && (
+          <p className="text-muted-foreground text-sm mb-2">
+            {result.matchedPage !== null && (
+              <Badge variant="secondary" className="mr-2">Page {result.matchedPage}</Badge>
+            )}
+            <Highlighted parts={result.snippet} />
+          </p>
+        )}
         <div className="flex items-center text-xs text-muted-foreground">
-          <User className="h-3 w-3 mr-1" />
-          <span>Author ID: {discussion.authorId}</span>
-          <span className="mx-1">•</span>
           <Calendar className="h-3 w-3 mr-1" />
-          <span>{formattedDate} ago</span>
-          {discussion.course && (
+          <span>
+            {result.type === 'paper' && result.year
+              ? result.year
+              : `${formatDistanceToNow(new Date(result.date), { addSuffix: true })}`}
+          </span>
+          {result.institution && (
             <>
               <span className="mx-1">•</span>
-              <span>{discussion.course}</span>
+              <Building className="h-3 w-3 mr-1" />
+              <span>{result.institution}</span>
             </>
           )}
         </div>
       </CardContent>
-      <CardFooter className="pt-0 flex justify-between">
-        <div className="flex items-center text-xs">
-          <ThumbsUp className="h-3 w-3 mr-1" />
-          <span>{discussion.votes ? discussion.votes : 0} votes</span>
-          <span className="mx-1">•</span>
-          <MessageSquare className="h-3 w-3 mr-1" />
-          <span>0 replies</span>
-        </div>
-        <Button variant="outline" size="sm" asChild>
-          <a href={`/discussions/${discussion.id}`}>Join Discussion</a>
-        </Button>
-      </CardFooter>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -16,15 +16,20 @@ import {
   Plus, 
   ChevronLeft, 
   ChevronRight,
-  ArrowUpRight
+  ArrowUpRight,
+  CalendarPlus,
+  Repeat
 } from "lucide-react";
-import { StudySession, StudyGroup } from "@shared/schema";
+import { StudyGroup } from "@shared/schema";
+import { SessionOccurrence } from "@shared/types";
 import { format, isToday, isTomorrow, isPast, addMonths } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarSubscribeDialog } from "@/components/groups/calendar-subscribe-dialog";
+import { describeRecurrence } from "@/lib/recurrence";
 
 export default function SessionsPage() {
   const { toast } = useToast();
@@ -33,7 +38,7 @@ export default function SessionsPage() {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   
   // Fetch all study sessions
-  const { data: sessions, isLoading: loadingSessions } = useQuery<StudySession[]>({
+  const { data: sessions, isLoading: loadingSessions } = useQuery<SessionOccurrence[]>({
     queryKey: ["/api/sessions"],
     queryFn: async () => {
       const res = await fetch('/api/sessions');
@@ -67,7 +72,7 @@ export default function SessionsPage() {
   }) || [];
   
   // Group sessions by date for list view
-  const groupedSessions: Record<string, StudySession[]> = {};
+  const groupedSessions: Record<string, SessionOccurrence[]> = {};
   filteredSessions.forEach(session => {
     const date = new Date(session.startTime).toDateString();
     if (!groupedSessions[date]) {
@@ -134,7 +139,7 @@ export default function SessionsPage() {
     }
   };
   
-  const getSessionStatusBadge = (session: StudySession) => {
+  const getSessionStatusBadge = (session: SessionOccurrence) => {
     const now = new Date();
     const startTime = new Date(session.startTime);
     const endTime = new Date(session.endTime);
@@ -166,12 +171,15 @@ export default function SessionsPage() {
               <p className="text-gray-500 mt-1">View and manage all scheduled study sessions</p>
             </div>
             
-            <Button asChild>
-              <a href="/groups">
-                <Plus className="mr-2 h-4 w-4" />
-                Schedule New Session
-              </a>
-            </Button>
+            <div className="flex gap-2">
+              <CalendarSubscribeDialog />
+              <Button asChild>
+                <a href="/groups">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Schedule New Session
+                </a>
+              </Button>
+            </div>
           </div>
         </div>
         
@@ -251,7 +259,7 @@ export default function SessionsPage() {
                           const endTime = new Date(session.endTime);
                           
                           return (
-                            <div key={session.id} className="p-4 border-b border-gray-100 last:border-0 hover:bg-gray-50">
+                            <div key={`${session.id}-${session.occurrenceStart}`} className="p-4 border-b border-gray-100 last:border-0 hover:bg-gray-50">
                               <div className="flex flex-col sm:flex-row sm:items-center gap-4">
                                 <div className="bg-primary-100 rounded-full h-12 w-12 flex flex-col items-center justify-center flex-shrink-0">
                                   <span className="text-xs font-medium text-primary-800">
@@ -289,6 +297,13 @@ export default function SessionsPage() {
                                             <span>{session.location}</span>
                                           </div>
                                         )}
+                                        
+                                        {session.recurrence && (
+                                          <div className="flex items-center">
+                                            <Repeat className="h-3.5 w-3.5 mr-1" />
+                                            <span>{describeRecurrence(session.recurrence)}</span>
+                                          </div>
+                                        )}
                                       </div>
                                     </div>
                                     
@@ -306,15 +321,24 @@ export default function SessionsPage() {
                                   </div>
                                 </div>
                                 
-                                {session.meetingLink && (
-                                  <Button variant="outline" size="sm" asChild>
-                                    <a href={session.meetingLink} target="_blank" rel="noopener noreferrer">
-                                      <LinkIcon className="h-3.5 w-3.5 mr-1" />
-                                      Join
-                                      <ArrowUpRight className="ml-1 h-3 w-3" />
+                                <div className="flex gap-2">
+                                  <Button variant="ghost" size="sm" asChild>
+                                    <a href={`/api/sessions/${session.id}/calendar.ics`} download title="Add to calendar">
+                                      <CalendarPlus className="h-3.5 w-3.5 mr-1" />
+                                      .ics
                                     </a>
                                   </Button>
-                                )}
+
+                                  {session.meetingLink && (
+                                    <Button variant="outline" size="sm" asChild>
+                                      <a href={session.meetingLink} target="_blank" rel="noopener noreferrer">
+                                        <LinkIcon className="h-3.5 w-3.5 mr-1" />
+                                        Join
+                                        <ArrowUpRight className="ml-1 h-3 w-3" />
+                                      </a>
+                                    </Button>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           );
@@ -9,8 +9,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, Lock, User, Bell, Globe, Moon, Sun, LogOut, KeyRound, CheckCircle } from "lucide-react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { NotificationPreferences } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -34,13 +36,31 @@ export default function SettingsPage() {
     newPassword: "",
     confirmPassword: ""
   });
-  const [notificationSettings, setNotificationSettings] = useState({
+  const [notificationSettings, setNotificationSettings] = useState<NotificationPreferences>({
     emailNotifications: true,
+    emailDigest: "off",
     discussionReplies: true,
     studySessionReminders: true,
     resourceUpdates: false
   });
   
+  // Load saved notification preferences
+  const { data: savedNotificationSettings } = useQuery<NotificationPreferences>({
+    queryKey: [`/api/user/${user?.id}/notifications`],
+    queryFn: async () => {
+      const res = await fetch(`/api/user/${user?.id}/notifications`);
+      if (!res.ok) throw new Error("Failed to fetch notification settings");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+  
+  useEffect(() => {
+    if (savedNotificationSettings) {
+      setNotificationSettings(savedNotificationSettings);
+    }
+  }, [savedNotificationSettings]);
+  
   // Theme states
   const [themeSettings, setThemeSettings] = useState<ThemeSettings>({
     variant: 'professional',
@@ -139,7 +159,8 @@ export default function SettingsPage() {
       const res = await apiRequest("PATCH", `/api/user/${user?.id}/notifications`, data);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (preferences: NotificationPreferences) => {
+      queryClient.setQueryData([`/api/user/${user?.id}/notifications`], preferences);
       toast({
         title: "Notification settings updated",
         description: "Your notification preferences have been saved.",
@@ -159,7 +180,7 @@ export default function SettingsPage() {
     setPasswordData(prev => ({ ...prev, [name]: value }));
   };
 
-  const handleNotificationChange = (setting: keyof typeof notificationSettings) => {
+  const handleNotificationChange = (setting: Exclude<keyof NotificationPreferences, 'emailDigest'>) => {
     setNotificationSettings(prev => {
       return { ...prev, [setting]: !prev[setting] };
     });
@@ -354,6 +375,29 @@ export default function SettingsPage() {
                         />
                       </div>
                       
+                      <div className="flex items-center justify-between py-3 border-b">
+                        <div className="space-y-0.5">
+                          <Label htmlFor="emailDigest" className="text-base font-medium">Email Frequency</Label>
+                          <p className="text-sm text-muted-foreground">Get each email as it happens, or a daily or weekly summary</p>
+                        </div>
+                        <Select
+                          value={notificationSettings.emailDigest}
+                          onValueChange={(value: NotificationPreferences['emailDigest']) =>
+                            setNotificationSettings(prev => ({ ...prev, emailDigest: value }))
+                          }
+                          disabled={!notificationSettings.emailNotifications}
+                        >
+                          <SelectTrigger id="emailDigest" className="w-[160px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="off">Immediately</SelectItem>
+                            <SelectItem value="daily">Daily digest</SelectItem>
+                            <SelectItem value="weekly">Weekly digest</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      
                       <div className="flex items-center justify-between py-3 border-b">
                         <div className="space-y-0.5">
                           <Label htmlFor="discussionReplies" className="text-base font-medium">Discussion Replies</Label>
@@ -0,0 +1,103 @@
+import type { StudyLogEntry } from "@shared/schema";
+import type { StudyAnalytics, StudyMinutesByDate } from "@shared/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const DAILY_DAYS = 30;
+const WEEKLY_WEEKS = 12;
+const HEATMAP_DAYS = 365;
+
+// Calendar day of an instant in the given zone, as YYYY-MM-DD
+function toDayKey(date: Date, timeZone: string) {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+function addDays(dayKey: string, days: number) {
+  return new Date(Date.parse(dayKey) + days * DAY).toISOString().slice(0, 10);
+}
+
+// Weeks start on Monday
+function toWeekKey(dayKey: string) {
+  const weekday = new Date(Date.parse(dayKey)).getUTCDay();
+  return addDays(dayKey, -((weekday + 6) % 7));
+}
+
+// One entry per day from `count - 1` days before `lastDay` up to it, zero filled
+function dayRange(minutesByDay: Map<string, number>, lastDay: string, count: number): StudyMinutesByDate[] {
+  return Array.from({ length: count }, (_, i) => {
+    const date = addDays(lastDay, i - count + 1);
+    return { date, minutes: minutesByDay.get(date) ?? 0 };
+  });
+}
+
+/**
+ * Aggregates a user's study log into the dashboard analytics: minutes per
+ * day, week and subject, study streaks and a year heatmap. Days are counted
+ * in the user's time zone so late night sessions land on the right date.
+ */
+export function buildStudyAnalytics(
+  entries: StudyLogEntry[],
+  timeZone: string,
+  now: Date = new Date()
+): StudyAnalytics {
+  const today = toDayKey(now, timeZone);
+
+  const minutesByDay = new Map<string, number>();
+  const minutesBySubject = new Map<string, { subject: string; minutes: number }>();
+  entries.forEach((entry) => {
+    const day = toDayKey(new Date(entry.loggedAt), timeZone);
+    minutesByDay.set(day, (minutesByDay.get(day) ?? 0) + entry.durationMinutes);
+
+    // Subjects are grouped case-insensitively, named as first seen (entries come newest first)
+    const key = entry.subject.trim().toLowerCase();
+    const subject = minutesBySubject.get(key) ?? { subject: entry.subject.trim(), minutes: 0 };
+    subject.minutes += entry.durationMinutes;
+    minutesBySubject.set(key, subject);
+  });
+
+  const minutesByWeek = new Map<string, number>();
+  minutesByDay.forEach((minutes, day) => {
+    const week = toWeekKey(day);
+    minutesByWeek.set(week, (minutesByWeek.get(week) ?? 0) + minutes);
+  });
+  const thisWeek = toWeekKey(today);
+  const weekly = Array.from({ length: WEEKLY_WEEKS }, (_, i) => {
+    const weekStart = addDays(thisWeek, (i - WEEKLY_WEEKS + 1) * 7);
+    return { weekStart, minutes: minutesByWeek.get(weekStart) ?? 0 };
+  });
+
+  // The current streak survives until the end of today, so it still counts
+  // yesterday's run when nothing has been logged yet today
+  let currentStreak = 0;
+  let day = minutesByDay.has(today) ? today : addDays(today, -1);
+  while (minutesByDay.has(day)) {
+    currentStreak++;
+    day = addDays(day, -1);
+  }
+
+  let longestStreak = 0;
+  let run = 0;
+  let previousDay: string | undefined;
+  Array.from(minutesByDay.keys()).sort().forEach((studyDay) => {
+    run = previousDay && addDays(previousDay, 1) === studyDay ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previousDay = studyDay;
+  });
+
+  return {
+    timeZone,
+    totalMinutes: entries.reduce((total, entry) => total + entry.durationMinutes, 0),
+    currentStreak,
+    longestStreak,
+    daily: dayRange(minutesByDay, today, DAILY_DAYS),
+    weekly,
+    subjects: Array.from(minutesBySubject.values()).sort((a, b) => b.minutes - a.minutes),
+    heatmap: dayRange(minutesByDay, today, HEATMAP_DAYS),
+  };
+}
@@ -5,6 +5,7 @@ import session from "express-session";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
 import { hashPassword, comparePassword } from "./utils";
+import { invalidateUserSuggestions } from "./suggestions";
 
 declare global {
   namespace Express {
@@ -12,21 +13,31 @@ declare global {
   }
 }
 
-export function setupAuth(app: Express) {
-  const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || "studysphere-secret",
-    resave: true,
-    saveUninitialized: true,
-    store: storage.sessionStore,
-    cookie: {
-      secure: false, // Set to false to work in development without HTTPS
-      maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/'
-    }
-  };
+declare module "express-session" {
+  interface SessionData {
+    // Where passport keeps the serialized user, the id, once logged in
+    passport?: { user?: number };
+  }
+}
 
+const sessionSettings: session.SessionOptions = {
+  secret: process.env.SESSION_SECRET || "studysphere-secret",
+  resave: true,
+  saveUninitialized: true,
+  store: storage.sessionStore,
+  cookie: {
+    secure: false, // Set to false to work in development without HTTPS
+    maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/'
+  }
+};
+
+// Shared with the WebSocket server so upgrades are authenticated by the same cookie
+export const sessionParser = session(sessionSettings);
+
+export function setupAuth(app: Express) {
   console.log("Setting up auth with session config:", {
     secret: sessionSettings.secret ? "****" : "Not set",
     resave: sessionSettings.resave,
@@ -35,7 +46,7 @@ export function setupAuth(app: Express) {
   });
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
   
@@ -130,6 +141,7 @@ export function setupAuth(app: Express) {
         ...req.body,
         password: hashedPassword,
       });
+      invalidateUserSuggestions();
       console.log(`User created with ID: ${user.id}`);
 
       // Remove password from response
@@ -0,0 +1,71 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { createRequire } from "module";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// DATABASE_URL values starting with this prefix use an embedded PGlite
+// database instead of a server, e.g. `pglite:./data/studysphere` or
+// `pglite:` for a throwaway in-memory database (handy for local tests).
+const EMBEDDED_PREFIX = "pglite:";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// The one call connect-pg-simple makes of a pg-promise database: the rows
+// of a query. It is given this instead of a pg pool, which PGlite isn't.
+export interface SessionQueryRunner {
+  any(text: string, params?: unknown[]): Promise<unknown[]>;
+}
+
+export interface DatabaseConnection {
+  db: Database;
+  sessionQueries: SessionQueryRunner;
+  embedded: boolean;
+}
+
+export function isEmbeddedDatabaseUrl(url: string): boolean {
+  return url.startsWith(EMBEDDED_PREFIX);
+}
+
+export function connectDatabase(url: string): DatabaseConnection {
+  if (isEmbeddedDatabaseUrl(url)) {
+    const dataDir = url.slice(EMBEDDED_PREFIX.length).replace(/^\/\//, "");
+    const client = new PGlite(dataDir || undefined);
+    return {
+      db: drizzlePglite(client, { schema }),
+      sessionQueries: { any: async (text, params) => (await client.query(text, params)).rows },
+      embedded: true,
+    };
+  }
+
+  const pool = new Pool({ connectionString: url });
+  return {
+    db: drizzleNeon(pool, { schema }),
+    sessionQueries: { any: async (text, params) => (await pool.query(text, params)).rows },
+    embedded: false,
+  };
+}
+
+/**
+ * Creates or updates every table in shared/schema.ts, the same way
+ * `npm run db:push` does. Only used for embedded databases, which have
+ * no drizzle-kit CLI pointed at them.
+ */
+export async function pushSchema(db: Database): Promise<void> {
+  // drizzle-kit's ESM api bundle cannot load its own CommonJS dependencies,
+  // so it has to be pulled in through require.
+  const require = createRequire(import.meta.url);
+  const { pushSchema: push } = require("drizzle-kit/api");
+  // Loading it also adds an enumerable Array.prototype.random, which turns up
+  // in for...in loops over arrays; pdf.js refuses to run with it there.
+  if (Object.prototype.propertyIsEnumerable.call(Array.prototype, "random")) {
+    Object.defineProperty(Array.prototype, "random", { enumerable: false });
+  }
+  const result = await push(schema, db);
+  await result.apply();
+}
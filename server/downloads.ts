@@ -0,0 +1,116 @@
+import path from "path";
+import type { Request, Response } from "express";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Paper, User } from "@shared/schema";
+import { storage } from "./storage";
+import { fileStore } from "./file-store";
+
+// How long a download link keeps working, in seconds
+export const DOWNLOAD_URL_EXPIRES_IN = 5 * 60;
+
+const DOWNLOAD_URL_SECRET = process.env.FILE_URL_SECRET || process.env.SESSION_SECRET || "studysphere-secret";
+
+// Who may download papers. Banned users already can't reach the API, but a
+// link issued before a ban must stop working too.
+export function canDownloadPaper(user: User | undefined): user is User {
+  return !!user && !user.isBanned;
+}
+
+function signature(paperId: number, userId: number, expires: number, nonce: string, version?: number) {
+  const payload = `${paperId}\n${userId}\n${expires}\n${nonce}` + (version ? `\n${version}` : "");
+  return createHmac("sha256", DOWNLOAD_URL_SECRET).update(payload).digest("hex");
+}
+
+/**
+ * A link to the paper's file for one user that works without a session
+ * until it expires, so it can be opened in a new tab or handed to a viewer.
+ * Without a version it serves whatever file is the latest when it's opened.
+ * Each link carries a nonce, so it counts as one download however often
+ * it's opened.
+ */
+export function signDownloadUrl(paperId: number, userId: number, version?: number, now = new Date()) {
+  const expires = Math.floor(now.getTime() / 1000) + DOWNLOAD_URL_EXPIRES_IN;
+  const nonce = randomBytes(12).toString("hex");
+  const params = new URLSearchParams({
+    user: String(userId),
+    expires: String(expires),
+    nonce,
+    ...(version ? { version: String(version) } : {}),
+    signature: signature(paperId, userId, expires, nonce, version),
+  });
+  return { url: `/api/papers/${paperId}/download?${params.toString()}`, expiresAt: new Date(expires * 1000) };
+}
+
+export interface DownloadLink {
+  userId: number;
+  // Unix time in seconds
+  expires: number;
+  nonce: string;
+  version?: number;
+}
+
+// The download link in a request's query, or null if it's forged or expired
+export function verifyDownloadUrl(paperId: number, query: Request["query"], now = new Date()): DownloadLink | null {
+  const userId = parseInt(String(query.user));
+  const expires = parseInt(String(query.expires));
+  const { nonce, signature: given } = query;
+  const version = query.version === undefined ? undefined : parseInt(String(query.version));
+  if (!userId || !expires || typeof nonce !== "string" || typeof given !== "string") return null;
+  if (expires * 1000 < now.getTime() || (version !== undefined && !(version >= 1))) return null;
+
+  const expected = Buffer.from(signature(paperId, userId, expires, nonce, version), "hex");
+  const givenBytes = Buffer.from(given, "hex");
+  return givenBytes.length === expected.length && timingSafeEqual(givenBytes, expected)
+    ? { userId, expires, nonce, version }
+    : null;
+}
+
+// Nonces of links already counted, with when they expire; after that the link is refused anyway
+const countedLinks = new Map<string, number>();
+
+// Whether this is the first download through the link, remembering it if so
+function claimDownloadLink({ nonce, expires }: DownloadLink, now = new Date()) {
+  countedLinks.forEach((expiry, counted) => {
+    if (expiry * 1000 < now.getTime()) countedLinks.delete(counted);
+  });
+  if (countedLinks.has(nonce)) return false;
+  countedLinks.set(nonce, expires);
+  return true;
+}
+
+// How long the file store's own link works; every use of a download link gets a new one
+const FILE_URL_EXPIRES_IN = 60;
+
+// Range requests past the first byte are a viewer loading the rest of a file it already counted
+function startsAtBeginning(req: Request) {
+  return !req.headers.range || /^bytes=0-/.test(req.headers.range);
+}
+
+/**
+ * Sends the browser on to the file store's signed link for a paper's file,
+ * offered under the paper's title. The store serves the bytes and answers
+ * Range requests. The download is counted here, once per link, by the
+ * first request starting at the beginning of the file, so neither a viewer
+ * fetching a PDF in chunks nor a replayed link counts again. An earlier
+ * version's file is named with its version number.
+ */
+export async function redirectToPaperFile(
+  req: Request,
+  res: Response,
+  paper: Paper,
+  link: DownloadLink,
+  { version, fileUrl }: Pick<Paper, "version" | "fileUrl"> = paper,
+) {
+  if ((await fileStore.size(fileUrl)) === null) {
+    return res.status(404).send("File not found");
+  }
+
+  if (req.method !== "HEAD" && startsAtBeginning(req) && claimDownloadLink(link)) {
+    storage.incrementPaperDownloads(paper.id)
+      .catch((error) => console.error(`Error counting download of paper ${paper.id}:`, error));
+  }
+
+  const fileName = paper.title + (version === paper.version ? "" : ` (v${version})`) + path.extname(fileUrl);
+  res.setHeader("Cache-Control", "private, no-store");
+  res.redirect(await fileStore.signedUrl(fileUrl, { expiresIn: FILE_URL_EXPIRES_IN, fileName }));
+}
@@ -0,0 +1,192 @@
+import { createHash } from "crypto";
+import type { Paper } from "@shared/schema";
+import type { DuplicateCluster, DuplicatePaper, DuplicateReason, DuplicateUploadWarning } from "@shared/types";
+import { storage } from "./storage";
+import { fileStore } from "./file-store";
+import { deletePaperAndFiles } from "./paper-versions";
+import { indexPaper } from "./search";
+
+/*
+ * Spotting the same paper shared more than once: either the very same file,
+ * by its content hash, or a paper for the same course, year and institution
+ * whose title reads almost the same.
+ */
+
+// How alike two titles must be, from 0 to 1, to count as the same paper
+const TITLE_SIMILARITY_THRESHOLD = 0.75;
+
+export const hashFile = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+
+// "CS 101" and "cs101" name the same course; punctuation and case don't matter
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+function bigrams(text: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) grams.push(text.slice(i, i + 2));
+  return grams;
+}
+
+/**
+ * Dice coefficient of the titles' letter pairs: 1 for titles that only
+ * differ in case and punctuation, close to it for a word added or misspelt.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (left === right) return 1;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftGrams.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+  let shared = 0;
+  rightGrams.forEach((gram) => {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * shared) / (leftGrams.length + rightGrams.length);
+}
+
+type PaperDetails = Pick<Paper, "title" | "course" | "year" | "institution"> & { contentHash?: string | null };
+
+// The exam a paper is from, which copies of it share
+const sittingKey = (paper: PaperDetails) =>
+  `${compact(paper.course)}\n${paper.year.trim()}\n${compact(paper.institution)}`;
+
+function duplicateReason(a: PaperDetails, b: PaperDetails): DuplicateReason | null {
+  if (a.contentHash && a.contentHash === b.contentHash) return "same_file";
+  if (sittingKey(a) === sittingKey(b) && titleSimilarity(a.title, b.title) >= TITLE_SIMILARITY_THRESHOLD) {
+    return "similar_title";
+  }
+  return null;
+}
+
+async function withUploaderName<T extends Paper>(paper: T): Promise<T & { uploaderName: string }> {
+  const uploader = await storage.getUser(paper.uploaderId);
+  return { ...paper, uploaderName: uploader ? uploader.username : "Anonymous" };
+}
+
+// Papers already shared that look like the one being uploaded, same files first
+export async function findDuplicatePapers(paper: PaperDetails): Promise<DuplicatePaper[]> {
+  const matches = (await storage.getPapers())
+    .map((existing) => ({ ...existing, reason: duplicateReason(paper, existing) }))
+    .filter((match): match is Paper & { reason: DuplicateReason } => match.reason !== null)
+    .sort((a, b) => Number(b.reason === "same_file") - Number(a.reason === "same_file"));
+
+  return Promise.all(matches.map(withUploaderName));
+}
+
+/**
+ * What an upload gets back, with a 409, when it looks like papers already
+ * shared, or null when it doesn't or the uploader already confirmed it by
+ * sending allowDuplicate=true. A new version of a paper only warns about
+ * its file being shared as another paper; its title was checked when the
+ * paper was first shared.
+ */
+export async function duplicateUploadWarning(
+  upload: PaperDetails,
+  body: Record<string, unknown>,
+  replacing?: Paper,
+): Promise<DuplicateUploadWarning | null> {
+  if (body.allowDuplicate === "true") return null;
+
+  const duplicates = (await findDuplicatePapers(upload)).filter((duplicate) =>
+    !replacing || (duplicate.id !== replacing.id && duplicate.reason === "same_file"));
+  if (duplicates.length === 0) return null;
+
+  return {
+    message: replacing
+      ? "This file has already been shared as another paper"
+      : "This looks like a paper that has already been shared",
+    duplicates,
+  };
+}
+
+/**
+ * Groups of papers that look like copies of each other. Likeness is
+ * followed through the group, so a paper like one that is like a third
+ * lands with both even when it isn't like the third itself.
+ */
+export async function findDuplicateClusters(): Promise<DuplicateCluster[]> {
+  const papers = await storage.getPapers();
+
+  // Union-find over paper indexes
+  const parent = papers.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<DuplicateReason>>();
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set<DuplicateReason>();
+    [reasons.get(rootA), reasons.get(rootB)].forEach((set) => set?.forEach((r) => merged.add(r)));
+    merged.add(reason);
+    parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  // Only papers sharing a file or an exam can be copies, so compare within those groups
+  const groups = new Map<string, number[]>();
+  papers.forEach((paper, i) => {
+    const keys = [`sitting\n${sittingKey(paper)}`];
+    if (paper.contentHash) keys.push(`hash\n${paper.contentHash}`);
+    keys.forEach((key) => groups.set(key, [...(groups.get(key) ?? []), i]));
+  });
+  groups.forEach((members) => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const reason = duplicateReason(papers[members[i]], papers[members[j]]);
+        if (reason) link(members[i], members[j], reason);
+      }
+    }
+  });
+
+  const clusters = new Map<number, Paper[]>();
+  papers.forEach((paper, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), paper]);
+  });
+
+  const result: DuplicateCluster[] = [];
+  for (const [root, members] of Array.from(clusters.entries())) {
+    if (members.length < 2) continue;
+    result.push({
+      papers: await Promise.all(members.map(withUploaderName)),
+      reasons: Array.from(reasons.get(root) ?? []),
+    });
+  }
+  return result;
+}
+
+/**
+ * Folds duplicates into the paper that is kept: their downloads are added
+ * to its count, then they are deleted along with their files.
+ */
+export async function mergeDuplicatePapers(target: Paper, duplicates: Paper[]): Promise<Paper> {
+  const downloads = duplicates.reduce((sum, paper) => sum + (paper.downloads ?? 0), 0);
+  const merged = (await storage.incrementPaperDownloads(target.id, downloads)) ?? target;
+
+  for (const duplicate of duplicates) {
+    await deletePaperAndFiles(duplicate);
+  }
+  indexPaper(merged);
+  return merged;
+}
+
+// Hashes the files of papers uploaded before hashes were kept, one at a time
+export async function hashExistingPapers(): Promise<void> {
+  const unhashed = await storage.getPapers({ contentHash: null });
+  for (const paper of unhashed) {
+    try {
+      await storage.updatePaper(paper.id, { contentHash: hashFile(await fileStore.get(paper.fileUrl)) });
+    } catch (error) {
+      console.error(`Error hashing file of paper ${paper.id}:`, error);
+    }
+  }
+}
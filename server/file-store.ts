@@ -0,0 +1,290 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import type { ReadableStream } from "stream/web";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface SignedUrlOptions {
+  // Seconds until the URL stops working
+  expiresIn: number;
+  // Offered as the download's file name
+  fileName?: string;
+}
+
+// Where uploaded files live. Keys are relative paths such as "papers/123.pdf".
+export interface FileStore {
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Size in bytes, or null when there is no such file
+  size(key: string): Promise<number | null>;
+  // The file, or just the given range of it
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  // Succeeds when there is nothing to delete
+  delete(key: string): Promise<void>;
+  // A URL the file can be fetched from without logging in, until it expires.
+  // It answers Range requests, so viewers can load large files in chunks.
+  signedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+
+// RFC 3986 encoding as S3 signatures expect; slashes in keys are kept
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+const encodeKey = (key: string) => key.split("/").map(encodeRfc3986).join("/");
+
+const contentDisposition = (fileName: string) =>
+  `attachment; filename="${fileName.replace(/[^\x20-\x7e]|["\\]/g, "_")}"; filename*=UTF-8''${encodeRfc3986(fileName)}`;
+
+/**
+ * Keeps files in a directory on the app server. Signed URLs point at
+ * /files/<key> on this server, where `verify` checks them before the file
+ * is sent.
+ */
+export class LocalFileStore implements FileStore {
+  constructor(private directory: string, private secret: string) {}
+
+  // Absolute path of a key, refusing keys that would leave the directory
+  filePath(key: string) {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid file key "${key}"`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer) {
+    const filePath = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string) {
+    return fs.promises.readFile(this.filePath(key));
+  }
+
+  async size(key: string) {
+    const stats = await fs.promises.stat(this.filePath(key)).catch(() => null);
+    return stats?.isFile() ? stats.size : null;
+  }
+
+  async createReadStream(key: string, range?: ByteRange) {
+    return fs.createReadStream(this.filePath(key), range);
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  private signature(key: string, expires: number, fileName: string) {
+    return hmac(this.secret, `${key}\n${expires}\n${fileName}`).toString("hex");
+  }
+
+  async signedUrl(key: string, { expiresIn, fileName = "" }: SignedUrlOptions) {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const params = new URLSearchParams({
+      expires: String(expires),
+      name: fileName,
+      signature: this.signature(key, expires, fileName),
+    });
+    return `/files/${encodeKey(key)}?${params.toString()}`;
+  }
+
+  // Whether a request for /files/<key> carries a valid, unexpired signature
+  verify(key: string, query: { expires?: string; name?: string; signature?: string }, now = new Date()) {
+    const expires = parseInt(query.expires ?? "");
+    if (!expires || !query.signature || expires * 1000 < now.getTime()) return false;
+
+    const expected = Buffer.from(this.signature(key, expires, query.name ?? ""), "hex");
+    const given = Buffer.from(query.signature, "hex");
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // e.g. http://localhost:9000 for MinIO; AWS when not set
+  endpoint?: string;
+  // Address the bucket in the path rather than the host name, as most S3-compatible servers need
+  forcePathStyle?: boolean;
+}
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+/**
+ * Keeps files in an S3 bucket or any server speaking the S3 API, signing
+ * requests with AWS Signature Version 4. Signed URLs are presigned GETs
+ * served by the bucket itself.
+ */
+export class S3FileStore implements FileStore {
+  private endpoint: URL;
+
+  constructor(private config: S3Config) {
+    this.endpoint = new URL(config.endpoint || `https://s3.${config.region}.amazonaws.com`);
+  }
+
+  private objectUrl(key: string) {
+    const url = new URL(this.endpoint.toString());
+    const basePath = url.pathname.replace(/\/$/, "");
+    if (this.config.forcePathStyle) {
+      url.pathname = `${basePath}/${encodeRfc3986(this.config.bucket)}/${encodeKey(key)}`;
+    } else {
+      url.host = `${this.config.bucket}.${url.host}`;
+      url.pathname = `${basePath}/${encodeKey(key)}`;
+    }
+    return url;
+  }
+
+  private scope(date: string) {
+    return `${date}/${this.config.region}/s3/aws4_request`;
+  }
+
+  private signingKey(date: string) {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, date);
+    return hmac(hmac(hmac(dateKey, this.config.region), "s3"), "aws4_request");
+  }
+
+  // Signature over a request, given its canonical query string and the headers to sign (lowercase names)
+  private sign(method: string, url: URL, query: string, headers: Record<string, string>, payloadHash: string, amzDate: string) {
+    const headerNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      query,
+      headerNames.map((name) => `${name}:${headers[name].trim()}\n`).join(""),
+      headerNames.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const date = amzDate.slice(0, 8);
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, this.scope(date), sha256(canonicalRequest)].join("\n");
+    return hmac(this.signingKey(date), stringToSign).toString("hex");
+  }
+
+  private async request(method: string, key: string, { body, contentType, range }: { body?: Buffer; contentType?: string; range?: ByteRange } = {}) {
+    const url = this.objectUrl(key);
+    const amzDate = toAmzDate(new Date());
+    const payloadHash = sha256(body ?? "");
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (contentType) headers["content-type"] = contentType;
+
+    const signature = this.sign(method, url, "", headers, payloadHash, amzDate);
+    const { host: _host, ...sentHeaders } = headers;
+    const response = await fetch(url, {
+      method,
+      body,
+      headers: {
+        ...sentHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.scope(amzDate.slice(0, 8))}, ` +
+          `SignedHeaders=${Object.keys(headers).sort().join(";")}, Signature=${signature}`,
+        ...(range && { range: `bytes=${range.start}-${range.end}` }),
+      },
+    });
+
+    // A missing object is an answer for HEAD and DELETE, not an error
+    if (!response.ok && !((method === "HEAD" || method === "DELETE") && response.status === 404)) {
+      throw new Error(`S3 ${method} of "${key}" failed with ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string) {
+    await this.request("PUT", key, { body: data, contentType });
+  }
+
+  async get(key: string) {
+    const response = await this.request("GET", key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async size(key: string) {
+    const response = await this.request("HEAD", key);
+    return response.ok ? parseInt(response.headers.get("content-length") ?? "0") : null;
+  }
+
+  async createReadStream(key: string, range?: ByteRange) {
+    const response = await this.request("GET", key, { range });
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async delete(key: string) {
+    await this.request("DELETE", key);
+  }
+
+  async signedUrl(key: string, { expiresIn, fileName }: SignedUrlOptions, now = new Date()) {
+    const url = this.objectUrl(key);
+    const amzDate = toAmzDate(now);
+    const params: Record<string, string> = {
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${this.config.accessKeyId}/${this.scope(amzDate.slice(0, 8))}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(expiresIn),
+      "X-Amz-SignedHeaders": "host",
+    };
+    if (fileName) params["response-content-disposition"] = contentDisposition(fileName);
+
+    // Built by hand so the URL carries exactly the encoding that was signed
+    const query = Object.keys(params)
+      .map((name) => [encodeRfc3986(name), encodeRfc3986(params[name])])
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([name, value]) => `${name}=${value}`)
+      .join("&");
+    const signature = this.sign("GET", url, query, { host: url.host }, UNSIGNED_PAYLOAD, amzDate);
+    return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature}`;
+  }
+}
+
+// e.g. 20240131T120000Z
+function toAmzDate(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Picks a store from FILE_STORE ("local" or "s3", default local). The local
+ * store writes to UPLOADS_DIR (default uploads); S3 uses S3_BUCKET,
+ * S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY and, for other S3
+ * servers, S3_ENDPOINT with S3_FORCE_PATH_STYLE.
+ */
+export function createFileStore(): FileStore {
+  const kind = process.env.FILE_STORE || "local";
+
+  switch (kind) {
+    case "local":
+      return new LocalFileStore(
+        path.resolve(process.env.UPLOADS_DIR || "uploads"),
+        process.env.FILE_URL_SECRET || process.env.SESSION_SECRET || "studysphere-secret",
+      );
+    case "s3":
+      if (!process.env.S3_BUCKET || !process.env.S3_ACCESS_KEY_ID || !process.env.S3_SECRET_ACCESS_KEY) {
+        throw new Error("FILE_STORE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+      }
+      return new S3FileStore({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+          ? process.env.S3_FORCE_PATH_STYLE === "true"
+          : !!process.env.S3_ENDPOINT,
+      });
+    default:
+      throw new Error(`Unknown FILE_STORE "${kind}"`);
+  }
+}
+
+export const fileStore = createFileStore();
@@ -0,0 +1,98 @@
+import type { SessionOccurrence } from "@shared/types";
+import { APP_URL } from "./mail";
+
+export interface CalendarEvent {
+  session: SessionOccurrence;
+  groupName?: string;
+}
+
+// Commas, semicolons, backslashes and newlines must be escaped in TEXT values (RFC 5545 3.3.11)
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string) {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  Array.from(line).forEach((char) => {
+    const charBytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  });
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+// UTC date-time form, e.g. 20250301T143000Z
+function formatDate(date: Date | string) {
+  return new Date(date).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function renderEvent({ session, groupName }: CalendarEvent, stamp: string): string[] {
+  const description = [
+    session.description,
+    groupName && `Study group: ${groupName}`,
+    session.meetingLink && `Join online: ${session.meetingLink}`,
+  ].filter(Boolean).join("\n");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    // Stable across exports so re-importing or refreshing a feed updates the event in place
+    session.recurrence
+      ? `UID:session-${session.id}-${formatDate(session.occurrenceStart)}@studysphere`
+      : `UID:session-${session.id}@studysphere`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDate(session.startTime)}`,
+    `DTEND:${formatDate(session.endTime)}`,
+    `SUMMARY:${escapeText(session.title)}`,
+  ];
+
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+
+  const location = session.location || session.meetingLink;
+  if (location) {
+    lines.push(`LOCATION:${escapeText(location)}`);
+  }
+
+  lines.push(`URL:${session.meetingLink || `${APP_URL}/groups/${session.groupId}`}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Renders study sessions as an iCalendar (RFC 5545) document, used for both
+ * single session downloads and the subscribable per-user feed. Recurring
+ * sessions are passed in already expanded, one event per occurrence.
+ */
+export function renderCalendar(events: CalendarEvent[], name = "StudySphere Sessions"): string {
+  const stamp = formatDate(new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//StudySphere//Study Sessions//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => renderEvent(event, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
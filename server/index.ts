@@ -1,12 +1,15 @@
 import path from "path";
 import express, { Request, Response, NextFunction } from "express";
-import { IStorage, MemStorage } from "./storage";
+import { storage, DatabaseStorage } from "./storage";
 import { setupAuth } from "./auth";
 import { setupVite, serveStatic, log } from "./vite";
 import { registerRoutes } from "./routes";
 import { hashPassword } from "./utils";
-
-export const storage = new MemStorage();
+import { startEmailDigests } from "./notifications";
+import { startSessionReminders } from "./reminders";
+import { startTextExtraction } from "./text-extraction";
+import { migrateLegacyUploads } from "./legacy-uploads";
+import { hashExistingPapers } from "./duplicates";
 
 // Create an Express app
 const app = express();
@@ -94,8 +97,20 @@ async function bootstrap() {
     serveStatic(app);
   }
   
+  // Embedded databases need their tables created before first use
+  if (storage instanceof DatabaseStorage) {
+    await storage.ensureSchema();
+  }
+  
   // Create some initial seed data
   await createSeedData();
+  await migrateLegacyUploads();
+  
+  // Background jobs read from storage, so they start once it is ready
+  startEmailDigests();
+  startSessionReminders();
+  startTextExtraction();
+  hashExistingPapers().catch((error) => console.error("Error hashing existing papers:", error));
   
   // ALWAYS serve the app on port 5000
   // this serves both the API and the client.
@@ -113,7 +128,7 @@ async function bootstrap() {
 async function createSeedData() {
   try {
     // Only create seed data if we don't have any users yet
-    const users = Array.from(storage.users.values());
+    const users = await storage.getAllUsers();
     if (users.length === 0) {
       console.log('Creating seed data...');
       
@@ -174,4 +189,4 @@ bootstrap().catch(err => {
   console.error("Failed to start server:", err);
 });
 
-export { app, server };
+export { app, server, storage };
@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { fileStore, LocalFileStore } from "./file-store";
+
+// Papers uploaded before the file store kept a public path here
+const LEGACY_PREFIX = "/uploads/";
+const legacyUploadsDir = path.join(process.cwd(), "uploads");
+
+/**
+ * Moves files of papers that still point at /uploads/<name> into the file
+ * store under papers/<name> and stores the key instead. Papers whose file
+ * is gone from disk are left alone; a failed move is retried on the next start.
+ */
+export async function migrateLegacyUploads(): Promise<void> {
+  const legacyPapers = (await storage.getPapers()).filter((paper) => paper.fileUrl.startsWith(LEGACY_PREFIX));
+
+  for (const paper of legacyPapers) {
+    const fileName = path.basename(paper.fileUrl);
+    const filePath = path.join(legacyUploadsDir, fileName);
+    if (!fs.existsSync(filePath)) continue;
+
+    try {
+      const data = await fs.promises.readFile(filePath);
+      const key = `papers/${fileName}`;
+      await fileStore.put(key, data);
+      await storage.updatePaper(paper.id, { fileUrl: key });
+      // Unless UPLOADS_DIR points the local store at the very same file
+      if (!(fileStore instanceof LocalFileStore) || fileStore.filePath(key) !== filePath) {
+        await fs.promises.rm(filePath);
+      }
+    } catch (error) {
+      console.error(`Error moving file of paper ${paper.id} to the file store:`, error);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { format } from "date-fns";
+import type { Notification } from "@shared/schema";
+import { APP_URL, type MailMessage } from "./mail";
+
+export type MailContent = Omit<MailMessage, "to">;
+
+interface EmailLayout {
+  recipientName: string;
+  subject: string;
+  paragraphs: string[];
+  action?: { label: string; path: string };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function excerpt(text: string, length = 200) {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+// Every email shares the same greeting, body and call-to-action layout
+function renderEmail({ recipientName, subject, paragraphs, action }: EmailLayout): MailContent {
+  const actionUrl = action && `${APP_URL}${action.path}`;
+  const footer = "You can change which emails you receive in StudySphere under Settings > Notifications.";
+
+  const text = [
+    `Hi ${recipientName},`,
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${actionUrl}`] : []),
+    "--",
+    footer,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <div style="max-width: 560px; margin: 0 auto; padding: 24px;">
+      <h2 style="margin-top: 0;">StudySphere</h2>
+      <p>Hi ${escapeHtml(recipientName)},</p>
+      ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("\n      ")}
+      ${action
+        ? `<p><a href="${escapeHtml(actionUrl!)}" style="display: inline-block; padding: 10px 16px; background: #1e293b; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(action.label)}</a></p>`
+        : ""}
+      <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;" />
+      <p style="font-size: 12px; color: #6b7280;">${escapeHtml(footer)}</p>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export function sessionReminderEmail(data: {
+  recipientName: string;
+  sessionTitle: string;
+  groupName: string;
+  groupId: number;
+  startTime: Date;
+  location?: string | null;
+  meetingLink?: string | null;
+}): MailContent {
+  const when = format(data.startTime, "EEEE, MMMM d 'at' h:mm a");
+  const where = data.meetingLink
+    ? `Join online: ${data.meetingLink}`
+    : data.location
+      ? `Location: ${data.location}`
+      : undefined;
+
+  return renderEmail({
+    recipientName: data.recipientName,
+    subject: `Reminder: ${data.sessionTitle} starts ${when}`,
+    paragraphs: [
+      `Your ${data.groupName} study session "${data.sessionTitle}" starts ${when}.`,
+      ...(where ? [where] : []),
+    ],
+    action: { label: "View session", path: `/groups/${data.groupId}` },
+  });
+}
+
+export function discussionReplyEmail(data: {
+  recipientName: string;
+  authorName: string;
+  postTitle: string;
+  postId: number;
+  replyContent: string;
+}): MailContent {
+  return renderEmail({
+    recipientName: data.recipientName,
+    subject: `${data.authorName} replied to "${data.postTitle}"`,
+    paragraphs: [
+      `${data.authorName} replied to your discussion "${data.postTitle}":`,
+      excerpt(data.replyContent),
+    ],
+    action: { label: "View the discussion", path: `/discussions/${data.postId}` },
+  });
+}
+
+export function friendRequestEmail(data: {
+  recipientName: string;
+  senderName: string;
+}): MailContent {
+  return renderEmail({
+    recipientName: data.recipientName,
+    subject: `${data.senderName} wants to connect on StudySphere`,
+    paragraphs: [`${data.senderName} sent you a friend request.`],
+    action: { label: "Review the request", path: "/friends" },
+  });
+}
+
+// Batches the notifications a user received over the digest period
+export function digestEmail(data: {
+  recipientName: string;
+  frequency: "daily" | "weekly";
+  notifications: Notification[];
+}): MailContent {
+  const period = data.frequency === "daily" ? "today" : "this week";
+  const count = data.notifications.length;
+
+  return renderEmail({
+    recipientName: data.recipientName,
+    subject: `Your ${data.frequency} StudySphere digest: ${count} update${count === 1 ? "" : "s"}`,
+    paragraphs: [
+      `Here's what happened ${period}:`,
+      ...data.notifications.map((notification) =>
+        `• ${notification.title}: ${excerpt(notification.message, 140)}`
+      ),
+    ],
+    action: { label: "Open StudySphere", path: "/dashboard" },
+  });
+}
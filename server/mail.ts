@@ -0,0 +1,90 @@
+import nodemailer from "nodemailer";
+import fs from "fs";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Anything that can deliver a rendered message
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "StudySphere <no-reply@studysphere.local>";
+
+// Base URL used for links inside emails
+export const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+// Delivers through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+export class SmtpTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587"),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+// Writes each message as an .eml file, which any mail client can open
+export class FileTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage) {
+    const info = await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${Math.round(Math.random() * 1e9)}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, fileName), info.message as Buffer);
+  }
+}
+
+// Prints messages to the server log
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Picks a transport from MAIL_TRANSPORT ("smtp", "file" or "console").
+ * Without it, SMTP is used when SMTP_HOST is set and the console otherwise.
+ */
+export function createMailTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+
+  switch (kind) {
+    case "smtp":
+      return new SmtpTransport();
+    case "file":
+      return new FileTransport(path.resolve(process.env.MAIL_DIR || "mail-outbox"));
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+export const mailTransport = createMailTransport();
+
+// Sends a message, logging failures instead of throwing
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await mailTransport.send(message);
+    return true;
+  } catch (error) {
+    console.error(`Error sending "${message.subject}" to ${message.to}:`, error);
+    return false;
+  }
+}
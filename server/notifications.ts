@@ -0,0 +1,115 @@
+import {
+  defaultNotificationPreferences,
+  type InsertNotification,
+  type NotificationPreferences,
+  type NotificationType,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { publishToUsers } from "./realtime";
+import { sendMail } from "./mail";
+import { digestEmail, type MailContent } from "./mail-templates";
+
+// The settings switch that controls each notification type.
+// Types without an entry are always delivered.
+const PREFERENCE_FOR_TYPE: Partial<Record<NotificationType, keyof NotificationPreferences>> = {
+  discussion_reply: "discussionReplies",
+  group_session: "studySessionReminders",
+  session_reminder: "studySessionReminders",
+};
+
+// Notification types that are also sent by email, either right away or in a digest
+const EMAIL_TYPES: NotificationType[] = ["discussion_reply", "friend_request", "session_reminder"];
+
+const DIGEST_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+const DIGEST_PERIODS = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Users who never saved their settings get the defaults
+export function getNotificationPreferences(user: User): NotificationPreferences {
+  return { ...defaultNotificationPreferences, ...user.notificationPreferences };
+}
+
+/**
+ * Stores a notification for each recipient whose preferences allow it and
+ * pushes it to their open tabs. When an email template is given, recipients
+ * with email notifications on get it right away unless they chose a digest.
+ * Failures are logged rather than thrown so a notification problem never
+ * fails the request that caused it.
+ */
+export async function notifyUsers(
+  userIds: number[],
+  notification: Omit<InsertNotification, "userId">,
+  email?: (recipient: User) => MailContent
+): Promise<void> {
+  const preference = PREFERENCE_FOR_TYPE[notification.type];
+
+  await Promise.all(userIds.map(async (userId) => {
+    try {
+      const recipient = await storage.getUser(userId);
+      if (!recipient) return;
+
+      const preferences = getNotificationPreferences(recipient);
+      if (preference && !preferences[preference]) return;
+
+      const created = await storage.createNotification({ ...notification, userId });
+      publishToUsers([userId], { type: "notification", notification: created });
+
+      if (email && preferences.emailNotifications && preferences.emailDigest === "off") {
+        await sendMail({ to: recipient.email, ...email(recipient) });
+      }
+    } catch (error) {
+      console.error(`Error sending ${notification.type} notification to user ${userId}:`, error);
+    }
+  }));
+}
+
+/**
+ * Emails a digest to every user whose daily or weekly period has passed,
+ * covering the email-worthy notifications since their previous digest.
+ */
+export async function sendDueDigests(now = new Date()): Promise<void> {
+  const users = await storage.getAllUsers();
+
+  for (const user of users) {
+    const preferences = getNotificationPreferences(user);
+    if (!preferences.emailNotifications || preferences.emailDigest === "off") continue;
+
+    const period = DIGEST_PERIODS[preferences.emailDigest];
+    const lastDigestAt = user.lastDigestAt ? new Date(user.lastDigestAt) : null;
+    if (lastDigestAt && now.getTime() - lastDigestAt.getTime() < period) continue;
+
+    try {
+      const since = lastDigestAt ?? new Date(now.getTime() - period);
+      const items = (await storage.getNotificationsSince(user.id, since))
+        .filter((notification) => EMAIL_TYPES.includes(notification.type));
+
+      if (items.length > 0) {
+        await sendMail({
+          to: user.email,
+          ...digestEmail({
+            recipientName: user.displayName || user.username,
+            frequency: preferences.emailDigest,
+            notifications: items,
+          }),
+        });
+      }
+
+      await storage.updateUserLastDigest(user.id, now);
+    } catch (error) {
+      console.error(`Error sending digest to user ${user.id}:`, error);
+    }
+  }
+}
+
+export function startEmailDigests() {
+  const timer = setInterval(() => {
+    sendDueDigests().catch((error) => console.error("Error sending email digests:", error));
+  }, DIGEST_CHECK_INTERVAL);
+
+  // Don't keep the process alive just for digests
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,69 @@
+import type { Paper, PaperVersion } from "@shared/schema";
+import { storage } from "./storage";
+import { fileStore } from "./file-store";
+import { deletePaperPreview } from "./previews";
+import { removeFromSearch } from "./search";
+
+/*
+ * Replacement uploads. A paper's own `fileUrl` and `version` always point at
+ * the latest file; earlier files stay in the file store, listed in
+ * paper_versions. Papers that were never replaced have no rows at all.
+ */
+
+// The original upload, as a version row would record it
+function originalVersion(paper: Paper): Omit<PaperVersion, "id"> {
+  return {
+    paperId: paper.id,
+    version: 1,
+    fileUrl: paper.fileUrl,
+    changeNote: null,
+    uploadedBy: paper.uploaderId,
+    createdAt: paper.uploadDate,
+  };
+}
+
+// Every file the paper has had, newest first
+export async function getVersionHistory(paper: Paper): Promise<Omit<PaperVersion, "id">[]> {
+  const versions = await storage.getPaperVersions(paper.id);
+  return versions.length > 0 ? versions : [originalVersion(paper)];
+}
+
+// The file of one version of the paper, or undefined if it has no such version
+export async function getVersionFileUrl(paper: Paper, version: number): Promise<string | undefined> {
+  if (version === paper.version) return paper.fileUrl;
+  const paperVersion = await storage.getPaperVersion(paper.id, version);
+  return paperVersion?.fileUrl;
+}
+
+/**
+ * Makes an already stored file the paper's latest version, numbered after
+ * whatever the latest is when it lands. Returns undefined if the paper is
+ * gone; the file is deleted again whenever it doesn't become a version.
+ */
+export async function addPaperVersion(
+  paper: Paper,
+  { contentHash, ...file }: { fileUrl: string; contentHash: string; changeNote?: string | null; uploadedBy: number },
+): Promise<Paper | undefined> {
+  const deleteFile = () => fileStore.delete(file.fileUrl)
+    .catch((error) => console.error(`Failed to delete unused file ${file.fileUrl}:`, error));
+
+  try {
+    const updated = await storage.addPaperVersion(paper.id, file, contentHash);
+    if (!updated) await deleteFile();
+    return updated;
+  } catch (error) {
+    await deleteFile();
+    throw error;
+  }
+}
+
+// Deletes a paper with every file it has had and their previews
+export async function deletePaperAndFiles(paper: Paper): Promise<void> {
+  const versions = await getVersionHistory(paper);
+  await storage.deletePaper(paper.id);
+  removeFromSearch("paper", paper.id);
+
+  await Promise.all(versions.map(({ fileUrl }) =>
+    Promise.all([fileStore.delete(fileUrl), deletePaperPreview({ ...paper, fileUrl })])
+  )).catch((error) => console.error(`Failed to delete files of paper ${paper.id}:`, error));
+}
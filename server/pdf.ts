@@ -0,0 +1,21 @@
+import path from "path";
+import { createRequire } from "module";
+
+// Fonts PDFs use without embedding them
+const STANDARD_FONTS_URL =
+  path.join(path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json")), "standard_fonts") + "/";
+
+/**
+ * Opens a PDF with pdf.js, which is loaded with the first file as only
+ * previews and text extraction need it. Destroy the document when done.
+ */
+export async function openPdf(data: Buffer) {
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  return getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    standardFontDataUrl: STANDARD_FONTS_URL,
+    // Broken files fail extraction on their own; pdf.js needn't log how it coped
+    verbosity: 0,
+  }).promise;
+}
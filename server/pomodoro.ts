@@ -0,0 +1,289 @@
+import { z } from "zod";
+import {
+  POMODORO_LONG_BREAK_INTERVAL,
+  POMODORO_PHASE_MINUTES,
+  type GroupTimer,
+  type PomodoroAction,
+  type PomodoroPhase,
+} from "@shared/schema";
+import type { PomodoroRoom } from "@shared/types";
+import { storage } from "./storage";
+import { realtimeEvents, publishToUsers } from "./realtime";
+
+type TimerState = Pick<GroupTimer, "phase" | "status" | "phaseEndsAt" | "remainingSeconds" | "completedFocusBlocks" | "startedBy">;
+
+// Members with the group page open, with the number of tabs each has open
+const viewers = new Map<number, Map<number, number>>();
+
+// Broadcasts scheduled for the end of the running phase, per group
+const phaseEndTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+// Last pending change per group, so changes run one at a time and a block is counted once
+const pendingChanges = new Map<number, Promise<unknown>>();
+
+const presenceEventSchema = z.object({
+  type: z.literal("pomodoro_presence"),
+  groupId: z.number().int().positive(),
+  isViewing: z.boolean(),
+});
+
+function phaseSeconds(phase: PomodoroPhase) {
+  return POMODORO_PHASE_MINUTES[phase] * 60;
+}
+
+function idleState(phase: PomodoroPhase, completedFocusBlocks: number): TimerState {
+  return {
+    phase,
+    status: "idle",
+    phaseEndsAt: null,
+    remainingSeconds: null,
+    completedFocusBlocks,
+    startedBy: null,
+  };
+}
+
+function breakAfter(completedFocusBlocks: number): PomodoroPhase {
+  return completedFocusBlocks % POMODORO_LONG_BREAK_INTERVAL === 0 ? "longBreak" : "shortBreak";
+}
+
+/**
+ * Moves a running timer past phases that ended before `now`. A finished
+ * focus block is counted and its break starts right away; a finished break
+ * leaves the timer idle so the group starts the next block together instead
+ * of it running on while nobody is around.
+ */
+function advanceState(state: TimerState, now: Date): { state: TimerState; focusBlockCompleted: boolean } {
+  if (state.status !== "running" || !state.phaseEndsAt || state.phaseEndsAt > now) {
+    return { state, focusBlockCompleted: false };
+  }
+
+  if (state.phase !== "focus") {
+    return { state: idleState("focus", state.completedFocusBlocks), focusBlockCompleted: false };
+  }
+
+  const completedFocusBlocks = state.completedFocusBlocks + 1;
+  const phase = breakAfter(completedFocusBlocks);
+  // The break is timed from when the block ended, not from when we noticed
+  const next: TimerState = {
+    ...state,
+    phase,
+    completedFocusBlocks,
+    phaseEndsAt: new Date(state.phaseEndsAt.getTime() + phaseSeconds(phase) * 1000),
+  };
+  return { state: advanceState(next, now).state, focusBlockCompleted: true };
+}
+
+// Actions that don't apply to the current state (e.g. pausing an idle timer) change nothing
+function applyAction(state: TimerState, action: PomodoroAction, userId: number, now: Date): TimerState {
+  switch (action) {
+    case "start": {
+      if (state.status === "running") return state;
+      const seconds = state.status === "paused" && state.remainingSeconds
+        ? state.remainingSeconds
+        : phaseSeconds(state.phase);
+      return {
+        ...state,
+        status: "running",
+        phaseEndsAt: new Date(now.getTime() + seconds * 1000),
+        remainingSeconds: null,
+        startedBy: userId,
+      };
+    }
+    case "pause": {
+      if (state.status !== "running" || !state.phaseEndsAt) return state;
+      return {
+        ...state,
+        status: "paused",
+        phaseEndsAt: null,
+        remainingSeconds: Math.max(1, Math.ceil((state.phaseEndsAt.getTime() - now.getTime()) / 1000)),
+      };
+    }
+    case "reset":
+      return idleState("focus", state.completedFocusBlocks);
+    case "skip": {
+      // A skipped focus block isn't counted
+      if (state.phase !== "focus") return idleState("focus", state.completedFocusBlocks);
+      const phase = breakAfter(state.completedFocusBlocks + 1);
+      if (state.status !== "running") return idleState(phase, state.completedFocusBlocks);
+      return {
+        ...state,
+        phase,
+        phaseEndsAt: new Date(now.getTime() + phaseSeconds(phase) * 1000),
+      };
+    }
+  }
+}
+
+function runInOrder<T>(groupId: number, change: () => Promise<T>): Promise<T> {
+  const run = (pendingChanges.get(groupId) ?? Promise.resolve()).then(change, change);
+  const cleanup = () => {
+    if (pendingChanges.get(groupId) === run) pendingChanges.delete(groupId);
+  };
+  pendingChanges.set(groupId, run);
+  run.then(cleanup, cleanup);
+  return run;
+}
+
+// Completed focus blocks count as study time for everyone who had the room open
+async function logFocusBlock(groupId: number) {
+  const participantIds = Array.from(viewers.get(groupId)?.keys() ?? []);
+  if (participantIds.length === 0) return;
+
+  const group = await storage.getStudyGroup(groupId);
+  await Promise.all(participantIds.map((userId) =>
+    storage.createStudyLogEntry({
+      userId,
+      subject: group?.course || group?.name || "Group focus block",
+      durationMinutes: POMODORO_PHASE_MINUTES.focus,
+      source: "timer",
+    })
+  ));
+}
+
+async function buildRoom(groupId: number, state: TimerState, now: Date): Promise<PomodoroRoom> {
+  const participantIds = Array.from(viewers.get(groupId)?.keys() ?? []);
+  const participants = await Promise.all(participantIds.map(async (userId) => {
+    const user = await storage.getUser(userId);
+    return { id: userId, name: user?.displayName || user?.username || "Unknown" };
+  }));
+
+  return {
+    groupId,
+    ...state,
+    phaseSeconds: phaseSeconds(state.phase),
+    participants,
+    serverTime: now,
+  };
+}
+
+async function publishRoom(room: PomodoroRoom) {
+  const members = await storage.getStudyGroupMembers(room.groupId);
+  publishToUsers(members.map((member) => member.userId), { type: "pomodoro", room });
+}
+
+function schedulePhaseEnd(groupId: number, state: TimerState, now: Date) {
+  clearTimeout(phaseEndTimers.get(groupId));
+  phaseEndTimers.delete(groupId);
+  if (state.status !== "running" || !state.phaseEndsAt) return;
+
+  phaseEndTimers.set(groupId, setTimeout(() => {
+    phaseEndTimers.delete(groupId);
+    getPomodoroRoom(groupId).catch((error) => {
+      console.error("Error advancing group timer:", error);
+    });
+  }, Math.max(0, state.phaseEndsAt.getTime() - now.getTime())));
+}
+
+/**
+ * Reads the group's timer, catching it up with phases that ended since it
+ * was last looked at, and saves the state given by `change` if there is one.
+ * Members are sent the room whenever the timer moved on or, with
+ * `participantsChanged`, someone joined or left it.
+ */
+function updateTimer(
+  groupId: number,
+  now: Date,
+  change?: (state: TimerState) => TimerState,
+  participantsChanged = false
+): Promise<PomodoroRoom> {
+  return runInOrder(groupId, async () => {
+    const timer = await storage.getGroupTimer(groupId);
+    const stored: TimerState = timer
+      ? {
+          phase: timer.phase,
+          status: timer.status,
+          phaseEndsAt: timer.phaseEndsAt,
+          remainingSeconds: timer.remainingSeconds,
+          completedFocusBlocks: timer.completedFocusBlocks,
+          startedBy: timer.startedBy,
+        }
+      : idleState("focus", 0);
+    const { state: advanced, focusBlockCompleted } = advanceState(stored, now);
+    const state = change ? change(advanced) : advanced;
+
+    if (focusBlockCompleted) {
+      await logFocusBlock(groupId);
+    }
+
+    if (state !== stored) {
+      await storage.saveGroupTimer({ groupId, ...state });
+    }
+    schedulePhaseEnd(groupId, state, now);
+
+    const room = await buildRoom(groupId, state, now);
+    if (state !== stored || participantsChanged) {
+      await publishRoom(room);
+    }
+    return room;
+  });
+}
+
+export function getPomodoroRoom(groupId: number, now = new Date()): Promise<PomodoroRoom> {
+  return updateTimer(groupId, now);
+}
+
+export function applyPomodoroAction(
+  groupId: number,
+  userId: number,
+  action: PomodoroAction,
+  now = new Date()
+): Promise<PomodoroRoom> {
+  return updateTimer(groupId, now, (state) => applyAction(state, action, userId, now));
+}
+
+function publishParticipants(groupId: number) {
+  return updateTimer(groupId, new Date(), undefined, true);
+}
+
+async function setViewing(userId: number, groupId: number, isViewing: boolean) {
+  if (isViewing) {
+    const members = await storage.getStudyGroupMembers(groupId);
+    if (!members.some((member) => member.userId === userId)) return;
+  }
+
+  // Read after the membership check, as other tabs may have joined or left meanwhile
+  const groupViewers = viewers.get(groupId) ?? new Map<number, number>();
+  if (!isViewing && !groupViewers.has(userId)) return;
+
+  const tabs = (groupViewers.get(userId) ?? 0) + (isViewing ? 1 : -1);
+
+  if (tabs > 0) {
+    groupViewers.set(userId, tabs);
+    viewers.set(groupId, groupViewers);
+  } else {
+    groupViewers.delete(userId);
+    if (groupViewers.size === 0) viewers.delete(groupId);
+  }
+
+  // Joining or leaving with one of several tabs doesn't change the participant list
+  if (tabs > 1 || (tabs === 1 && !isViewing)) return;
+  await publishParticipants(groupId);
+}
+
+export function setupPomodoro() {
+  realtimeEvents.on("message", (userId: number, data: unknown) => {
+    const result = presenceEventSchema.safeParse(data);
+    if (!result.success) return;
+
+    setViewing(userId, result.data.groupId, result.data.isViewing).catch((error) => {
+      console.error("Error updating group timer participants:", error);
+    });
+  });
+
+  // Closed sockets don't say goodbye, so a user going offline leaves every room
+  realtimeEvents.on("offline", (userId: number) => {
+    const groupIds: number[] = [];
+    viewers.forEach((groupViewers, groupId) => {
+      if (groupViewers.has(userId)) groupIds.push(groupId);
+    });
+
+    groupIds.forEach((groupId) => {
+      viewers.get(groupId)?.delete(userId);
+      if (viewers.get(groupId)?.size === 0) viewers.delete(groupId);
+
+      publishParticipants(groupId).catch((error) => {
+        console.error("Error updating group timer participants:", error);
+      });
+    });
+  });
+}
@@ -0,0 +1,128 @@
+import type { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { realtimeEvents, isUserConnected, publishToUsers } from "./realtime";
+
+// Last activity is kept in memory and only written to storage this often per user
+const PERSIST_INTERVAL = 60 * 1000; // 1 minute
+
+const lastActive = new Map<number, Date>();
+const lastPersisted = new Map<number, number>();
+
+const chatTargetSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("group"), groupId: z.number().int().positive() }),
+  z.object({ kind: z.literal("direct"), userId: z.number().int().positive() }),
+]);
+
+const typingEventSchema = z.object({
+  type: z.literal("typing"),
+  target: chatTargetSchema,
+  isTyping: z.boolean(),
+});
+
+/**
+ * Records that a user did something just now. Writes to storage are
+ * throttled unless `persist` is set (e.g. when the user goes offline).
+ */
+export function recordActivity(userId: number, persist = false) {
+  const now = new Date();
+  lastActive.set(userId, now);
+
+  if (!persist && now.getTime() - (lastPersisted.get(userId) ?? 0) < PERSIST_INTERVAL) {
+    return;
+  }
+
+  lastPersisted.set(userId, now.getTime());
+  storage.updateUserLastActive(userId, now).catch((error) => {
+    console.error("Error saving last activity:", error);
+  });
+}
+
+/**
+ * Online status and last activity for a user. `storedLastActive` is the
+ * value from storage, used when the user hasn't been seen since startup.
+ */
+export function getPresence(userId: number, storedLastActive?: Date | null) {
+  return {
+    isOnline: isUserConnected(userId),
+    lastActive: lastActive.get(userId) ?? storedLastActive ?? undefined,
+  };
+}
+
+// Express middleware: any authenticated API request counts as activity
+export function trackActivity(req: Request, _res: Response, next: NextFunction) {
+  if (req.isAuthenticated() && req.user) {
+    recordActivity(req.user.id);
+  }
+  next();
+}
+
+async function broadcastPresence(userId: number) {
+  const friends = await storage.getFriends(userId);
+  publishToUsers(friends.map((friend) => friend.friendId), {
+    type: "presence",
+    userId,
+    ...getPresence(userId),
+  });
+}
+
+async function handleTyping(userId: number, event: z.infer<typeof typingEventSchema>) {
+  const user = await storage.getUser(userId);
+  if (!user) return;
+
+  const userName = user.displayName || user.username;
+  const { target, isTyping } = event;
+
+  if (target.kind === "group") {
+    const memberIds = (await storage.getStudyGroupMembers(target.groupId))
+      .map((member) => member.userId);
+    if (!memberIds.includes(userId)) return;
+
+    publishToUsers(memberIds.filter((memberId) => memberId !== userId), {
+      type: "typing",
+      target,
+      userId,
+      userName,
+      isTyping,
+    });
+    return;
+  }
+
+  // Like direct messages themselves, typing is only shown to friends
+  if (target.userId === userId || !(await storage.checkFriendship(userId, target.userId))) return;
+
+  // The receiver sees this as their conversation with the sender
+  publishToUsers([target.userId], {
+    type: "typing",
+    target: { kind: "direct", userId },
+    userId,
+    userName,
+    isTyping,
+  });
+}
+
+export function setupPresence() {
+  realtimeEvents.on("online", (userId: number) => {
+    recordActivity(userId);
+    broadcastPresence(userId).catch((error) => {
+      console.error("Error broadcasting presence:", error);
+    });
+  });
+
+  realtimeEvents.on("offline", (userId: number) => {
+    recordActivity(userId, true);
+    broadcastPresence(userId).catch((error) => {
+      console.error("Error broadcasting presence:", error);
+    });
+  });
+
+  realtimeEvents.on("message", (userId: number, data: unknown) => {
+    const result = typingEventSchema.safeParse(data);
+    if (!result.success) return;
+
+    recordActivity(userId);
+    handleTyping(userId, result.data).catch((error) => {
+      console.error("Error handling typing event:", error);
+    });
+  });
+}
@@ -0,0 +1,316 @@
+import path from "path";
+import type { Response } from "express";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import type { Paper } from "@shared/schema";
+import type { PaperPreview } from "@shared/types";
+import { storage } from "./storage";
+import { fileStore } from "./file-store";
+import { openPdf } from "./pdf";
+import { extractTextPages } from "./text-extraction";
+
+/*
+ * Previews of uploaded papers. PDFs are drawn in the browser from the file
+ * itself; Word, PowerPoint and text files are flowed onto pages drawn as SVG
+ * from their text; images are their own preview. Every paper also gets a
+ * PNG thumbnail of its first page. Previews are built in the background,
+ * one at a time, and kept in the file store next to the file they were
+ * built from.
+ */
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png"];
+
+// Thumbnails are this wide, in pixels, and as tall as the page makes them
+const THUMBNAIL_WIDTH = 240;
+
+interface TextRun {
+  x: number;
+  // Baseline
+  y: number;
+  fontSize: number;
+  text: string;
+}
+
+interface PageLayout {
+  width: number;
+  height: number;
+  runs: TextRun[];
+}
+
+interface SheetStyle {
+  width: number;
+  height: number;
+  margin: number;
+  fontSize: number;
+}
+
+// Converted documents go on A4 pages, slides on 16:9 ones, sizes in points
+const DOCUMENT_SHEET: SheetStyle = { width: 595, height: 842, margin: 56, fontSize: 11 };
+const SLIDE_SHEET: SheetStyle = { width: 720, height: 405, margin: 36, fontSize: 20 };
+
+// Text is shrunk this far to fit a page before the rest is cut off
+const MIN_FONT_SIZE = 6;
+const LINE_HEIGHT = 1.4;
+// Average character width relative to the font size, for wrapping
+const CHAR_WIDTH = 0.5;
+
+// Splits a line into lines of at most `maxChars`, between words where possible
+function wrapLine(line: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  line.split(" ").forEach((word) => {
+    while (word.length > maxChars) {
+      if (current) lines.push(current);
+      current = "";
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+    }
+    if (current && current.length + 1 + word.length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+const wrapText = (text: string, fontSize: number, sheet: SheetStyle) => {
+  const maxChars = Math.max(1, Math.floor((sheet.width - 2 * sheet.margin) / (fontSize * CHAR_WIDTH)));
+  return text.split("\n").flatMap((line) => wrapLine(line, maxChars));
+};
+
+const linesPerSheet = (fontSize: number, sheet: SheetStyle) =>
+  Math.max(1, Math.floor((sheet.height - 2 * sheet.margin) / (fontSize * LINE_HEIGHT)));
+
+function sheetLayout(lines: string[], fontSize: number, sheet: SheetStyle): PageLayout {
+  const runs: TextRun[] = lines.map((text, i) => ({
+    x: sheet.margin,
+    // The first baseline is a font size below the top margin
+    y: sheet.margin + fontSize + i * fontSize * LINE_HEIGHT,
+    fontSize,
+    text,
+  }));
+  return { width: sheet.width, height: sheet.height, runs };
+}
+
+/**
+ * Lays text pages out on sheets. A file without page breaks runs over as
+ * many sheets as it needs; otherwise each page gets one sheet, so page
+ * numbers match search results, and its text shrinks to fit.
+ */
+function flowPages(pages: string[], sheet: SheetStyle): PageLayout[] {
+  if (pages.length === 1) {
+    const lines = wrapText(pages[0], sheet.fontSize, sheet);
+    const perSheet = linesPerSheet(sheet.fontSize, sheet);
+    const sheets: PageLayout[] = [];
+    for (let i = 0; i < Math.max(lines.length, 1); i += perSheet) {
+      sheets.push(sheetLayout(lines.slice(i, i + perSheet), sheet.fontSize, sheet));
+    }
+    return sheets;
+  }
+
+  return pages.map((text) => {
+    let fontSize = sheet.fontSize;
+    let lines = wrapText(text, fontSize, sheet);
+    while (lines.length > linesPerSheet(fontSize, sheet) && fontSize > MIN_FONT_SIZE) {
+      fontSize = Math.max(MIN_FONT_SIZE, fontSize - 1);
+      lines = wrapText(text, fontSize, sheet);
+    }
+    const perSheet = linesPerSheet(fontSize, sheet);
+    if (lines.length > perSheet) lines = [...lines.slice(0, perSheet - 1), "…"];
+    return sheetLayout(lines, fontSize, sheet);
+  });
+}
+
+// Preview pages of a non-PDF file by extension, or null when files of the kind can't be previewed
+async function layoutPages(extension: string, data: Buffer): Promise<PageLayout[] | null> {
+  const sheet = extension === ".pptx" ? SLIDE_SHEET : DOCUMENT_SHEET;
+  const pages = await extractTextPages(extension, data);
+  return pages && flowPages(pages, sheet);
+}
+
+const XML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", "\"": "&quot;" };
+
+// Escapes text for XML, dropping characters XML doesn't allow at all
+const escapeXml = (text: string) => text
+  .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f\ufffe\uffff]/g, "")
+  .replace(/[&<>"]/g, (c) => XML_ESCAPES[c]);
+
+const round = (n: number) => String(Math.round(n * 10) / 10);
+
+function renderSvg(page: PageLayout): string {
+  const texts = page.runs.map((run) =>
+    `<text x="${round(run.x)}" y="${round(run.y)}" font-size="${round(run.fontSize)}">${escapeXml(run.text)}</text>`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${round(page.width)}" height="${round(page.height)}" ` +
+    `viewBox="0 0 ${round(page.width)} ${round(page.height)}">` +
+    `<rect width="100%" height="100%" fill="#fff"/>` +
+    `<g font-family="Helvetica, Arial, sans-serif" fill="#1f2937" xml:space="preserve">${texts.join("")}</g>` +
+    `</svg>`;
+}
+
+async function renderPdfThumbnail(data: Buffer): Promise<Buffer> {
+  const document = await openPdf(data);
+  try {
+    const page = await document.getPage(1);
+    const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const context = canvas.getContext("2d");
+    context.fillStyle = "#fff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({
+      canvas: canvas as unknown as HTMLCanvasElement,
+      canvasContext: context as unknown as CanvasRenderingContext2D,
+      viewport,
+    }).promise;
+    return canvas.toBuffer("image/png");
+  } finally {
+    await document.destroy();
+  }
+}
+
+// Scales an image, or an SVG page, down to thumbnail width
+async function renderImageThumbnail(data: Buffer): Promise<Buffer> {
+  const image = await loadImage(data);
+  const scale = Math.min(1, THUMBNAIL_WIDTH / image.width);
+  const canvas = createCanvas(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+  const context = canvas.getContext("2d");
+  context.fillStyle = "#fff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toBuffer("image/png");
+}
+
+// Previews live under the key of the file they show, so a new file gets new previews
+const previewKey = (paper: Paper, name: string) => `previews/${paper.fileUrl}/${name}`;
+const MANIFEST = "preview.json";
+const THUMBNAIL = "thumbnail.png";
+
+async function buildPreview(paper: Paper): Promise<PaperPreview> {
+  const extension = path.extname(paper.fileUrl).toLowerCase();
+  const preview: PaperPreview = { kind: "none", pages: [], thumbnail: false };
+  let thumbnail: Buffer | null = null;
+
+  try {
+    const data = await fileStore.get(paper.fileUrl);
+    if (extension === ".pdf") {
+      preview.kind = "pdf";
+      thumbnail = await renderPdfThumbnail(data);
+    } else if (IMAGE_EXTENSIONS.includes(extension)) {
+      preview.kind = "image";
+      thumbnail = await renderImageThumbnail(data);
+    } else {
+      const pages = (await layoutPages(extension, data)) ?? [];
+      for (let i = 0; i < pages.length; i++) {
+        const svg = Buffer.from(renderSvg(pages[i]));
+        await fileStore.put(previewKey(paper, `${i + 1}.svg`), svg, "image/svg+xml");
+        if (i === 0) thumbnail = await renderImageThumbnail(svg);
+      }
+      if (pages.length > 0) preview.kind = "pages";
+      preview.pages = pages.map(({ width, height }) => ({ width: Math.round(width), height: Math.round(height) }));
+    }
+  } catch (error) {
+    // Stored anyway, so a broken file isn't parsed again; PDFs and images still show without a thumbnail
+    console.error(`Error building preview of paper ${paper.id}:`, error);
+  }
+
+  if (thumbnail) {
+    await fileStore.put(previewKey(paper, THUMBNAIL), thumbnail, "image/png");
+    preview.thumbnail = true;
+  }
+  await fileStore.put(previewKey(paper, MANIFEST), Buffer.from(JSON.stringify(preview)), "application/json");
+  return preview;
+}
+
+async function readPreview(paper: Paper): Promise<PaperPreview | null> {
+  const manifestKey = previewKey(paper, MANIFEST);
+  if ((await fileStore.size(manifestKey)) === null) return null;
+  return JSON.parse((await fileStore.get(manifestKey)).toString("utf8"));
+}
+
+const queue: number[] = [];
+let processing = false;
+
+async function processQueue() {
+  processing = true;
+  while (queue.length > 0) {
+    const paperId = queue.shift()!;
+    try {
+      // The paper may have a new file, or be gone, by the time its turn comes
+      const paper = await storage.getPaper(paperId);
+      if (paper && !(await readPreview(paper))) await buildPreview(paper);
+    } catch (error) {
+      console.error(`Error building preview of paper ${paperId}:`, error);
+    }
+    // Rendering is synchronous; let requests through between files
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  processing = false;
+}
+
+/**
+ * Queues a paper's preview to be built. Files are processed one at a time
+ * in the background, so neither uploads nor viewers wait on them.
+ */
+export function queuePaperPreview(paperId: number) {
+  if (!queue.includes(paperId)) queue.push(paperId);
+  if (!processing) processQueue();
+}
+
+// The paper's preview, or a pending one while it's built
+export async function getPaperPreview(paper: Paper): Promise<PaperPreview> {
+  const preview = await readPreview(paper);
+  if (preview) return preview;
+
+  queuePaperPreview(paper.id);
+  return { kind: "pending", pages: [], thumbnail: false };
+}
+
+// Previews never change for a file, and links to them name the version they show
+const PREVIEW_CACHE_CONTROL = "private, max-age=86400";
+
+// Sends one page of a paper's preview (1-based); image papers are their own first page
+export async function sendPreviewPage(res: Response, paper: Paper, pageNumber: number) {
+  const preview = await readPreview(paper);
+
+  if (preview?.kind === "image" && pageNumber === 1) {
+    res.setHeader("Cache-Control", PREVIEW_CACHE_CONTROL);
+    res.type(path.extname(paper.fileUrl));
+    const stream = await fileStore.createReadStream(paper.fileUrl);
+    stream.on("error", (error) => res.destroy(error));
+    return stream.pipe(res);
+  }
+  if (preview?.kind !== "pages" || !(pageNumber >= 1 && pageNumber <= preview.pages.length)) {
+    return res.status(404).send("Preview page not found");
+  }
+
+  const svg = await fileStore.get(previewKey(paper, `${pageNumber}.svg`));
+  res.setHeader("Cache-Control", PREVIEW_CACHE_CONTROL);
+  // Text in the SVG comes from uploads; it must never run as a document of this site
+  res.setHeader("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+  res.type("image/svg+xml").send(svg);
+}
+
+// Sends the PNG thumbnail of a paper's first page, queueing its preview if it isn't built yet
+export async function sendPaperThumbnail(res: Response, paper: Paper) {
+  const preview = await getPaperPreview(paper);
+  if (!preview.thumbnail) {
+    return res.status(404).send("Thumbnail not found");
+  }
+
+  res.setHeader("Cache-Control", PREVIEW_CACHE_CONTROL);
+  res.type("image/png").send(await fileStore.get(previewKey(paper, THUMBNAIL)));
+}
+
+// Removes the stored previews of a paper's file
+export async function deletePaperPreview(paper: Paper): Promise<void> {
+  const preview = await readPreview(paper);
+  if (!preview) return;
+
+  for (let i = 1; i <= preview.pages.length; i++) {
+    await fileStore.delete(previewKey(paper, `${i}.svg`));
+  }
+  if (preview.thumbnail) await fileStore.delete(previewKey(paper, THUMBNAIL));
+  await fileStore.delete(previewKey(paper, MANIFEST));
+}
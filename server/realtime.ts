@@ -0,0 +1,140 @@
+import { WebSocketServer, WebSocket } from "ws";
+import { EventEmitter } from "events";
+import type { IncomingMessage, Server } from "http";
+import type { Request, Response } from "express";
+import { sessionParser } from "./auth";
+import { storage } from "./storage";
+import type { RealtimeEvent } from "@shared/types";
+
+export const REALTIME_PATH = "/ws";
+
+const HEARTBEAT_INTERVAL = 30000; // 30 seconds
+
+// Open sockets per user (one per browser tab)
+const connections = new Map<number, Set<WebSocket>>();
+
+/**
+ * Connection lifecycle and inbound traffic, for features built on top of the socket:
+ * - "online" (userId): the user's first socket opened
+ * - "offline" (userId): the user's last socket closed
+ * - "message" (userId, data): a socket sent a JSON payload (parsed, not validated)
+ */
+export const realtimeEvents = new EventEmitter();
+
+// Resolves the logged-in user id from the express-session cookie on the upgrade request
+function getSessionUserId(req: IncomingMessage): Promise<number | null> {
+  // The session middleware only reads the cookie headers and sets `session`
+  const request = req as Request;
+  return new Promise((resolve) => {
+    sessionParser(request, {} as Response, () => {
+      const userId = request.session?.passport?.user;
+      resolve(typeof userId === "number" ? userId : null);
+    });
+  });
+}
+
+function addConnection(userId: number, socket: WebSocket) {
+  let sockets = connections.get(userId);
+  if (!sockets) {
+    sockets = new Set();
+    connections.set(userId, sockets);
+  }
+  sockets.add(socket);
+  if (sockets.size === 1) {
+    realtimeEvents.emit("online", userId);
+  }
+
+  socket.on("message", (raw) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    realtimeEvents.emit("message", userId, data);
+  });
+
+  // A bad frame (e.g. invalid UTF-8) emits "error"; unhandled, it would take down the process
+  socket.on("error", (error) => {
+    console.error(`WebSocket error for user ${userId}:`, error);
+    socket.terminate();
+  });
+
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) {
+      connections.delete(userId);
+      realtimeEvents.emit("offline", userId);
+    }
+  });
+}
+
+export function isUserConnected(userId: number): boolean {
+  return connections.has(userId);
+}
+
+export function setupRealtime(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+
+    // Leave other upgrade requests (e.g. Vite HMR) to their own handlers
+    if (pathname !== REALTIME_PATH) return;
+
+    try {
+      const userId = await getSessionUserId(req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+
+      if (!user || user.isBanned) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        alive.add(ws);
+        ws.on("pong", () => alive.add(ws));
+        addConnection(user.id, ws);
+      });
+    } catch (error) {
+      console.error("WebSocket upgrade error:", error);
+      socket.destroy();
+    }
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on("error", (error) => console.error("WebSocket server error:", error));
+  wss.on("close", () => clearInterval(heartbeat));
+  httpServer.on("close", () => wss.close());
+
+  return wss;
+}
+
+/**
+ * Sends an event to every open socket of the given users.
+ * Users without an open connection are skipped.
+ */
+export function publishToUsers(userIds: Iterable<number>, event: RealtimeEvent) {
+  const payload = JSON.stringify(event);
+
+  new Set(userIds).forEach((userId) => {
+    connections.get(userId)?.forEach((socket) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    });
+  });
+}
@@ -0,0 +1,231 @@
+import {
+  MAX_SESSION_OCCURRENCES,
+  type InsertStudySessionException,
+  type SessionRecurrence,
+  type StudySession,
+  type StudySessionException,
+} from "@shared/schema";
+import type { SessionOccurrence } from "@shared/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Stops runaway expansion of sparse series, e.g. every 52 weeks with a far away end date
+const MAX_DAYS_SCANNED = 10 * 366;
+
+// Exceptions can move an occurrence, so generation runs a little either side of the requested range
+const MOVED_OCCURRENCE_SLACK = 7 * DAY;
+
+export interface OccurrenceRange {
+  // Occurrences starting after `from` and no later than `to`
+  from?: Date;
+  to?: Date;
+}
+
+interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+// Wall clock time of an instant in the given zone
+function toZoned(date: Date, timeZone: string): ZonedDateTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((part) => part.type === type)!.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+function wallClockAsUtc(zoned: ZonedDateTime) {
+  return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second, zoned.millisecond);
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+function zoneOffset(time: number, timeZone: string) {
+  return wallClockAsUtc(toZoned(new Date(time), timeZone)) - time;
+}
+
+// The instant at which the zone's wall clock shows the given time
+function fromZoned(zoned: ZonedDateTime, timeZone: string): Date {
+  const guess = wallClockAsUtc(zoned);
+  const offset = zoneOffset(guess, timeZone);
+  // The offset can be different on the other side of a DST change
+  const corrected = zoneOffset(guess - offset, timeZone);
+  return new Date(guess - corrected);
+}
+
+// Original start times of every occurrence in the series, up to `limit`
+// and, when `from` is given, from about a day before it
+export function getOccurrenceStarts(
+  firstStart: Date,
+  recurrence: SessionRecurrence,
+  limit?: Date,
+  from?: Date
+): Date[] {
+  const timeZone = recurrence.timeZone || "UTC";
+  const first = toZoned(firstStart, timeZone);
+  const firstDay = Date.UTC(first.year, first.month - 1, first.day);
+  const firstWeekday = new Date(firstDay).getUTCDay();
+  const weekdays = recurrence.weekdays?.length ? recurrence.weekdays : [firstWeekday];
+
+  const until = recurrence.until ? new Date(recurrence.until).getTime() : Infinity;
+  const end = Math.min(until, limit ? limit.getTime() : Infinity);
+  const count = Math.min(recurrence.count ?? MAX_SESSION_OCCURRENCES, MAX_SESSION_OCCURRENCES);
+  // A day of margin covers the zone's offset from UTC
+  const skippedDays = from ? Math.floor((from.getTime() - firstDay) / DAY) - 1 : 0;
+
+  const starts: Date[] = [];
+  let counted = 0;
+  for (let dayIndex = 0; dayIndex < MAX_DAYS_SCANNED && counted < count; dayIndex++) {
+    const day = new Date(firstDay + dayIndex * DAY);
+
+    if (recurrence.frequency === "daily") {
+      if (dayIndex % recurrence.interval !== 0) continue;
+    } else {
+      // Weeks run Sunday to Saturday, counted from the week of the first occurrence
+      const weekIndex = Math.floor((dayIndex + firstWeekday) / 7);
+      if (weekIndex % recurrence.interval !== 0 || !weekdays.includes(day.getUTCDay())) continue;
+    }
+
+    // Occurrences before the range still count towards `count`, but working
+    // out their times in the zone is the slow part, so that is skipped
+    if (dayIndex < skippedDays) {
+      counted++;
+      continue;
+    }
+
+    const start = fromZoned({
+      ...first,
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+    }, timeZone);
+
+    if (start.getTime() > end) break;
+    // Custom weekdays can fall earlier in the first week than the first session
+    if (start.getTime() < firstStart.getTime()) continue;
+    counted++;
+    starts.push(start);
+  }
+
+  return starts;
+}
+
+// Every occurrence of a session with its exceptions applied, cancelled ones left out
+function expandSession(
+  session: StudySession,
+  exceptions: StudySessionException[],
+  limit?: Date,
+  from?: Date
+): SessionOccurrence[] {
+  const firstStart = new Date(session.startTime);
+  const duration = new Date(session.endTime).getTime() - firstStart.getTime();
+  const starts = session.recurrence
+    ? getOccurrenceStarts(firstStart, session.recurrence, limit, from)
+    : [firstStart];
+
+  const exceptionsByStart = new Map(
+    exceptions
+      .filter((exception) => exception.sessionId === session.id)
+      .map((exception) => [new Date(exception.occurrenceStart).getTime(), exception])
+  );
+
+  const occurrences: SessionOccurrence[] = [];
+  starts.forEach((occurrenceStart) => {
+    const exception = exceptionsByStart.get(occurrenceStart.getTime());
+    if (exception?.isCancelled) return;
+
+    occurrences.push({
+      ...session,
+      title: exception?.title ?? session.title,
+      description: exception?.description ?? session.description,
+      startTime: exception?.startTime ?? occurrenceStart,
+      endTime: exception?.endTime ?? new Date(occurrenceStart.getTime() + duration),
+      location: exception?.location ?? session.location,
+      isVirtual: exception?.isVirtual ?? session.isVirtual,
+      meetingLink: exception?.meetingLink ?? session.meetingLink,
+      occurrenceStart,
+      isException: !!exception,
+    });
+  });
+
+  return occurrences;
+}
+
+/**
+ * A series' exceptions carried over to its schedule after an edit. Each
+ * moves with the series' first start, as exceptions are keyed by the
+ * original start of their occurrence; those that no longer land on an
+ * occurrence of the series are dropped.
+ */
+export function rescheduleExceptions(
+  before: StudySession,
+  after: StudySession,
+  exceptions: StudySessionException[]
+): InsertStudySessionException[] {
+  if (!after.recurrence || exceptions.length === 0) return [];
+
+  const firstStart = new Date(after.startTime);
+  const shift = firstStart.getTime() - new Date(before.startTime).getTime();
+  const moved = exceptions.map(({ id: _id, ...exception }) => ({
+    ...exception,
+    occurrenceStart: new Date(new Date(exception.occurrenceStart).getTime() + shift),
+  }));
+
+  const last = new Date(Math.max(...moved.map((exception) => exception.occurrenceStart.getTime())));
+  const starts = new Set(getOccurrenceStarts(firstStart, after.recurrence, last).map((start) => start.getTime()));
+  return moved.filter((exception) => starts.has(exception.occurrenceStart.getTime()));
+}
+
+/**
+ * Expands sessions into their dated occurrences within the range, sorted by
+ * start time. One-off sessions expand to themselves.
+ */
+export function expandSessionOccurrences(
+  sessions: StudySession[],
+  exceptions: StudySessionException[],
+  range: OccurrenceRange = {}
+): SessionOccurrence[] {
+  const limit = range.to && new Date(range.to.getTime() + MOVED_OCCURRENCE_SLACK);
+  const from = range.from && new Date(range.from.getTime() - MOVED_OCCURRENCE_SLACK);
+
+  return sessions
+    .flatMap((session) => expandSession(session, exceptions, limit, from))
+    .filter((occurrence) => {
+      const startTime = new Date(occurrence.startTime).getTime();
+      return (!range.from || startTime > range.from.getTime()) &&
+        (!range.to || startTime <= range.to.getTime());
+    })
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+}
+
+// A single occurrence by its original start, or undefined if the series has no such occurrence
+export function findSessionOccurrence(
+  session: StudySession,
+  exceptions: StudySessionException[],
+  occurrenceStart: Date
+): SessionOccurrence | undefined {
+  return expandSession(session, exceptions, occurrenceStart, occurrenceStart)
+    .find((occurrence) => occurrence.occurrenceStart.getTime() === occurrenceStart.getTime());
+}
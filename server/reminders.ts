@@ -0,0 +1,110 @@
+import { format, formatDistanceStrict } from "date-fns";
+import { storage } from "./storage";
+import { notifyUsers, getNotificationPreferences } from "./notifications";
+import { sessionReminderEmail } from "./mail-templates";
+import { expandSessionOccurrences } from "./recurrence";
+
+// Minutes before a session starts at which members are reminded,
+// configurable as a comma separated list, e.g. SESSION_REMINDER_OFFSETS=1440,15
+const DEFAULT_OFFSETS = [24 * 60, 15];
+const CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+function parseOffsets(value: string | undefined): number[] {
+  const offsets = (value || "")
+    .split(",")
+    .map((offset) => parseInt(offset.trim()))
+    .filter((offset) => offset > 0);
+
+  return offsets.length > 0 ? offsets : DEFAULT_OFFSETS;
+}
+
+export const REMINDER_OFFSETS = parseOffsets(process.env.SESSION_REMINDER_OFFSETS);
+
+/**
+ * Produces the reminders that are due for sessions that haven't started yet.
+ * Everything is worked out from storage, so reminders missed while the server
+ * was down go out on the next run. If several offsets were missed only the
+ * closest one is delivered; the others are recorded as already dismissed.
+ * Each occurrence of a recurring session is reminded about separately.
+ */
+export async function processDueReminders(now = new Date()): Promise<void> {
+  const maxOffset = Math.max(...REMINDER_OFFSETS);
+  const horizon = new Date(now.getTime() + maxOffset * 60 * 1000);
+  const sessions = await storage.getStudySessionsStartingBetween(now, horizon);
+  const exceptions = await storage.getStudySessionExceptions(sessions.map((session) => session.id));
+  const occurrences = expandSessionOccurrences(sessions, exceptions, { from: now, to: horizon });
+
+  for (const occurrence of occurrences) {
+    const startTime = new Date(occurrence.startTime);
+    const minutesUntilStart = (startTime.getTime() - now.getTime()) / (60 * 1000);
+    const dueOffsets = REMINDER_OFFSETS.filter((offset) => offset >= minutesUntilStart);
+    if (dueOffsets.length === 0) continue;
+
+    const deliverOffset = Math.min(...dueOffsets);
+    const [group, members, existing] = await Promise.all([
+      storage.getStudyGroup(occurrence.groupId),
+      storage.getStudyGroupMembers(occurrence.groupId),
+      storage.getSessionReminders(occurrence.id),
+    ]);
+    const produced = new Set(existing
+      .filter((reminder) => new Date(reminder.occurrenceStart).getTime() === occurrence.occurrenceStart.getTime())
+      .map((reminder) => `${reminder.userId}:${reminder.offsetMinutes}`));
+
+    for (const member of members) {
+      const pendingOffsets = dueOffsets.filter((offset) => !produced.has(`${member.userId}:${offset}`));
+      if (pendingOffsets.length === 0) continue;
+
+      // Users who turned reminders off get nothing, and nothing is recorded
+      // so they are still reminded if they switch them back on in time
+      const user = await storage.getUser(member.userId);
+      if (!user || !getNotificationPreferences(user).studySessionReminders) continue;
+
+      // Record before notifying so a crash can't cause duplicates
+      for (const offset of pendingOffsets) {
+        await storage.createSessionReminder({
+          sessionId: occurrence.id,
+          occurrenceStart: occurrence.occurrenceStart,
+          userId: member.userId,
+          offsetMinutes: offset,
+          dismissedAt: offset === deliverOffset ? null : now,
+        });
+      }
+
+      if (!pendingOffsets.includes(deliverOffset)) continue;
+
+      const groupName = group?.name || "your group";
+      await notifyUsers([member.userId], {
+        type: "session_reminder",
+        title: `${occurrence.title} starts ${formatDistanceStrict(startTime, now, { addSuffix: true })}`,
+        message: `Your ${groupName} study session starts at ${format(startTime, "h:mm a")}`,
+        link: `/groups/${occurrence.groupId}`,
+      }, (recipient) => sessionReminderEmail({
+        recipientName: recipient.displayName || recipient.username,
+        sessionTitle: occurrence.title,
+        groupName,
+        groupId: occurrence.groupId,
+        startTime,
+        location: occurrence.location,
+        meetingLink: occurrence.meetingLink,
+      }));
+    }
+  }
+}
+
+export function startSessionReminders() {
+  let running = false;
+  const run = () => {
+    // Skip a tick rather than overlap with a slow run
+    if (running) return;
+    running = true;
+    processDueReminders()
+      .catch((error) => console.error("Error processing session reminders:", error))
+      .finally(() => { running = false; });
+  };
+
+  // Catch up on anything that became due while the server was down
+  run();
+  const timer = setInterval(run, CHECK_INTERVAL);
+  timer.unref();
+  return timer;
+}
@@ -1,37 +1,49 @@
 import type { Express } from "express";
-import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
-import { insertPaperSchema, insertDiscussionPostSchema, insertDiscussionReplySchema, insertResourceSchema, insertStudyGroupSchema, insertStudyGroupMemberSchema, insertStudySessionSchema, insertActivitySchema } from "@shared/schema";
+import { setupRealtime, publishToUsers } from "./realtime";
+import { setupPresence, trackActivity, getPresence } from "./presence";
+import { setupPomodoro, getPomodoroRoom, applyPomodoroAction } from "./pomodoro";
+import { notifyUsers, getNotificationPreferences } from "./notifications";
+import { discussionReplyEmail, friendRequestEmail } from "./mail-templates";
+import { APP_URL } from "./mail";
+import { renderCalendar } from "./ical";
+import { buildStudyAnalytics } from "./analytics";
+import { getUpcomingEvents } from "./upcoming-events";
+import { queueTextExtraction } from "./text-extraction";
+import { getSearchSuggestions, invalidateUserSuggestions } from "./suggestions";
+import { recordSavedSearchMatches } from "./saved-searches";
+import { fileStore, LocalFileStore } from "./file-store";
+import { canDownloadPaper, redirectToPaperFile, signDownloadUrl, verifyDownloadUrl } from "./downloads";
+import { getPaperPreview, sendPreviewPage, sendPaperThumbnail, queuePaperPreview, deletePaperPreview } from "./previews";
+import { addPaperVersion, deletePaperAndFiles, getVersionFileUrl, getVersionHistory } from "./paper-versions";
+import { duplicateUploadWarning, findDuplicateClusters, hashFile, mergeDuplicatePapers } from "./duplicates";
+import { searchContent, indexPaper, indexDiscussion, indexGroup, indexSession, removeFromSearch, type SearchFilters } from "./search";
+import {
+  expandSessionOccurrences,
+  findSessionOccurrence,
+  getOccurrenceStarts,
+  rescheduleExceptions,
+  type OccurrenceRange,
+} from "./recurrence";
+import { insertPaperSchema, insertDiscussionPostSchema, insertDiscussionReplySchema, insertResourceSchema, insertStudyGroupSchema, insertStudyGroupMemberSchema, insertStudySessionSchema, updateStudySessionSchema, insertActivitySchema, insertFriendRequestSchema, insertDirectMessageSchema, notificationPreferencesSchema, sessionRsvpSchema, CHECK_IN_OPENS_MINUTES_BEFORE, createStudyLogEntrySchema, insertStudyGoalSchema, updateStudyGoalSchema, timeZoneSchema, insertExamSchema, updateExamSchema, pomodoroActionSchema, insertSavedSearchSchema, uploadPaperVersionSchema, mergePapersSchema, type DirectMessage, type InsertPaper, type Paper, type StudySession, type User } from "@shared/schema";
+import type { ChatConversation, GroupMember, PaperVersionEntry, PendingSessionReminder, StudyGoalProgress, UpcomingEventsPage } from "@shared/types";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import passport from "passport";
+import { randomBytes } from "crypto";
+import { format } from "date-fns";
 import { hashPassword } from "./utils";
 import { Request, Response, NextFunction } from 'express';
 
-// Ensure uploads directory exists
-const uploadsDir = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
-
-// Configure multer for file uploads
-const storage_config = multer.diskStorage({
-  destination: function (req, file, cb) {
-    cb(null, uploadsDir);
-  },
-  filename: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-  }
-});
-
+// Configure multer for file uploads. Files are held in memory until they're
+// validated and handed to the file store.
 const upload = multer({ 
-  storage: storage_config,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
@@ -47,6 +59,24 @@ const upload = multer({
   }
 });
 
+// File store key for a newly uploaded paper
+function paperFileKey(originalName: string) {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  return `papers/${uniqueSuffix}${path.extname(originalName).toLowerCase()}`;
+}
+
+// Stores an upload's file and creates its paper; the file is deleted again if the paper can't be created
+async function createPaperWithFile(paperData: InsertPaper, file: Express.Multer.File): Promise<Paper> {
+  await fileStore.put(paperData.fileUrl, file.buffer, file.mimetype);
+  try {
+    return await storage.createPaper(paperData);
+  } catch (error) {
+    await fileStore.delete(paperData.fileUrl)
+      .catch((deleteError) => console.error(`Failed to delete unused file ${paperData.fileUrl}:`, deleteError));
+    throw error;
+  }
+}
+
 // Middleware to check if user is authenticated
 function isAuthenticated(req: Request, res: Response, next: NextFunction) {
   console.log("Authentication check:", 
@@ -77,12 +107,95 @@ function isAdmin(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Expands sessions into dated occurrences, loading the exceptions they need
+async function getSessionOccurrences(sessions: StudySession[], range?: OccurrenceRange) {
+  const exceptions = await storage.getStudySessionExceptions(sessions.map(s => s.id));
+  return expandSessionOccurrences(sessions, exceptions, range);
+}
+
+// Optional `from` and `to` query parameters, null if either isn't a date
+function parseOccurrenceRange(query: Request['query']): OccurrenceRange | null {
+  const range: OccurrenceRange = {};
+  if (query.from) range.from = new Date(String(query.from));
+  if (query.to) range.to = new Date(String(query.to));
+  return [range.from, range.to].some(date => date && isNaN(date.getTime())) ? null : range;
+}
+
+// The `occurrence` query parameter: undefined when absent, null if it isn't a date
+function parseOccurrenceParam(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// The organizer and group admins can edit or cancel a session
+async function canManageSession(session: StudySession, userId: number) {
+  if (session.createdBy === userId) return true;
+  const members = await storage.getStudyGroupMembers(session.groupId);
+  return members.some(m => m.userId === userId && m.isAdmin);
+}
+
+// The occurrence a member responds to: the `occurrence` query parameter for
+// recurring sessions, the session itself otherwise. Null if it's missing or unknown.
+async function getRespondableOccurrence(session: StudySession, occurrenceParam: unknown) {
+  const occurrenceStart = session.recurrence
+    ? parseOccurrenceParam(occurrenceParam)
+    : new Date(session.startTime);
+  if (!occurrenceStart) return null;
+
+  const exceptions = await storage.getStudySessionExceptions([session.id]);
+  return findSessionOccurrence(session, exceptions, occurrenceStart) ?? null;
+}
+
+async function notifySessionChange(
+  session: StudySession,
+  actor: User,
+  change: 'updated' | 'cancelled',
+  occurrenceStart?: Date
+) {
+  const [group, members] = await Promise.all([
+    storage.getStudyGroup(session.groupId),
+    storage.getStudyGroupMembers(session.groupId),
+  ]);
+  const target = occurrenceStart
+    ? `the ${format(occurrenceStart, 'MMM d')} "${session.title}" session`
+    : `"${session.title}"`;
+
+  await notifyUsers(
+    members.map(m => m.userId).filter(memberId => memberId !== actor.id),
+    {
+      type: 'group_session',
+      title: `Session ${change} in ${group?.name || 'your group'}`,
+      message: `${actor.displayName || actor.username} ${change} ${target}`,
+      link: `/groups/${session.groupId}`,
+      actorId: actor.id
+    }
+  );
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes and middleware
   setupAuth(app);
+  app.use('/api', trackActivity);
+
+  // Serve files from the local file store through the signed URLs it hands out
+  if (fileStore instanceof LocalFileStore) {
+    const localStore = fileStore;
+    app.get('/files/*', (req, res) => {
+      const key = (req.params as Record<string, string>)[0];
+      if (!localStore.verify(key, req.query as Record<string, string>)) {
+        return res.status(403).send('This link is invalid or has expired');
+      }
+
+      const name = typeof req.query.name === 'string' ? req.query.name : '';
+      if (name) res.attachment(name);
+      res.sendFile(localStore.filePath(key), (error) => {
+        if (error && !res.headersSent) res.status(404).send('File not found');
+      });
+    });
+  }
 
-  // Serve uploaded files and theme.json
-  app.use('/uploads', express.static(uploadsDir));
+  // Serve theme.json
   app.get('/theme.json', (req, res) => {
     try {
       const themePath = path.join(process.cwd(), 'theme.json');
@@ -113,11 +226,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Parse and validate the paper data
       const paperData = insertPaperSchema.parse({
         ...req.body,
-        fileUrl: `/uploads/${req.file.filename}`,
-        uploaderId: req.user.id
+        fileUrl: paperFileKey(req.file.originalname),
+        uploaderId: req.user.id,
+        contentHash: hashFile(req.file.buffer)
       });
 
-      const newPaper = await storage.createPaper(paperData);
+      // Nothing is stored until the uploader confirms a likely duplicate
+      const warning = await duplicateUploadWarning(paperData, req.body);
+      if (warning) {
+        return res.status(409).json(warning);
+      }
+
+      const newPaper = await createPaperWithFile(paperData, req.file);
+      indexPaper(newPaper);
+      queueTextExtraction(newPaper.id);
+      queuePaperPreview(newPaper.id);
+      // Saved search alerts shouldn't hold up the upload
+      recordSavedSearchMatches(newPaper)
+        .catch((error) => console.error(`Error matching paper ${newPaper.id} against saved searches:`, error));
 
       // Create an activity entry for this upload
       await storage.createActivity({
@@ -187,6 +313,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Sends the browser on to a short-lived download link for the paper's file
+  app.get('/api/papers/:id/file', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const paper = await storage.getPaper(parseInt(req.params.id));
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+
+      res.redirect(signDownloadUrl(paper.id, user.id).url);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.get('/api/papers/:id', async (req, res, next) => {
     try {
       const paperId = parseInt(req.params.id);
@@ -209,16 +355,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/papers/:id/download', async (req, res, next) => {
+  app.get('/api/papers/:id/preview', isAuthenticated, async (req, res, next) => {
+    try {
+      const paper = await storage.getPaper(parseInt(req.params.id));
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+
+      res.json(await getPaperPreview(paper));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/papers/:id/preview/:page', isAuthenticated, async (req, res, next) => {
+    try {
+      const paper = await storage.getPaper(parseInt(req.params.id));
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+
+      await sendPreviewPage(res, paper, parseInt(req.params.page));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/papers/:id/thumbnail', isAuthenticated, async (req, res, next) => {
+    try {
+      const paper = await storage.getPaper(parseInt(req.params.id));
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+
+      await sendPaperThumbnail(res, paper);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Issues a short-lived download link; the download is counted once it starts
+  app.post('/api/papers/:id/download', isAuthenticated, async (req, res, next) => {
+    try {
+      const paper = await storage.getPaper(parseInt(req.params.id));
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+
+      res.json(signDownloadUrl(paper.id, req.user.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Signed download links are the credential, so no session is needed
+  app.get('/api/papers/:id/download', async (req, res, next) => {
     try {
       const paperId = parseInt(req.params.id);
-      const paper = await storage.incrementPaperDownloads(paperId);
-      
+      const link = verifyDownloadUrl(paperId, req.query);
+
+      if (!link) {
+        return res.status(403).send('This download link is invalid or has expired');
+      }
+
+      const [paper, user] = await Promise.all([storage.getPaper(paperId), storage.getUser(link.userId)]);
       if (!paper) {
         return res.status(404).send('Paper not found');
       }
-      
-      res.json(paper);
+      if (!canDownloadPaper(user)) {
+        return res.status(403).send('You are not allowed to download this paper');
+      }
+
+      if (link.version === undefined) {
+        return await redirectToPaperFile(req, res, paper, link);
+      }
+      const fileUrl = await getVersionFileUrl(paper, link.version);
+      if (!fileUrl) {
+        return res.status(404).send('Version not found');
+      }
+      await redirectToPaperFile(req, res, paper, link, { version: link.version, fileUrl });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/papers/:id/versions', isAuthenticated, async (req, res, next) => {
+    try {
+      const paper = await storage.getPaper(parseInt(req.params.id));
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+
+      const versions = await getVersionHistory(paper);
+      // File keys stay on the server; files are downloaded by version number
+      const entries: PaperVersionEntry[] = await Promise.all(versions.map(async ({ paperId, version, changeNote, uploadedBy, createdAt }) => {
+        const uploader = await storage.getUser(uploadedBy);
+        return {
+          paperId,
+          version,
+          changeNote,
+          uploadedBy,
+          createdAt,
+          uploaderName: uploader ? uploader.username : "Anonymous"
+        };
+      }));
+
+      res.json(entries);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replaces the paper's file; earlier files stay downloadable by version
+  app.post('/api/papers/:id/versions', isAuthenticated, upload.single('file'), async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const paper = await storage.getPaper(parseInt(req.params.id));
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+      if (paper.uploaderId !== user.id && user.role !== 'admin') {
+        return res.status(403).send('Only the uploader can upload a new version of this paper');
+      }
+      if (!req.file) {
+        return res.status(400).send('No file uploaded');
+      }
+
+      const { changeNote } = uploadPaperVersionSchema.parse(req.body);
+      const contentHash = hashFile(req.file.buffer);
+      const warning = await duplicateUploadWarning({ ...paper, contentHash }, req.body, paper);
+      if (warning) {
+        return res.status(409).json(warning);
+      }
+
+      const fileUrl = paperFileKey(req.file.originalname);
+      await fileStore.put(fileUrl, req.file.buffer, req.file.mimetype);
+      const updated = await addPaperVersion(paper, {
+        fileUrl,
+        contentHash,
+        changeNote,
+        uploadedBy: user.id
+      });
+      if (!updated) {
+        return res.status(404).send('Paper not found');
+      }
+
+      // Search and previews follow the new file; the old previews aren't needed anymore
+      indexPaper(updated);
+      queueTextExtraction(updated.id);
+      queuePaperPreview(updated.id);
+      deletePaperPreview(paper).catch((error) =>
+        console.error(`Failed to delete previews of paper ${paper.id}:`, error));
+
+      res.status(201).json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Sends the browser on to a short-lived download link for one version's file
+  app.get('/api/papers/:id/versions/:version/file', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const paper = await storage.getPaper(parseInt(req.params.id));
+      const version = parseInt(req.params.version);
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+      if (!version || !(await getVersionFileUrl(paper, version))) {
+        return res.status(404).send('Version not found');
+      }
+
+      res.redirect(signDownloadUrl(paper.id, user.id, version).url);
     } catch (error) {
       next(error);
     }
@@ -233,6 +559,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const newPost = await storage.createDiscussionPost(postData);
+      indexDiscussion(newPost);
 
       // Create an activity entry for this post
       await storage.createActivity({
@@ -291,6 +618,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/discussions/:id/replies', isAuthenticated, async (req, res, next) => {
     try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
       const postId = parseInt(req.params.id);
       const post = await storage.getDiscussionPost(postId);
       
@@ -301,10 +633,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const replyData = insertDiscussionReplySchema.parse({
         ...req.body,
         postId,
-        authorId: req.user.id
+        authorId: user.id
       });
 
       const newReply = await storage.createDiscussionReply(replyData);
+
+      if (post.authorId !== user.id) {
+        const authorName = user.displayName || user.username;
+        await notifyUsers([post.authorId], {
+          type: 'discussion_reply',
+          title: 'New reply to your discussion',
+          message: `${authorName} replied to "${post.title}"`,
+          link: `/discussions/${postId}`,
+          actorId: user.id
+        }, recipient => discussionReplyEmail({
+          recipientName: recipient.displayName || recipient.username,
+          authorName,
+          postTitle: post.title,
+          postId,
+          replyContent: newReply.content
+        }));
+      }
+
       res.status(201).json(newReply);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -378,7 +728,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Parse and validate the resource data
       const resourceData = insertResourceSchema.parse({
         ...req.body,
-        fileUrl: `/uploads/${req.file.filename}`,
+        fileUrl: paperFileKey(req.file.originalname),
         uploaderId: req.user.id
       });
 
@@ -390,10 +740,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         year: new Date().getFullYear().toString(),
         institution: resourceData.description || '',
         fileUrl: resourceData.fileUrl,
-        uploaderId: resourceData.uploaderId
+        uploaderId: resourceData.uploaderId,
+        contentHash: hashFile(req.file.buffer)
       };
 
-      const newPaper = await storage.createPaper(paperData);
+      // Nothing is stored until the uploader confirms a likely duplicate
+      const warning = await duplicateUploadWarning(paperData, req.body);
+      if (warning) {
+        return res.status(409).json(warning);
+      }
+
+      const newPaper = await createPaperWithFile(paperData, req.file);
+      indexPaper(newPaper);
+      queueTextExtraction(newPaper.id);
+      queuePaperPreview(newPaper.id);
+      // Saved search alerts shouldn't hold up the upload
+      recordSavedSearchMatches(newPaper)
+        .catch((error) => console.error(`Error matching paper ${newPaper.id} against saved searches:`, error));
 
       // Create an activity entry for this upload
       await storage.createActivity({
@@ -464,17 +827,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/resources/:id/download', async (req, res, next) => {
+  app.post('/api/resources/:id/download', isAuthenticated, async (req, res, next) => {
     try {
       // Forward to papers endpoint
-      const paperId = parseInt(req.params.id);
-      const paper = await storage.incrementPaperDownloads(paperId);
-      
+      const paper = await storage.getPaper(parseInt(req.params.id));
+
       if (!paper) {
         return res.status(404).send('Resource not found');
       }
-      
-      res.json(paper);
+
+      res.json(signDownloadUrl(paper.id, req.user.id));
     } catch (error) {
       next(error);
     }
@@ -494,6 +856,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const newGroup = await storage.createStudyGroup(groupData);
+      indexGroup(newGroup);
 
       // Add creator as a member and admin of the group
       await storage.addStudyGroupMember({
@@ -605,7 +968,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const groupId = parseInt(req.params.id);
       const members = await storage.getStudyGroupMembers(groupId);
-      res.json(members);
+      const membersWithUsers: GroupMember[] = await Promise.all(members.map(async (member) => {
+        const user = await storage.getUser(member.userId);
+        return {
+          ...member,
+          user: user && {
+            id: user.id,
+            username: user.username,
+            displayName: user.displayName,
+            profilePicture: user.profilePicture,
+          },
+        };
+      }));
+      res.json(membersWithUsers);
     } catch (error) {
       next(error);
     }
@@ -639,6 +1014,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Study Sessions API
   app.post('/api/groups/:id/sessions', isAuthenticated, async (req, res, next) => {
     try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
       const groupId = parseInt(req.params.id);
       const group = await storage.getStudyGroup(groupId);
       
@@ -648,7 +1028,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Check if user is a member of the group
       const members = await storage.getStudyGroupMembers(groupId);
-      const isMember = members.some(m => m.userId === req.user.id);
+      const isMember = members.some(m => m.userId === user.id);
       
       if (!isMember) {
         return res.status(403).send('You must be a member of the group to create a session');
@@ -657,20 +1037,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sessionData = insertStudySessionSchema.parse({
         ...req.body,
         groupId,
-        createdBy: req.user.id
+        createdBy: user.id
       });
 
+      if (sessionData.recurrence && getOccurrenceStarts(sessionData.startTime, sessionData.recurrence).length === 0) {
+        return res.status(400).json({ error: "The repeat settings don't produce any sessions" });
+      }
+
       const newSession = await storage.createStudySession(sessionData);
+      indexSession(newSession);
 
       // Create an activity entry for this session
       await storage.createActivity({
-        userId: req.user.id,
+        userId: user.id,
         type: 'session_created',
         targetId: newSession.id,
         targetType: 'study_session',
         metadata: { title: newSession.title, groupName: group.name }
       });
 
+      await notifyUsers(
+        members.map(m => m.userId).filter(memberId => memberId !== user.id),
+        {
+          type: 'group_session',
+          title: `New session in ${group.name}`,
+          message: `${user.displayName || user.username} scheduled "${newSession.title}"`,
+          link: `/groups/${groupId}`,
+          actorId: user.id
+        }
+      );
+
       res.status(201).json(newSession);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -684,9 +1080,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/groups/:id/sessions', async (req, res, next) => {
     try {
       const groupId = parseInt(req.params.id);
+      const range = parseOccurrenceRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "from and to must be valid dates" });
+      }
+
+      const sessions = await storage.getStudySessions(groupId);
+      res.json(await getSessionOccurrences(sessions, range));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // RSVPs and check-ins for every session of the group, keyed by sessionId and occurrenceStart
+  app.get('/api/groups/:id/attendance', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const groupId = parseInt(req.params.id);
+      const members = await storage.getStudyGroupMembers(groupId);
+      if (!members.some(m => m.userId === user.id)) {
+        return res.status(403).send('You must be a member of the group to see attendance');
+      }
+
       const sessions = await storage.getStudySessions(groupId);
-      res.json(sessions);
+      res.json(await storage.getSessionAttendance(sessions.map(s => s.id)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Shared Pomodoro timer of the group; changes are pushed to members over the socket
+  app.get('/api/groups/:id/pomodoro', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const groupId = parseInt(req.params.id);
+      const members = await storage.getStudyGroupMembers(groupId);
+      if (!members.some(m => m.userId === user.id)) {
+        return res.status(403).send('You must be a member of the group to use its timer');
+      }
+
+      res.json(await getPomodoroRoom(groupId));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/groups/:id/pomodoro/:action', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const groupId = parseInt(req.params.id);
+      const action = pomodoroActionSchema.parse(req.params.action);
+      const members = await storage.getStudyGroupMembers(groupId);
+      if (!members.some(m => m.userId === user.id)) {
+        return res.status(403).send('You must be a member of the group to use its timer');
+      }
+
+      res.json(await applyPomodoroAction(groupId, user.id, action));
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
       next(error);
     }
   });
@@ -695,7 +1160,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.id;
       const sessions = await storage.getUpcomingStudySessions(userId);
-      res.json(sessions);
+      res.json(await getSessionOccurrences(sessions, { from: new Date() }));
     } catch (error) {
       next(error);
     }
@@ -703,10 +1168,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/sessions', isAuthenticated, async (req, res, next) => {
     try {
+      const range = parseOccurrenceRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "from and to must be valid dates" });
+      }
+
       // Get all study sessions from all groups the user is a member of
       const userId = req.user.id;
       const userGroups = await storage.getUserStudyGroups(userId);
-      let allSessions = [];
+      let allSessions: StudySession[] = [];
       
       // Gather sessions from all user's groups
       for (const group of userGroups) {
@@ -714,45 +1184,368 @@ export async function registerRoutes(app: Express): Promise<Server> {
         allSessions = [...allSessions, ...groupSessions];
       }
       
-      // Sort by start time (newest first)
-      allSessions.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+      // Occurrences come back oldest first, the list shows newest first
+      const occurrences = await getSessionOccurrences(allSessions, range);
+      occurrences.reverse();
       
-      res.json(allSessions);
+      res.json(occurrences);
     } catch (error) {
       next(error);
     }
   });
 
-  // Activity Feed API
-  app.get('/api/activities', async (req, res, next) => {
+  // The session as stored, with its recurrence rule; the list endpoints return occurrences
+  app.get('/api/sessions/:id', isAuthenticated, async (req, res, next) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const activities = await storage.getRecentActivities(limit);
-      res.json(activities);
-    } catch (error) {
-      next(error);
-    }
-  });
+      const session = await storage.getStudySession(parseInt(req.params.id));
 
-  app.get('/api/activities/user/:userId', isAuthenticated, async (req, res, next) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      
-      // Only allow users to see their own activities or administrators
-      if (userId !== req.user.id) {
-        return res.status(403).send('You are not authorized to view these activities');
+      if (!session) {
+        return res.status(404).send('Study session not found');
       }
-      
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const activities = await storage.getUserActivities(userId, limit);
-      res.json(activities);
+      res.json(session);
     } catch (error) {
       next(error);
     }
   });
 
-  // Theme API endpoint
-  app.post('/api/theme', isAuthenticated, async (req, res, next) => {
+  // Edits the whole series, or with ?occurrence=<original start> just that occurrence
+  app.patch('/api/sessions/:id', isAuthenticated, async (req, res, next) => {
+    try {
+      const session = await storage.getStudySession(parseInt(req.params.id));
+
+      if (!session) {
+        return res.status(404).send('Study session not found');
+      }
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+      if (!await canManageSession(session, user.id)) {
+        return res.status(403).send('Only the organizer or a group admin can change this session');
+      }
+
+      const occurrenceStart = session.recurrence ? parseOccurrenceParam(req.query.occurrence) : undefined;
+      if (occurrenceStart === null) {
+        return res.status(400).json({ error: "occurrence must be a valid date" });
+      }
+
+      let updated: StudySession | undefined;
+      if (occurrenceStart) {
+        const exceptions = await storage.getStudySessionExceptions([session.id]);
+        if (!findSessionOccurrence(session, exceptions, occurrenceStart)) {
+          return res.status(404).send('Session occurrence not found');
+        }
+
+        const changes = updateStudySessionSchema.omit({ recurrence: true }).parse(req.body);
+        await storage.saveStudySessionException({ ...changes, sessionId: session.id, occurrenceStart });
+        updated = findSessionOccurrence(session, await storage.getStudySessionExceptions([session.id]), occurrenceStart);
+      } else {
+        const changes = updateStudySessionSchema.parse(req.body);
+        const recurrence = changes.recurrence === undefined ? session.recurrence : changes.recurrence;
+        const startTime = changes.startTime ?? new Date(session.startTime);
+
+        if (recurrence && getOccurrenceStarts(startTime, recurrence).length === 0) {
+          return res.status(400).json({ error: "The repeat settings don't produce any sessions" });
+        }
+        updated = await storage.updateStudySession(session.id, changes);
+        if (updated) indexSession(updated);
+
+        // Exceptions are keyed by when their occurrence was due, so they follow the new schedule
+        if (updated && session.recurrence && (changes.startTime || changes.recurrence !== undefined)) {
+          const exceptions = await storage.getStudySessionExceptions([session.id]);
+          if (exceptions.length > 0) {
+            await storage.replaceStudySessionExceptions(session.id, rescheduleExceptions(session, updated, exceptions));
+          }
+        }
+      }
+
+      await notifySessionChange(session, user, 'updated', occurrenceStart);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
+  // Deletes the whole series, or with ?occurrence=<original start> cancels just that occurrence
+  app.delete('/api/sessions/:id', isAuthenticated, async (req, res, next) => {
+    try {
+      const session = await storage.getStudySession(parseInt(req.params.id));
+
+      if (!session) {
+        return res.status(404).send('Study session not found');
+      }
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+      if (!await canManageSession(session, user.id)) {
+        return res.status(403).send('Only the organizer or a group admin can cancel this session');
+      }
+
+      const occurrenceStart = session.recurrence ? parseOccurrenceParam(req.query.occurrence) : undefined;
+      if (occurrenceStart === null) {
+        return res.status(400).json({ error: "occurrence must be a valid date" });
+      }
+
+      if (occurrenceStart) {
+        const exceptions = await storage.getStudySessionExceptions([session.id]);
+        if (!findSessionOccurrence(session, exceptions, occurrenceStart)) {
+          return res.status(404).send('Session occurrence not found');
+        }
+        await storage.saveStudySessionException({ sessionId: session.id, occurrenceStart, isCancelled: true });
+      } else {
+        await storage.deleteStudySession(session.id);
+        removeFromSearch('session', session.id);
+      }
+
+      await notifySessionChange(session, user, 'cancelled', occurrenceStart);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Attendance API
+  app.post('/api/sessions/:id/rsvp', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const session = await storage.getStudySession(parseInt(req.params.id));
+
+      if (!session) {
+        return res.status(404).send('Study session not found');
+      }
+
+      const members = await storage.getStudyGroupMembers(session.groupId);
+      if (!members.some(m => m.userId === user.id)) {
+        return res.status(403).send('You must be a member of the group to RSVP');
+      }
+
+      const { status } = sessionRsvpSchema.parse(req.body);
+      const occurrence = await getRespondableOccurrence(session, req.query.occurrence);
+      if (!occurrence) {
+        return res.status(404).send('Session occurrence not found');
+      }
+      if (new Date(occurrence.endTime) <= new Date()) {
+        return res.status(400).json({ error: "This session has already ended" });
+      }
+
+      const attendance = await storage.saveSessionAttendance({
+        sessionId: session.id,
+        occurrenceStart: occurrence.occurrenceStart,
+        userId: user.id,
+        rsvp: status,
+      });
+      res.json(attendance);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post('/api/sessions/:id/check-in', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const session = await storage.getStudySession(parseInt(req.params.id));
+
+      if (!session) {
+        return res.status(404).send('Study session not found');
+      }
+
+      const members = await storage.getStudyGroupMembers(session.groupId);
+      if (!members.some(m => m.userId === user.id)) {
+        return res.status(403).send('You must be a member of the group to check in');
+      }
+
+      const occurrence = await getRespondableOccurrence(session, req.query.occurrence);
+      if (!occurrence) {
+        return res.status(404).send('Session occurrence not found');
+      }
+
+      const now = new Date();
+      const opensAt = new Date(occurrence.startTime).getTime() - CHECK_IN_OPENS_MINUTES_BEFORE * 60 * 1000;
+      if (now.getTime() < opensAt || now >= new Date(occurrence.endTime)) {
+        return res.status(400).json({
+          error: `Check-in opens ${CHECK_IN_OPENS_MINUTES_BEFORE} minutes before the session starts and closes when it ends`
+        });
+      }
+
+      const [existing] = (await storage.getSessionAttendance([session.id])).filter(a =>
+        a.userId === user.id &&
+        new Date(a.occurrenceStart).getTime() === occurrence.occurrenceStart.getTime()
+      );
+      if (existing?.checkedInAt) {
+        return res.json(existing);
+      }
+
+      const attendance = await storage.saveSessionAttendance({
+        sessionId: session.id,
+        occurrenceStart: occurrence.occurrenceStart,
+        userId: user.id,
+        // Showing up counts as going, whatever was answered before
+        rsvp: 'going',
+        checkedInAt: now,
+      });
+
+      // Attended sessions count towards study time, filed under the group's course
+      const group = await storage.getStudyGroup(session.groupId);
+      await storage.createStudyLogEntry({
+        userId: user.id,
+        subject: group?.course || group?.name || session.title,
+        durationMinutes: Math.max(1, Math.round(
+          (new Date(occurrence.endTime).getTime() - new Date(occurrence.startTime).getTime()) / 60000
+        )),
+        source: 'session',
+        sessionId: session.id,
+        loggedAt: new Date(occurrence.startTime),
+      });
+      res.json(attendance);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/sessions/:id/calendar.ics', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const sessionId = parseInt(req.params.id);
+      const session = await storage.getStudySession(sessionId);
+
+      if (!session) {
+        return res.status(404).send('Study session not found');
+      }
+
+      const members = await storage.getStudyGroupMembers(session.groupId);
+      if (!members.some(m => m.userId === user.id)) {
+        return res.status(403).send('You must be a member of the group to export this session');
+      }
+
+      const group = await storage.getStudyGroup(session.groupId);
+      const occurrences = await getSessionOccurrences([session]);
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.attachment(`session-${session.id}.ics`);
+      res.send(renderCalendar(
+        occurrences.map(occurrence => ({ session: occurrence, groupName: group?.name })),
+        session.title
+      ));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Calendar feed API
+  const calendarFeedUrl = (token: string) => `${APP_URL}/api/calendar/${token}.ics`;
+
+  app.get('/api/calendar/feed', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.status(404).send('User not found');
+      }
+
+      let token = user.calendarToken;
+      if (!token) {
+        token = randomBytes(24).toString('hex');
+        await storage.updateUserCalendarToken(user.id, token);
+      }
+
+      res.json({ url: calendarFeedUrl(token) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Invalidates the old feed URL, e.g. after it was shared by mistake
+  app.post('/api/calendar/feed/reset', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.status(404).send('User not found');
+      }
+
+      const token = randomBytes(24).toString('hex');
+      await storage.updateUserCalendarToken(user.id, token);
+      res.json({ url: calendarFeedUrl(token) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Public on purpose: calendar apps can't log in, so the token is the credential
+  app.get('/api/calendar/:token.ics', async (req, res, next) => {
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
+
+      if (!user) {
+        return res.status(404).send('Calendar not found');
+      }
+
+      const [sessions, groups] = await Promise.all([
+        storage.getUpcomingStudySessions(user.id),
+        storage.getUserStudyGroups(user.id),
+      ]);
+      const occurrences = await getSessionOccurrences(sessions, { from: new Date() });
+      const events = occurrences.map(session => ({
+        session,
+        groupName: groups.find(g => g.id === session.groupId)?.name,
+      }));
+
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Cache-Control', 'no-cache');
+      res.send(renderCalendar(events));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Activity Feed API
+  app.get('/api/activities', async (req, res, next) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const activities = await storage.getRecentActivities(limit);
+      res.json(activities);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/activities/user/:userId', isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      
+      // Only allow users to see their own activities or administrators
+      if (userId !== req.user.id) {
+        return res.status(403).send('You are not authorized to view these activities');
+      }
+      
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const activities = await storage.getUserActivities(userId, limit);
+      res.json(activities);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Theme API endpoint
+  app.post('/api/theme', isAuthenticated, async (req, res, next) => {
     try {
       const { primary, variant, appearance, radius } = req.body;
       
@@ -793,53 +1586,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Search routes
-  app.get("/api/search/papers", async (req, res, next) => {
-    try {
-      const query = req.query.q as string;
-      if (!query) {
-        return res.json([]);
-      }
-      
-      const papers = await storage.getPapers();
-      const results = papers.filter(paper => 
-        paper.title.toLowerCase().includes(query.toLowerCase()) ||
-        (paper.description && paper.description.toLowerCase().includes(query.toLowerCase())) ||
-        (paper.course && paper.course.toLowerCase().includes(query.toLowerCase()))
-      );
-      
-      res.json(results);
-    } catch (error) {
-      next(error);
-    }
-  });
-  
-  app.get("/api/search/resources", async (req, res, next) => {
-    console.log("Resource search has been deprecated");
-    return res.json([]);
-  });
-  
-  app.get("/api/search/discussions", async (req, res, next) => {
-    try {
-      const query = req.query.q as string;
-      if (!query) {
-        return res.json([]);
-      }
-      
-      const discussions = await storage.getDiscussionPosts();
-      const results = discussions.filter(discussion => 
-        discussion.title.toLowerCase().includes(query.toLowerCase()) ||
-        discussion.content.toLowerCase().includes(query.toLowerCase()) ||
-        (discussion.course && discussion.course.toLowerCase().includes(query.toLowerCase())) ||
-        (discussion.tags && discussion.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase())))
-      );
-      
-      res.json(results);
-    } catch (error) {
-      next(error);
-    }
-  });
-  
   app.post("/api/login", (req, res, next) => {
     console.log("Login request received:", req.body);
     passport.authenticate("local", (err, user) => {
@@ -1011,94 +1757,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     `);
   });
   
-  // Unified search endpoint
+  // Unified search endpoint, ranked across all content types.
+  // Filters: ?type=, ?course=, ?year=, ?institution=, ?resourceType=; paginated with ?offset= and ?limit=
   app.get("/api/search", async (req, res, next) => {
     try {
       const query = req.query.query as string;
-      const limit = parseInt(req.query.limit as string) || 10;
-      
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
       if (!query) {
         return res.status(400).json({ error: "Search query is required" });
       }
-      
-      // Normalize the query for case-insensitive search
-      const normalizedQuery = query.toLowerCase();
-      
-      // Get results from different sources in parallel
-      const [papers, discussions, groups, sessions] = await Promise.all([
-        storage.searchPapers(normalizedQuery, limit),
-        storage.searchDiscussions(normalizedQuery, limit),
-        storage.searchGroups(normalizedQuery, limit),
-        storage.searchSessions(normalizedQuery, limit)
-      ]);
-      
-      // Format results for the client
-      const formattedPapers = papers.map(paper => ({
-        id: paper.id,
-        title: paper.title,
-        type: 'paper',
-        url: `/papers?id=${paper.id}`
-      }));
-      
-      const formattedDiscussions = discussions.map(discussion => ({
-        id: discussion.id,
-        title: discussion.title,
-        type: 'discussion',
-        url: `/discussions?id=${discussion.id}`
-      }));
-      
-      const formattedGroups = groups.map(group => ({
-        id: group.id,
-        title: group.name,
-        type: 'group',
-        url: `/groups/${group.id}`
-      }));
-      
-      const formattedSessions = sessions.map(session => ({
-        id: session.id,
-        title: session.title,
-        type: 'session',
-        url: `/sessions?id=${session.id}`
-      }));
-      
-      // Combine all results and sort by relevance (for now, just combining them)
-      // In a more advanced implementation, we'd apply relevance scoring
-      const allResults = [
-        ...formattedPapers,
-        ...formattedDiscussions,
-        ...formattedGroups,
-        ...formattedSessions
-      ].slice(0, limit);
-      
-      res.json(allResults);
+
+      // Only a new search counts towards history, not loading more results or changing filters
+      const normalizedQuery = query.trim().replace(/\s+/g, ' ');
+      if (req.isAuthenticated() && offset === 0 && normalizedQuery) {
+        await storage.saveRecentSearch(req.user.id, normalizedQuery);
+      }
+
+      const filters: SearchFilters = {};
+      const type = req.query.type as string | undefined;
+      if (type === 'paper' || type === 'discussion' || type === 'group' || type === 'session') {
+        filters.type = type;
+      }
+      (['course', 'year', 'institution', 'resourceType'] as const).forEach(facet => {
+        const value = req.query[facet];
+        if (typeof value === 'string' && value) filters[facet] = value;
+      });
+
+      res.json(await searchContent(query, filters, { offset, limit }));
     } catch (error) {
       next(error);
     }
   });
-  
-  // Add a direct registration handler
-  app.post("/api/direct-register", async (req, res, next) => {
+
+  // Autocomplete for the search bar; with an empty ?q= only recent searches are returned
+  app.get("/api/search/suggestions", isAuthenticated, async (req, res, next) => {
     try {
-      // Check if username exists
-      const existingUser = await storage.getUserByUsername(req.body.username);
-      if (existingUser) {
-        return res.redirect('/direct-register?error=Username+already+exists');
-      }
-      
-      // Check if email exists
-      const existingEmail = await storage.getUserByEmail(req.body.email);
-      if (existingEmail) {
-        return res.redirect('/direct-register?error=Email+already+exists');
-      }
+      const query = typeof req.query.q === 'string' ? req.query.q : '';
+      res.json(await getSearchSuggestions(req.user.id, query));
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      // Create new user with hashed password
-      const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
-      });
+  app.delete("/api/search/recent", isAuthenticated, async (req, res, next) => {
+    try {
+      await storage.clearRecentSearches(req.user.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      // Login user after registration
-      req.login(user, (err) => {
+  // Saved searches, each with the number of matching papers uploaded since it was last opened
+  app.get("/api/saved-searches", isAuthenticated, async (req, res, next) => {
+    try {
+      res.json(await storage.getSavedSearches(req.user.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/saved-searches", isAuthenticated, async (req, res, next) => {
+    try {
+      const searchData = insertSavedSearchSchema.omit({ userId: true }).parse({
+        ...req.body,
+        // Named after the query unless told otherwise
+        name: req.body.name || req.body.query,
+      });
+
+      const existing = await storage.getSavedSearches(req.user.id);
+      const sameFilter = (a?: string | null, b?: string | null) => (a || null) === (b || null);
+      const duplicate = existing.find(search =>
+        search.query.toLowerCase() === searchData.query.toLowerCase() &&
+        sameFilter(search.course, searchData.course) &&
+        sameFilter(search.year, searchData.year) &&
+        sameFilter(search.institution, searchData.institution) &&
+        sameFilter(search.resourceType, searchData.resourceType)
+      );
+      if (duplicate) {
+        return res.status(409).json({ error: "This search is already saved" });
+      }
+
+      const search = await storage.createSavedSearch({ ...searchData, userId: req.user.id });
+      res.status(201).json(search);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
+  // Called when the user opens a saved search; its new matches count as seen
+  app.post("/api/saved-searches/:id/visit", isAuthenticated, async (req, res, next) => {
+    try {
+      const search = await storage.getSavedSearch(parseInt(req.params.id));
+
+      if (!search || search.userId !== req.user.id) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      res.json(await storage.updateSavedSearch(search.id, { newMatchCount: 0, lastVisitedAt: new Date() }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const search = await storage.getSavedSearch(parseInt(req.params.id));
+
+      if (!search || search.userId !== req.user.id) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      await storage.deleteSavedSearch(search.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Add a direct registration handler
+  app.post("/api/direct-register", async (req, res, next) => {
+    try {
+      // Check if username exists
+      const existingUser = await storage.getUserByUsername(req.body.username);
+      if (existingUser) {
+        return res.redirect('/direct-register?error=Username+already+exists');
+      }
+      
+      // Check if email exists
+      const existingEmail = await storage.getUserByEmail(req.body.email);
+      if (existingEmail) {
+        return res.redirect('/direct-register?error=Email+already+exists');
+      }
+
+      // Create new user with hashed password
+      const user = await storage.createUser({
+        ...req.body,
+        password: await hashPassword(req.body.password),
+      });
+      invalidateUserSuggestions();
+
+      // Login user after registration
+      req.login(user, (err) => {
         if (err) return next(err);
         
         // Set a cookie manually to make sure it's there
@@ -1119,6 +1925,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Study group chat messages
   app.post('/api/groups/:id/chat', isAuthenticated, async (req, res, next) => {
     try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
       const groupId = parseInt(req.params.id);
       const { message } = req.body;
       
@@ -1133,7 +1944,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Check if user is a member of the group
       const members = await storage.getStudyGroupMembers(groupId);
-      const isMember = members.some(m => m.userId === req.user.id);
+      const isMember = members.some(m => m.userId === user.id);
       
       if (!isMember) {
         return res.status(403).send('You must be a member of the group to send messages');
@@ -1141,12 +1952,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const chatMessage = await storage.createGroupChatMessage({
         groupId,
-        userId: req.user.id,
+        userId: user.id,
         message,
         timestamp: new Date()
       });
       
-      res.status(201).json(chatMessage);
+      // Same shape as the messages returned by GET /api/groups/:id/chat
+      const messageWithAuthor = {
+        ...chatMessage,
+        userName: user.displayName || user.username
+      };
+      
+      publishToUsers(members.map(m => m.userId), {
+        type: 'group_message',
+        groupId,
+        message: messageWithAuthor
+      });
+      
+      res.status(201).json(messageWithAuthor);
     } catch (error) {
       next(error);
     }
@@ -1200,6 +2023,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         institution,
         department,
       });
+      invalidateUserSuggestions();
       
       res.json(updatedUser);
     } catch (error) {
@@ -1210,40 +2034,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Friend request endpoints
   app.post('/api/friend-requests', isAuthenticated, async (req, res, next) => {
     try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
       const { recipientId } = req.body;
       
       if (!recipientId) {
         return res.status(400).send('Recipient ID is required');
       }
       
+      const requestData = insertFriendRequestSchema.parse({
+        senderId: user.id,
+        receiverId: recipientId,
+        status: 'pending'
+      });
+      
       // Check if the recipient exists
-      const recipient = await storage.getUser(recipientId);
+      const recipient = await storage.getUser(requestData.receiverId);
       if (!recipient) {
         return res.status(404).send('Recipient user not found');
       }
       
       // Check if friend request already exists
-      const existingRequest = await storage.getFriendRequest(req.user.id, recipientId);
+      const existingRequest = await storage.getFriendRequest(user.id, requestData.receiverId);
       if (existingRequest) {
         return res.status(400).send('Friend request already exists');
       }
       
       // Check if they are already friends
-      const existingFriendship = await storage.checkFriendship(req.user.id, recipientId);
+      const existingFriendship = await storage.checkFriendship(user.id, requestData.receiverId);
       if (existingFriendship) {
         return res.status(400).send('Users are already friends');
       }
       
       // Create the friend request
-      const friendRequest = await storage.createFriendRequest({
-        senderId: req.user.id,
-        receiverId: recipientId,
-        status: 'pending',
-        createdAt: new Date()
-      });
+      const friendRequest = await storage.createFriendRequest(requestData);
+      
+      const senderName = user.displayName || user.username;
+      await notifyUsers([recipient.id], {
+        type: 'friend_request',
+        title: 'New friend request',
+        message: `${senderName} sent you a friend request`,
+        link: '/friends',
+        actorId: user.id
+      }, () => friendRequestEmail({
+        recipientName: recipient.displayName || recipient.username,
+        senderName
+      }));
       
       res.status(201).json(friendRequest);
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
       next(error);
     }
   });
@@ -1259,6 +2105,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/friend-requests/:id/accept', isAuthenticated, async (req, res, next) => {
     try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
       const requestId = parseInt(req.params.id);
       
       // Get the friend request
@@ -1268,7 +2119,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if the current user is the recipient
-      if (request.receiverId !== req.user.id) {
+      if (request.receiverId !== user.id) {
         return res.status(403).send('Not authorized to accept this request');
       }
       
@@ -1278,113 +2129,422 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create friendship connection
       await storage.createFriendship(request.senderId, request.receiverId);
       
+      await notifyUsers([request.senderId], {
+        type: 'friend_request_accepted',
+        title: 'Friend request accepted',
+        message: `${user.displayName || user.username} accepted your friend request`,
+        link: '/friends',
+        actorId: user.id
+      });
+      
       res.json(updatedRequest);
     } catch (error) {
       next(error);
     }
   });
 
-  app.post('/api/friend-requests/:id/reject', isAuthenticated, async (req, res, next) => {
+  app.post('/api/friend-requests/:id/reject', isAuthenticated, async (req, res, next) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      
+      // Get the friend request
+      const request = await storage.getFriendRequestById(requestId);
+      if (!request) {
+        return res.status(404).send('Friend request not found');
+      }
+      
+      // Check if the current user is the recipient
+      if (request.receiverId !== req.user.id) {
+        return res.status(403).send('Not authorized to reject this request');
+      }
+      
+      // Reject the request
+      const updatedRequest = await storage.updateFriendRequestStatus(requestId, 'rejected');
+      
+      res.json(updatedRequest);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/friends', isAuthenticated, async (req, res, next) => {
+    try {
+      const friends = await storage.getFriends(req.user.id);
+      res.json(friends.map(friend => ({
+        ...friend,
+        ...getPresence(friend.friendId, friend.lastActive),
+      })));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // User search and recommendations
+  app.get('/api/users/search', isAuthenticated, async (req, res, next) => {
+    try {
+      const query = req.query.q as string;
+      if (!query) {
+        return res.status(400).json({ error: "Search query is required" });
+      }
+      
+      // Get all users except the current user
+      const allUsers = (await storage.getAllUsers())
+        .filter(u => u.id !== req.user.id)
+        .filter(u => 
+          u.username.toLowerCase().includes(query.toLowerCase()) || 
+          u.displayName.toLowerCase().includes(query.toLowerCase()) ||
+          (u.department && u.department.toLowerCase().includes(query.toLowerCase()))
+        )
+        .map(u => ({
+          id: u.id,
+          username: u.username,
+          displayName: u.displayName,
+          profilePicture: u.profilePicture,
+          department: u.department,
+          yearOfStudy: u.yearOfStudy,
+          institution: u.institution
+        }));
+      
+      res.json(allUsers);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/users/recommended', isAuthenticated, async (req, res, next) => {
+    try {
+      // Get current user
+      const currentUser = req.user;
+      if (!currentUser) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      // Get existing friends to exclude them
+      const friends = await storage.getFriends(currentUser.id);
+      const friendIds = friends.map(f => f.friendId);
+      
+      // Get pending friend requests to exclude them
+      const requests = await storage.getFriendRequests(currentUser.id);
+      const pendingRequestUserIds = requests
+        .filter(r => r.status === 'pending')
+        .map(r => r.senderId === currentUser.id ? r.receiverId : r.senderId);
+      
+      // Get all users except current user, friends, and pending requests
+      const recommendedUsers = (await storage.getAllUsers())
+        .filter(u => 
+          u.id !== currentUser.id && 
+          !friendIds.includes(u.id) && 
+          !pendingRequestUserIds.includes(u.id)
+        )
+        .map(u => ({
+          id: u.id,
+          username: u.username,
+          displayName: u.displayName,
+          profilePicture: u.profilePicture,
+          department: u.department,
+          yearOfStudy: u.yearOfStudy,
+          institution: u.institution
+        }));
+      
+      res.json(recommendedUsers);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Study log API
+  app.get('/api/study-log', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const range = parseOccurrenceRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "from and to must be valid dates" });
+      }
+
+      res.json(await storage.getStudyLogEntries(user.id, range));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/study-log', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const entryData = createStudyLogEntrySchema.parse(req.body);
+      const entry = await storage.createStudyLogEntry({ ...entryData, userId: user.id });
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
+  app.delete('/api/study-log/:id', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const entry = await storage.getStudyLogEntry(parseInt(req.params.id));
+
+      if (!entry || entry.userId !== user.id) {
+        return res.status(404).json({ error: "Study log entry not found" });
+      }
+
+      await storage.deleteStudyLogEntry(entry.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Days are counted in the caller's time zone, passed as ?timeZone=Europe/Berlin
+  app.get('/api/analytics/study', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const timeZone = timeZoneSchema.default("UTC").parse(req.query.timeZone);
+      const entries = await storage.getStudyLogEntries(user.id);
+      res.json(buildStudyAnalytics(entries, timeZone));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
+  // Study goals API
+  app.get('/api/study-goals', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const goals = await storage.getStudyGoals(user.id);
+      if (goals.length === 0) {
+        return res.json([]);
+      }
+
+      const earliest = new Date(Math.min(...goals.map(goal => goal.createdAt.getTime())));
+      const entries = await storage.getStudyLogEntries(user.id, { from: earliest });
+      const sameSubject = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+      const progress: StudyGoalProgress[] = goals.map(goal => ({
+        ...goal,
+        completedMinutes: entries
+          .filter(entry => entry.loggedAt >= goal.createdAt && sameSubject(entry.subject, goal.subject))
+          .reduce((total, entry) => total + entry.durationMinutes, 0),
+      }));
+      res.json(progress);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/study-goals', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const goalData = insertStudyGoalSchema.omit({ userId: true }).parse(req.body);
+      const goal = await storage.createStudyGoal({ ...goalData, userId: user.id });
+      res.status(201).json(goal);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
+  app.patch('/api/study-goals/:id', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const goal = await storage.getStudyGoal(parseInt(req.params.id));
+
+      if (!goal || goal.userId !== user.id) {
+        return res.status(404).json({ error: "Study goal not found" });
+      }
+
+      const changes = updateStudyGoalSchema.parse(req.body);
+      res.json(await storage.updateStudyGoal(goal.id, changes));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
+  app.delete('/api/study-goals/:id', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const goal = await storage.getStudyGoal(parseInt(req.params.id));
+
+      if (!goal || goal.userId !== user.id) {
+        return res.status(404).json({ error: "Study goal not found" });
+      }
+
+      await storage.deleteStudyGoal(goal.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Exams API
+  app.get('/api/exams', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const from = req.query.upcoming === 'true' ? new Date() : undefined;
+      res.json(await storage.getExams(user.id, from));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/exams', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const examData = insertExamSchema.omit({ userId: true }).parse(req.body);
+      const exam = await storage.createExam({ ...examData, userId: user.id });
+      res.status(201).json(exam);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
+  app.patch('/api/exams/:id', isAuthenticated, async (req, res, next) => {
     try {
-      const requestId = parseInt(req.params.id);
-      
-      // Get the friend request
-      const request = await storage.getFriendRequestById(requestId);
-      if (!request) {
-        return res.status(404).send('Friend request not found');
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
       }
-      
-      // Check if the current user is the recipient
-      if (request.receiverId !== req.user.id) {
-        return res.status(403).send('Not authorized to reject this request');
+
+      const exam = await storage.getExam(parseInt(req.params.id));
+
+      if (!exam || exam.userId !== user.id) {
+        return res.status(404).json({ error: "Exam not found" });
       }
-      
-      // Reject the request
-      const updatedRequest = await storage.updateFriendRequestStatus(requestId, 'rejected');
-      
-      res.json(updatedRequest);
+
+      const changes = updateExamSchema.parse(req.body);
+      res.json(await storage.updateExam(exam.id, changes));
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
       next(error);
     }
   });
 
-  app.get('/api/friends', isAuthenticated, async (req, res, next) => {
+  app.delete('/api/exams/:id', isAuthenticated, async (req, res, next) => {
     try {
-      const friends = await storage.getFriends(req.user.id);
-      res.json(friends);
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const exam = await storage.getExam(parseInt(req.params.id));
+
+      if (!exam || exam.userId !== user.id) {
+        return res.status(404).json({ error: "Exam not found" });
+      }
+
+      await storage.deleteExam(exam.id);
+      res.status(204).end();
     } catch (error) {
       next(error);
     }
   });
 
-  // User search and recommendations
-  app.get('/api/users/search', isAuthenticated, async (req, res, next) => {
+  // Past papers for the exam's course; course codes are compared ignoring case and spaces
+  app.get('/api/exams/:id/papers', isAuthenticated, async (req, res, next) => {
     try {
-      const query = req.query.q as string;
-      if (!query) {
-        return res.status(400).json({ error: "Search query is required" });
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
       }
-      
-      // Get all users except the current user
-      const allUsers = Array.from(storage.users.values())
-        .filter(u => u.id !== req.user.id)
-        .filter(u => 
-          u.username.toLowerCase().includes(query.toLowerCase()) || 
-          u.displayName.toLowerCase().includes(query.toLowerCase()) ||
-          (u.department && u.department.toLowerCase().includes(query.toLowerCase()))
+
+      const exam = await storage.getExam(parseInt(req.params.id));
+
+      if (!exam || exam.userId !== user.id) {
+        return res.status(404).json({ error: "Exam not found" });
+      }
+
+      const normalizeCourse = (course: string) => course.replace(/\s+/g, '').toLowerCase();
+      const papers = (await storage.getPapers())
+        .filter(paper =>
+          paper.resourceType === 'past_paper' &&
+          normalizeCourse(paper.course) === normalizeCourse(exam.course)
         )
-        .map(u => ({
-          id: u.id,
-          username: u.username,
-          displayName: u.displayName,
-          profilePicture: u.profilePicture,
-          department: u.department,
-          yearOfStudy: u.yearOfStudy,
-          institution: u.institution
-        }));
-      
-      res.json(allUsers);
+        .sort((a, b) => b.year.localeCompare(a.year));
+      res.json(papers);
     } catch (error) {
       next(error);
     }
   });
 
-  app.get('/api/users/recommended', isAuthenticated, async (req, res, next) => {
+  // Dashboard timeline, paginated with ?offset= and ?limit=
+  app.get('/api/upcoming-events', isAuthenticated, async (req, res, next) => {
     try {
-      // Get current user
-      const currentUser = req.user;
-      if (!currentUser) {
-        return res.status(401).json({ error: "Authentication required" });
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
       }
-      
-      // Get existing friends to exclude them
-      const friends = await storage.getFriends(currentUser.id);
-      const friendIds = friends.map(f => f.friendId);
-      
-      // Get pending friend requests to exclude them
-      const requests = await storage.getFriendRequests(currentUser.id);
-      const pendingRequestUserIds = requests
-        .filter(r => r.status === 'pending')
-        .map(r => r.senderId === currentUser.id ? r.receiverId : r.senderId);
-      
-      // Get all users except current user, friends, and pending requests
-      const recommendedUsers = Array.from(storage.users.values())
-        .filter(u => 
-          u.id !== currentUser.id && 
-          !friendIds.includes(u.id) && 
-          !pendingRequestUserIds.includes(u.id)
-        )
-        .map(u => ({
-          id: u.id,
-          username: u.username,
-          displayName: u.displayName,
-          profilePicture: u.profilePicture,
-          department: u.department,
-          yearOfStudy: u.yearOfStudy,
-          institution: u.institution
-        }));
-      
-      res.json(recommendedUsers);
+
+      const events = await getUpcomingEvents(user);
+      const page: UpcomingEventsPage = {
+        events: events.slice(offset, offset + limit),
+        total: events.length,
+        nextOffset: offset + limit < events.length ? offset + limit : null,
+      };
+      res.json(page);
     } catch (error) {
       next(error);
     }
@@ -1406,19 +2566,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const userPapers = await storage.getPapers({ uploaderId: userId });
-      const userDiscussions = await storage.getDiscussionPosts({ authorId: userId });
-      const userDiscussionReplies = await storage.getDiscussionReplies({ authorId: userId });
+      const userDiscussions = (await storage.getDiscussionPosts()).filter(post => post.authorId === userId);
+      const userDiscussionReplies = await storage.getDiscussionRepliesByAuthor(userId);
       const userGroups = await storage.getUserStudyGroups(userId);
-      // const userSessionsAttended = await storage.getSessionsAttended(userId); // Placeholder if method existed
-      // const userTotalStudyHours = await storage.getTotalStudyHours(userId); // Placeholder if method existed
+      const userSessionsAttended = await storage.getSessionsAttended(userId);
+      const userTotalStudyHours = await storage.getTotalStudyHours(userId);
 
       res.json({
         papersUploaded: userPapers.length,
         discussionsStarted: userDiscussions.length,
         discussionReplies: userDiscussionReplies.length, // Assuming you want to count replies made by the user
         groupsJoined: userGroups.length,
-        sessionsAttended: 0, // Placeholder
-        totalStudyHours: 0   // Placeholder
+        sessionsAttended: userSessionsAttended.length,
+        totalStudyHours: Math.round(userTotalStudyHours * 10) / 10
       });
     } catch (error) {
       console.error("Error fetching user stats:", error);
@@ -1498,6 +2658,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isBanned: true,
         banReason: reason
       });
+      invalidateUserSuggestions();
 
       // Log admin action
       await storage.createAdminAction({
@@ -1521,6 +2682,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isBanned: false,
         banReason: null
       });
+      invalidateUserSuggestions();
 
       // Log admin action
       await storage.createAdminAction({
@@ -1539,7 +2701,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/admin/papers/:id', isAdmin, async (req, res, next) => {
     try {
       const paperId = parseInt(req.params.id);
-      await storage.deletePaper(paperId);
+      const paper = await storage.getPaper(paperId);
+
+      if (!paper) {
+        return res.status(404).send('Paper not found');
+      }
+
+      await deletePaperAndFiles(paper);
 
       // Log admin action
       await storage.createAdminAction({
@@ -1555,10 +2723,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/papers/duplicates', isAdmin, async (req, res, next) => {
+    try {
+      res.json(await findDuplicateClusters());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Keeps one paper of a duplicate cluster, adding the others' downloads to it
+  app.post('/api/admin/papers/merge', isAdmin, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const { targetId, duplicateIds } = mergePapersSchema.parse(req.body);
+      const [target, ...duplicates] = await Promise.all(
+        [targetId, ...duplicateIds].map(id => storage.getPaper(id))
+      );
+
+      if (!target || duplicates.some(paper => !paper)) {
+        return res.status(404).send('Paper not found');
+      }
+
+      const merged = await mergeDuplicatePapers(target, duplicates as Paper[]);
+
+      // Log admin action
+      for (const duplicateId of duplicateIds) {
+        await storage.createAdminAction({
+          adminId: user.id,
+          targetType: 'paper',
+          targetId: duplicateId,
+          action: 'merge',
+          reason: `Merged into paper #${target.id}`
+        });
+      }
+
+      res.json(merged);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
   app.delete('/api/admin/discussions/:id', isAdmin, async (req, res, next) => {
     try {
       const discussionId = parseInt(req.params.id);
       await storage.deleteDiscussionPost(discussionId);
+      removeFromSearch('discussion', discussionId);
 
       // Log admin action
       await storage.createAdminAction({
@@ -1607,22 +2823,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct/private messages between users
   app.post('/api/messages', isAuthenticated, async (req, res, next) => {
     try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
       console.log('Message payload:', req.body); // Debug log
       const { recipientId, receiverId, content } = req.body;
       const finalRecipientId = recipientId || receiverId;
       if (!finalRecipientId || !content) {
         return res.status(400).json({ message: "Recipient and content are required" });
       }
-      // Save the message (implement this in your storage)
-      const message = await storage.createDirectMessage({
-        senderId: req.user.id,
+      const messageData = insertDirectMessageSchema.parse({
+        senderId: user.id,
         receiverId: finalRecipientId,
-        content,
-        createdAt: new Date(),
-        isRead: false
+        content
+      });
+
+      // Direct messages are between friends only
+      if (!(await storage.checkFriendship(messageData.senderId, messageData.receiverId))) {
+        return res.status(403).json({ message: "You can only message your friends" });
+      }
+
+      const message = await storage.createDirectMessage(messageData);
+      
+      // Push to both participants so every open tab of the sender stays in sync too
+      publishToUsers([message.senderId, message.receiverId], {
+        type: 'direct_message',
+        message
+      });
+      
+      await notifyUsers([message.receiverId], {
+        type: 'direct_message',
+        title: `New message from ${user.displayName || user.username}`,
+        message: message.content.length > 100 ? `${message.content.slice(0, 97)}...` : message.content,
+        link: '/friends',
+        actorId: user.id
       });
+      
       res.status(201).json(message);
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
       next(error);
     }
   });
@@ -1657,6 +2901,237 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // One conversation per chat partner, most recent first
+  app.get('/api/conversations', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const userId = user.id;
+      const messages = await storage.getDirectMessages(userId);
+
+      // Messages come back oldest first, so the last one seen per partner is the latest
+      const byPartner = new Map<number, { lastMessage: DirectMessage; unreadCount: number }>();
+      messages.forEach(message => {
+        const partnerId = message.senderId === userId ? message.receiverId : message.senderId;
+        const unread = message.receiverId === userId && !message.isRead ? 1 : 0;
+        const existing = byPartner.get(partnerId);
+        byPartner.set(partnerId, {
+          lastMessage: message,
+          unreadCount: (existing?.unreadCount ?? 0) + unread
+        });
+      });
+
+      const conversations = await Promise.all(
+        Array.from(byPartner.entries()).map(async ([partnerId, { lastMessage, unreadCount }]): Promise<ChatConversation> => {
+          const partner = await storage.getUser(partnerId);
+          return {
+            id: partnerId,
+            participantIds: [userId, partnerId],
+            lastMessageId: lastMessage.id,
+            lastMessage: lastMessage.content,
+            lastMessageTime: lastMessage.createdAt,
+            unreadCount,
+            participants: [
+              {
+                id: userId,
+                name: user.displayName || user.username,
+                avatar: user.profilePicture ?? undefined
+              },
+              {
+                id: partnerId,
+                name: partner ? partner.displayName || partner.username : 'Deleted user',
+                avatar: partner?.profilePicture ?? undefined
+              }
+            ]
+          };
+        })
+      );
+
+      conversations.sort((a, b) =>
+        new Date(b.lastMessageTime!).getTime() - new Date(a.lastMessageTime!).getTime()
+      );
+      res.json(conversations);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Mark every message the other user sent to the current user as read
+  app.post('/api/conversations/:userId/read', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const senderId = parseInt(req.params.userId);
+      if (isNaN(senderId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      const readMessages = await storage.markDirectMessagesRead(user.id, senderId);
+
+      if (readMessages.length > 0) {
+        // Read receipt for the sender, and unread counters for the reader's other tabs
+        publishToUsers([senderId, user.id], {
+          type: 'messages_read',
+          readerId: user.id,
+          senderId,
+          messageIds: readMessages.map(message => message.id)
+        });
+      }
+
+      res.json({ count: readMessages.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Notification center
+  app.get('/api/notifications', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const limit = parseInt(req.query.limit as string) || 20;
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(user.id, limit),
+        storage.getUnreadNotificationCount(user.id)
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/notifications/read-all', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const count = await storage.markAllNotificationsRead(user.id);
+      res.json({ count });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/notifications/:id/read', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const notificationId = parseInt(req.params.id);
+      const notification = await storage.markNotificationRead(notificationId, user.id);
+
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Session reminders waiting to be shown, polled by the client
+  app.get('/api/reminders', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const now = new Date();
+      const reminders = await storage.getPendingSessionReminders(user.id);
+
+      const pending = await Promise.all(reminders.map(async (reminder): Promise<PendingSessionReminder | null> => {
+        const series = await storage.getStudySession(reminder.sessionId);
+        if (!series) return null;
+
+        const exceptions = await storage.getStudySessionExceptions([series.id]);
+        const session = findSessionOccurrence(series, exceptions, new Date(reminder.occurrenceStart));
+        // Nothing left to remind about once the session was cancelled or has started
+        if (!session || new Date(session.startTime) <= now) return null;
+
+        const group = await storage.getStudyGroup(session.groupId);
+        return { ...reminder, session, groupName: group?.name || 'Study group' };
+      }));
+
+      res.json(pending.filter((reminder): reminder is PendingSessionReminder => reminder !== null));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/reminders/:id/dismiss', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+
+      const reminderId = parseInt(req.params.id);
+      const reminder = await storage.dismissSessionReminder(reminderId, user.id);
+
+      if (!reminder) {
+        return res.status(404).json({ error: "Reminder not found" });
+      }
+      res.json(reminder);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Notification preferences from the settings page
+  app.get('/api/user/:id/notifications', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+      if (parseInt(req.params.id) !== user.id) {
+        return res.status(403).json({ error: "You can only view your own notification settings" });
+      }
+      res.json(getNotificationPreferences(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch('/api/user/:id/notifications', isAuthenticated, async (req, res, next) => {
+    try {
+      const { user } = req;
+      if (!user) {
+        return res.sendStatus(401);
+      }
+      if (parseInt(req.params.id) !== user.id) {
+        return res.status(403).json({ error: "You can only change your own notification settings" });
+      }
+
+      const preferences = notificationPreferencesSchema.parse({
+        ...getNotificationPreferences(user),
+        ...req.body
+      });
+      const updatedUser = await storage.updateNotificationPreferences(user.id, preferences);
+      res.json(getNotificationPreferences(updatedUser));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      next(error);
+    }
+  });
+
   // Admin management endpoints
   app.post('/api/admin/users/:userId/make-admin', isAuthenticated, isAdmin, async (req, res, next) => {
     try {
@@ -1707,5 +3182,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
+  setupPresence();
+  setupPomodoro();
   return httpServer;
 }
@@ -0,0 +1,27 @@
+import type { Paper, SavedSearch } from "@shared/schema";
+import { storage } from "./storage";
+import { paperMatchesSearch, type SearchFilters } from "./search";
+
+function savedSearchFilters(search: SavedSearch): SearchFilters {
+  return {
+    course: search.course ?? undefined,
+    year: search.year ?? undefined,
+    institution: search.institution ?? undefined,
+    resourceType: search.resourceType ?? undefined,
+  };
+}
+
+/**
+ * Counts a newly uploaded paper towards every saved search it matches,
+ * except the uploader's own. The counts are reset when a search is opened.
+ */
+export async function recordSavedSearchMatches(paper: Paper): Promise<void> {
+  const searches = await storage.getAllSavedSearches();
+  const matching = searches.filter((search) =>
+    search.userId !== paper.uploaderId &&
+    paperMatchesSearch(paper, search.query, savedSearchFilters(search)));
+
+  for (const search of matching) {
+    await storage.incrementSavedSearchMatches(search.id);
+  }
+}
@@ -0,0 +1,156 @@
+import type { HighlightedText } from "@shared/types";
+
+// Words too common to say anything about a document
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have",
+  "how", "i", "if", "in", "into", "is", "it", "its", "of", "on", "or", "so", "that",
+  "the", "their", "then", "there", "these", "this", "to", "was", "we", "were", "what",
+  "when", "which", "who", "will", "with", "you", "your",
+]);
+
+// Letters and digits of any script. Built from a string because the
+// compile target predates the u flag in regex literals.
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+const SNIPPET_LENGTH = 180;
+const SNIPPET_LEAD = 40;
+
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+const STEP2_SUFFIXES: [string, string][] = [
+  ["ational", "ate"], ["tional", "tion"], ["ization", "ize"], ["fulness", "ful"],
+  ["ousness", "ous"], ["iveness", "ive"], ["biliti", "ble"], ["ation", "ate"],
+  ["ator", "ate"], ["aliti", "al"], ["iviti", "ive"], ["ousli", "ous"],
+  ["entli", "ent"], ["izer", "ize"], ["alli", "al"], ["eli", "e"],
+];
+
+const STEP3_SUFFIXES: [string, string][] = [
+  ["icate", "ic"], ["ative", ""], ["alize", "al"], ["iciti", "ic"],
+  ["ical", "ic"], ["ness", ""], ["ful", ""],
+];
+
+const hasVowel = (word: string) => /[aeiouy]/.test(word);
+
+function replaceSuffix(word: string, suffixes: [string, string][], minStem: number) {
+  for (const [suffix, replacement] of suffixes) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return stem.length >= minStem ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+/**
+ * A light English stemmer after the first steps of Porter's algorithm, so
+ * "studies", "studying" and "studied" all index as "studi". It only has to be
+ * consistent between indexing and querying, not produce real words.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith("sses")) result = result.slice(0, -2);
+  else if (result.endsWith("ies")) result = result.slice(0, -2);
+  else if (result.endsWith("s") && !/(ss|us|is)$/.test(result)) result = result.slice(0, -1);
+
+  if (result.endsWith("eed")) {
+    if (result.length > 4) result = result.slice(0, -1);
+  } else {
+    const suffix = result.endsWith("ing") ? "ing" : result.endsWith("ed") ? "ed" : null;
+    const base = suffix ? result.slice(0, -suffix.length) : "";
+    if (suffix && base.length >= 2 && hasVowel(base)) {
+      result = base;
+      if (/(at|bl|iz)$/.test(result)) {
+        result += "e";
+      } else if (/([^aeiouylsz])\1$/.test(result)) {
+        result = result.slice(0, -1);
+      }
+    }
+  }
+
+  if (/[^aeiou]y$/.test(result) && result.length > 3) {
+    result = result.slice(0, -1) + "i";
+  }
+
+  result = replaceSuffix(result, STEP2_SUFFIXES, 3);
+  return replaceSuffix(result, STEP3_SUFFIXES, 3);
+}
+
+// Lowercased words of a text as written, for matching that shouldn't stem
+export function words(text: string): string[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => match[0].toLowerCase());
+}
+
+// Indexable terms of a text with where they came from, stop words left out
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    const word = match[0].toLowerCase();
+    if (STOP_WORDS.has(word)) continue;
+
+    const start = match.index ?? 0;
+    tokens.push({ term: stem(word), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+export function toTerms(text: string): string[] {
+  return tokenize(text).map((token) => token.term);
+}
+
+function highlightRange(text: string, tokens: Token[], terms: Set<string>, from: number, to: number): HighlightedText {
+  const parts: HighlightedText = [];
+  let position = from;
+
+  tokens
+    .filter((token) => terms.has(token.term) && token.start >= from && token.end <= to)
+    .forEach((token) => {
+      if (token.start > position) {
+        parts.push({ text: text.slice(position, token.start), highlight: false });
+      }
+      parts.push({ text: text.slice(token.start, token.end), highlight: true });
+      position = token.end;
+    });
+
+  if (position < to) {
+    parts.push({ text: text.slice(position, to), highlight: false });
+  }
+  return parts;
+}
+
+// The whole text, with words matching any of the terms flagged
+export function highlight(text: string, terms: Set<string>): HighlightedText {
+  return highlightRange(text, tokenize(text), terms, 0, text.length);
+}
+
+/**
+ * An excerpt of the text around its first word matching one of the terms,
+ * cut at word boundaries and marked with ellipses where shortened. Empty
+ * when nothing matches.
+ */
+export function snippet(text: string, terms: Set<string>): HighlightedText {
+  const tokens = tokenize(text);
+  const first = tokens.find((token) => terms.has(token.term));
+  if (!first) return [];
+
+  let from = Math.max(0, first.start - SNIPPET_LEAD);
+  let to = Math.min(text.length, from + SNIPPET_LENGTH);
+  if (from > 0) {
+    const space = text.indexOf(" ", from);
+    from = space >= 0 && space < first.start ? space + 1 : first.start;
+  }
+  if (to < text.length) {
+    const space = text.lastIndexOf(" ", to);
+    to = space > first.end ? space : to;
+  }
+
+  const parts = highlightRange(text, tokens, terms, from, to);
+  if (from > 0) parts.unshift({ text: "…", highlight: false });
+  if (to < text.length) parts.push({ text: "…", highlight: false });
+  return parts;
+}
@@ -0,0 +1,402 @@
+import type { DiscussionPost, Paper, StudyGroup, StudySession } from "@shared/schema";
+import type { SearchFacetCount, SearchResponse, SearchResult, SearchResultType } from "@shared/types";
+import { storage } from "./storage";
+import { highlight, snippet, toTerms } from "./search-tokenizer";
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// A match in the title counts as much as three in the body
+const FIELD_WEIGHTS = {
+  title: 3,
+  course: 2,
+  tags: 2,
+  body: 1,
+  // Text extracted from an uploaded file
+  content: 1,
+};
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+export interface SearchFilters {
+  type?: SearchResultType;
+  course?: string;
+  year?: string;
+  institution?: string;
+  resourceType?: string;
+}
+
+type FacetName = keyof SearchResponse["facets"];
+
+export interface SearchDocument {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  url: string;
+  date: Date;
+  fields: Partial<Record<SearchField, string>>;
+  course: string | null;
+  year: string | null;
+  institution: string | null;
+  resourceType: string | null;
+  tags?: string[];
+  // Extracted text of a paper's file, one entry per page
+  pages?: string[];
+  // Left out of results after this time, e.g. sessions that are over
+  visibleUntil?: Date;
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  // Weighted term frequencies
+  terms: Map<string, number>;
+  length: number;
+}
+
+const documentKey = (type: SearchResultType, id: number) => `${type}:${id}`;
+
+/**
+ * In-process inverted index over papers, discussions, groups and sessions,
+ * ranked with BM25 over weighted fields. Terms are stemmed, so a query
+ * matches other forms of the same word.
+ */
+class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> document key -> weighted term frequency
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  add(document: SearchDocument) {
+    const key = documentKey(document.type, document.id);
+    this.remove(document.type, document.id);
+
+    const terms = new Map<string, number>();
+    let length = 0;
+    (Object.keys(document.fields) as SearchField[]).forEach((field) => {
+      const weight = FIELD_WEIGHTS[field];
+      toTerms(document.fields[field] ?? "").forEach((term) => {
+        terms.set(term, (terms.get(term) ?? 0) + weight);
+        length += weight;
+      });
+    });
+
+    terms.forEach((frequency, term) => {
+      const postings = this.postings.get(term) ?? new Map<string, number>();
+      postings.set(key, frequency);
+      this.postings.set(term, postings);
+    });
+    this.documents.set(key, { document, terms, length });
+    this.totalLength += length;
+  }
+
+  remove(type: SearchResultType, id: number) {
+    const key = documentKey(type, id);
+    const indexed = this.documents.get(key);
+    if (!indexed) return;
+
+    indexed.terms.forEach((_, term) => {
+      const postings = this.postings.get(term);
+      postings?.delete(key);
+      if (postings?.size === 0) this.postings.delete(term);
+    });
+    this.documents.delete(key);
+    this.totalLength -= indexed.length;
+  }
+
+  get(type: SearchResultType, id: number): SearchDocument | undefined {
+    return this.documents.get(documentKey(type, id))?.document;
+  }
+
+  all(now: Date): SearchDocument[] {
+    return Array.from(this.documents.values(), ({ document }) => document)
+      .filter((document) => !document.visibleUntil || document.visibleUntil >= now);
+  }
+
+  // Documents matching any of the terms, best first
+  search(terms: string[], now: Date): { document: SearchDocument; score: number }[] {
+    const count = this.documents.size;
+    if (count === 0) return [];
+    const averageLength = this.totalLength / count;
+    const scores = new Map<string, number>();
+
+    Array.from(new Set(terms)).forEach((term) => {
+      const postings = this.postings.get(term);
+      if (!postings) return;
+
+      const idf = Math.log(1 + (count - postings.size + 0.5) / (postings.size + 0.5));
+      postings.forEach((frequency, key) => {
+        const length = this.documents.get(key)!.length;
+        const normalized = frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(key, (scores.get(key) ?? 0) + idf * normalized);
+      });
+    });
+
+    const results: { document: SearchDocument; score: number }[] = [];
+    scores.forEach((score, key) => {
+      const { document } = this.documents.get(key)!;
+      if (document.visibleUntil && document.visibleUntil < now) return;
+      results.push({ document, score });
+    });
+
+    // Ties go to the newest
+    return results.sort((a, b) => b.score - a.score || b.document.date.getTime() - a.document.date.getTime());
+  }
+}
+
+const index = new SearchIndex();
+
+// Set while the index is first filled from storage
+let building: Promise<void> | null = null;
+let built = false;
+// Bumped on every change, so what callers derive from the documents can be kept until it's stale
+let indexVersion = 0;
+
+function paperDocument(paper: Paper, pages?: string[]): SearchDocument {
+  return {
+    type: "paper",
+    id: paper.id,
+    title: paper.title,
+    url: `/papers/${paper.id}`,
+    date: new Date(paper.uploadDate),
+    fields: {
+      title: paper.title,
+      course: `${paper.course} ${paper.institution}`,
+      body: paper.description ?? undefined,
+      content: pages?.join("\n"),
+    },
+    course: paper.course,
+    year: paper.year,
+    institution: paper.institution,
+    resourceType: paper.resourceType,
+    pages,
+  };
+}
+
+function discussionDocument(post: DiscussionPost): SearchDocument {
+  return {
+    type: "discussion",
+    id: post.id,
+    title: post.title,
+    url: `/discussions/${post.id}`,
+    date: new Date(post.createdAt),
+    fields: {
+      title: post.title,
+      course: post.course ?? undefined,
+      tags: post.tags?.join(" "),
+      body: post.content,
+    },
+    course: post.course,
+    year: null,
+    institution: null,
+    resourceType: null,
+    tags: post.tags ?? undefined,
+  };
+}
+
+function groupDocument(group: StudyGroup): SearchDocument {
+  return {
+    type: "group",
+    id: group.id,
+    title: group.name,
+    url: `/groups/${group.id}`,
+    date: new Date(group.createdAt),
+    fields: {
+      title: group.name,
+      course: group.course ?? undefined,
+      body: group.description ?? undefined,
+    },
+    course: group.course,
+    year: null,
+    institution: null,
+    resourceType: null,
+  };
+}
+
+function sessionDocument(session: StudySession): SearchDocument {
+  return {
+    type: "session",
+    id: session.id,
+    title: session.title,
+    url: `/sessions?id=${session.id}`,
+    date: new Date(session.startTime),
+    fields: {
+      title: session.title,
+      body: [session.description, session.location].filter(Boolean).join("\n"),
+    },
+    course: null,
+    year: null,
+    institution: null,
+    resourceType: null,
+    // Recurring sessions stay findable while the series runs
+    visibleUntil: session.recurrence ? undefined : new Date(session.endTime),
+  };
+}
+
+async function buildIndex() {
+  const [papers, contents, posts, groups] = await Promise.all([
+    storage.getPapers(),
+    storage.getPaperContents(),
+    storage.getDiscussionPosts(),
+    storage.getStudyGroups(),
+  ]);
+  const sessions = (await Promise.all(groups.map((group) => storage.getStudySessions(group.id)))).flat();
+
+  const pages = new Map(contents.map((content) => [content.paperId, content.pages ?? undefined]));
+  papers.forEach((paper) => index.add(paperDocument(paper, pages.get(paper.id))));
+  posts.forEach((post) => index.add(discussionDocument(post)));
+  groups.forEach((group) => index.add(groupDocument(group)));
+  sessions.forEach((session) => index.add(sessionDocument(session)));
+  built = true;
+}
+
+function ensureIndex(): Promise<void> {
+  if (built) return Promise.resolve();
+  if (!building) {
+    building = buildIndex().catch((error) => {
+      building = null;
+      throw error;
+    });
+  }
+  return building;
+}
+
+// Before the first search there is nothing to keep up to date; the first build reads everything.
+// Changes made while it runs are applied once it's done so they aren't lost.
+function updateIndex(change: () => void) {
+  const apply = () => {
+    change();
+    indexVersion++;
+  };
+  if (built) {
+    apply();
+  } else if (building) {
+    building.then(apply, () => {});
+  }
+}
+
+// Without pages, a paper keeps the file text it was indexed with
+export const indexPaper = (paper: Paper, pages?: string[]) => updateIndex(() => {
+  index.add(paperDocument(paper, pages ?? index.get("paper", paper.id)?.pages));
+});
+export const indexDiscussion = (post: DiscussionPost) => updateIndex(() => index.add(discussionDocument(post)));
+export const indexGroup = (group: StudyGroup) => updateIndex(() => index.add(groupDocument(group)));
+export const indexSession = (session: StudySession) => updateIndex(() => index.add(sessionDocument(session)));
+
+export function removeFromSearch(type: SearchResultType, id: number) {
+  updateIndex(() => index.remove(type, id));
+}
+
+export const getSearchIndexVersion = () => indexVersion;
+
+// Everything searchable, for callers that match on titles and labels themselves
+export async function getSearchDocuments(now = new Date()): Promise<SearchDocument[]> {
+  await ensureIndex();
+  return index.all(now);
+}
+
+function matchesFilters(document: SearchDocument, filters: SearchFilters, ignore?: FacetName) {
+  return (Object.keys(filters) as FacetName[]).every((facet) => {
+    const value = filters[facet];
+    return facet === ignore || !value || document[facet]?.toLowerCase() === value.toLowerCase();
+  });
+}
+
+/**
+ * Whether a paper would be among the results of a search: some query word
+ * occurs in it and it passes the filters. Used to spot new papers for saved
+ * searches as they are uploaded.
+ */
+export function paperMatchesSearch(paper: Paper, query: string, filters: SearchFilters): boolean {
+  const document = paperDocument(paper);
+  const terms = new Set(toTerms(query));
+  const matchesQuery = Object.keys(document.fields).some((field) =>
+    toTerms(document.fields[field as SearchField] ?? "").some((term) => terms.has(term)));
+  return matchesQuery && matchesFilters(document, { ...filters, type: "paper" });
+}
+
+function countFacet(documents: SearchDocument[], facet: FacetName, filters: SearchFilters): SearchFacetCount[] {
+  const counts = new Map<string, SearchFacetCount>();
+  documents
+    .filter((document) => matchesFilters(document, filters, facet))
+    .forEach((document) => {
+      const value = document[facet];
+      if (!value) return;
+      // Values are grouped case-insensitively, named as first seen
+      const key = value.toLowerCase();
+      const count = counts.get(key) ?? { value, count: 0 };
+      count.count++;
+      counts.set(key, count);
+    });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// The page of a file matching the most query words; first page wins ties
+function matchedPage(pages: string[], terms: Set<string>): number | null {
+  let best: number | null = null;
+  let bestCount = 0;
+  pages.forEach((page, i) => {
+    const count = toTerms(page).filter((term) => terms.has(term)).length;
+    if (count > bestCount) {
+      best = i;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Ranked search across all content types, with highlighted titles and
+ * snippets for the requested page and facet counts for every match.
+ */
+export async function searchContent(
+  query: string,
+  filters: SearchFilters,
+  page: { offset: number; limit: number },
+  now = new Date()
+): Promise<SearchResponse> {
+  await ensureIndex();
+
+  const terms = toTerms(query);
+  const matches = index.search(terms, now);
+  const filtered = matches.filter(({ document }) => matchesFilters(document, filters));
+  const termSet = new Set(terms);
+
+  const results: SearchResult[] = filtered
+    .slice(page.offset, page.offset + page.limit)
+    .map(({ document, score }) => {
+      // File text is only quoted when the description doesn't match
+      const bodySnippet = snippet(document.fields.body ?? "", termSet);
+      const page = bodySnippet.length === 0 && document.pages ? matchedPage(document.pages, termSet) : null;
+
+      return {
+        id: document.id,
+        type: document.type,
+        title: document.title,
+        url: document.url,
+        score: Math.round(score * 1000) / 1000,
+        highlightedTitle: highlight(document.title, termSet),
+        snippet: page === null ? bodySnippet : snippet(document.pages![page], termSet),
+        // Numbered from 1, and only worth showing for files with several pages
+        matchedPage: page !== null && document.pages!.length > 1 ? page + 1 : null,
+        course: document.course,
+        year: document.year,
+        institution: document.institution,
+        date: document.date,
+      };
+    });
+
+  const documents = matches.map(({ document }) => document);
+  return {
+    results,
+    total: filtered.length,
+    facets: {
+      type: countFacet(documents, "type", filters),
+      course: countFacet(documents, "course", filters),
+      year: countFacet(documents, "year", filters),
+      institution: countFacet(documents, "institution", filters),
+      resourceType: countFacet(documents, "resourceType", filters),
+    },
+  };
+}
@@ -1,12 +1,22 @@
-import { users, type User, type InsertUser, papers, type Paper, type InsertPaper, discussionPosts, type DiscussionPost, type InsertDiscussionPost, discussionReplies, type DiscussionReply, type InsertDiscussionReply, resources, type Resource, type InsertResource, studyGroups, type StudyGroup, type InsertStudyGroup, studyGroupMembers, type StudyGroupMember, type InsertStudyGroupMember, studySessions, type StudySession, type InsertStudySession, activities, type Activity, type InsertActivity, groupChatMessages, type GroupChatMessage, type InsertGroupChatMessage, discussionComments, type DiscussionComment, type InsertDiscussionComment, adminActions, type AdminAction, type InsertAdminAction } from "@shared/schema";
+import { users, type User, type InsertUser, papers, type Paper, type InsertPaper, discussionPosts, type DiscussionPost, type InsertDiscussionPost, discussionReplies, type DiscussionReply, type InsertDiscussionReply, resources, type Resource, type InsertResource, studyGroups, type StudyGroup, type InsertStudyGroup, studyGroupMembers, type StudyGroupMember, type InsertStudyGroupMember, studySessions, type StudySession, type InsertStudySession, activities, type Activity, type InsertActivity, groupChatMessages, type GroupChatMessage, type InsertGroupChatMessage, discussionComments, type DiscussionComment, type InsertDiscussionComment, adminActions, type AdminAction, type InsertAdminAction, friendRequests, type FriendRequest, type InsertFriendRequest, type FriendRequestStatus, friendships, type Friendship, directMessages, type DirectMessage, type InsertDirectMessage, notifications, type Notification, type InsertNotification, type NotificationPreferences, sessionReminders, type SessionReminder, type InsertSessionReminder, studySessionExceptions, type StudySessionException, type InsertStudySessionException, sessionAttendance, type SessionAttendance, type InsertSessionAttendance, studyLogEntries, type StudyLogEntry, type InsertStudyLogEntry, studyGoals, type StudyGoal, type InsertStudyGoal, exams, type Exam, type InsertExam, groupTimers, type GroupTimer, type InsertGroupTimer, paperContents, type PaperContent, type InsertPaperContent, paperVersions, type PaperVersion, type InsertPaperVersion, recentSearches, type RecentSearch, savedSearches, type SavedSearch, type InsertSavedSearch } from "@shared/schema";
+import { type Friend, type FriendRequest as FriendRequestWithSender, type UserDirectoryEntry } from "@shared/types";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
 import session from "express-session";
+import { and, asc, count, desc, eq, getTableColumns, gt, gte, inArray, isNotNull, isNull, lt, lte, or, sql, sum, type SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { connectDatabase, pushSchema, type Database, type DatabaseConnection } from "./db";
 
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// How many of a user's searches are remembered for the search bar
+const RECENT_SEARCHES_KEPT = 20;
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
+  getUsers(ids: number[]): Promise<User[]>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
@@ -19,18 +29,18 @@ export interface IStorage {
     institution?: string;
     department?: string;
   }): Promise<User>;
-  
-  // Search operations
-  searchPapers(query: string, limit?: number): Promise<Paper[]>;
-  searchDiscussions(query: string, limit?: number): Promise<DiscussionPost[]>;
-  searchGroups(query: string, limit?: number): Promise<StudyGroup[]>;
-  searchSessions(query: string, limit?: number): Promise<StudySession[]>;
+  updateUserLastActive(userId: number, lastActiveAt: Date): Promise<void>;
+  updateNotificationPreferences(userId: number, preferences: NotificationPreferences): Promise<User>;
+  updateUserLastDigest(userId: number, lastDigestAt: Date): Promise<void>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  updateUserCalendarToken(userId: number, calendarToken: string): Promise<User>;
   
   // Paper operations
   createPaper(paper: InsertPaper): Promise<Paper>;
   getPaper(id: number): Promise<Paper | undefined>;
   getPapers(filters?: Partial<Paper>): Promise<Paper[]>;
-  incrementPaperDownloads(id: number): Promise<Paper | undefined>;
+  updatePaper(id: number, changes: Partial<Omit<Paper, "id">>): Promise<Paper | undefined>;
+  incrementPaperDownloads(id: number, amount?: number): Promise<Paper | undefined>;
   
   // Discussion operations
   createDiscussionPost(post: InsertDiscussionPost): Promise<DiscussionPost>;
@@ -41,6 +51,7 @@ export interface IStorage {
   createDiscussionReply(reply: InsertDiscussionReply): Promise<DiscussionReply>;
   getDiscussionReply(id: number): Promise<DiscussionReply | null>;
   getDiscussionReplies(postId: number): Promise<DiscussionReply[]>;
+  getDiscussionRepliesByAuthor(authorId: number): Promise<DiscussionReply[]>;
   voteDiscussionReply(id: number, value: number): Promise<DiscussionReply>;
   acceptDiscussionReply(id: number): Promise<DiscussionReply>;
   
@@ -64,13 +75,101 @@ export interface IStorage {
   // Study group member operations
   addStudyGroupMember(member: InsertStudyGroupMember): Promise<StudyGroupMember>;
   getStudyGroupMembers(groupId: number): Promise<StudyGroupMember[]>;
+  // Every membership of any of the users
+  getStudyGroupMemberships(userIds: number[]): Promise<StudyGroupMember[]>;
   removeStudyGroupMember(groupId: number, userId: number): Promise<boolean>;
   
   // Study session operations
   createStudySession(session: InsertStudySession): Promise<StudySession>;
   getStudySession(id: number): Promise<StudySession | undefined>;
   getStudySessions(groupId: number): Promise<StudySession[]>;
+  getStudySessionsInGroups(groupIds: number[]): Promise<StudySession[]>;
+  // Recurring sessions are always included by these two; expand them to find the actual occurrences
   getUpcomingStudySessions(userId: number): Promise<StudySession[]>;
+  getStudySessionsStartingBetween(from: Date, to: Date): Promise<StudySession[]>;
+  updateStudySession(id: number, changes: Partial<InsertStudySession>): Promise<StudySession | undefined>;
+  deleteStudySession(id: number): Promise<boolean>;
+  getStudySessionExceptions(sessionIds: number[]): Promise<StudySessionException[]>;
+  saveStudySessionException(exception: InsertStudySessionException): Promise<StudySessionException>;
+  // Swaps all of a session's exceptions for the given ones
+  replaceStudySessionExceptions(sessionId: number, exceptions: InsertStudySessionException[]): Promise<void>;
+  
+  // Session attendance operations
+  saveSessionAttendance(attendance: InsertSessionAttendance): Promise<SessionAttendance>;
+  getSessionAttendance(sessionIds: number[]): Promise<SessionAttendance[]>;
+  getSessionsAttended(userId: number): Promise<SessionAttendance[]>;
+  
+  // Study log operations
+  createStudyLogEntry(entry: InsertStudyLogEntry): Promise<StudyLogEntry>;
+  getStudyLogEntry(id: number): Promise<StudyLogEntry | undefined>;
+  // Newest first, optionally limited to entries logged from `from` up to but excluding `to`
+  getStudyLogEntries(userId: number, range?: { from?: Date; to?: Date }): Promise<StudyLogEntry[]>;
+  deleteStudyLogEntry(id: number): Promise<boolean>;
+  getTotalStudyHours(userId: number): Promise<number>;
+  
+  // Study goal operations
+  createStudyGoal(goal: InsertStudyGoal): Promise<StudyGoal>;
+  getStudyGoal(id: number): Promise<StudyGoal | undefined>;
+  getStudyGoals(userId: number): Promise<StudyGoal[]>;
+  updateStudyGoal(id: number, changes: Partial<InsertStudyGoal>): Promise<StudyGoal | undefined>;
+  deleteStudyGoal(id: number): Promise<boolean>;
+  
+  // Exam operations
+  createExam(exam: InsertExam): Promise<Exam>;
+  getExam(id: number): Promise<Exam | undefined>;
+  // Soonest first; with `from`, only exams on or after it
+  getExams(userId: number, from?: Date): Promise<Exam[]>;
+  updateExam(id: number, changes: Partial<InsertExam>): Promise<Exam | undefined>;
+  deleteExam(id: number): Promise<boolean>;
+  
+  // Group Pomodoro timer operations
+  getGroupTimer(groupId: number): Promise<GroupTimer | undefined>;
+  // Creates the group's timer or replaces its state
+  saveGroupTimer(timer: InsertGroupTimer): Promise<GroupTimer>;
+  
+  // Paper content operations
+  getPaperContent(paperId: number): Promise<PaperContent | undefined>;
+  getPaperContents(): Promise<PaperContent[]>;
+  // Creates the paper's content row or replaces it
+  savePaperContent(content: InsertPaperContent): Promise<PaperContent>;
+  
+  // Paper version operations
+  createPaperVersion(version: InsertPaperVersion): Promise<PaperVersion>;
+  // Newest first
+  getPaperVersions(paperId: number): Promise<PaperVersion[]>;
+  getPaperVersion(paperId: number, version: number): Promise<PaperVersion | undefined>;
+  // Makes an already stored file the paper's next version in one step, so
+  // uploads at the same time get different numbers. The original upload is
+  // recorded first when the paper is replaced for the first time.
+  addPaperVersion(
+    paperId: number,
+    file: Pick<InsertPaperVersion, "fileUrl" | "changeNote" | "uploadedBy">,
+    contentHash: string,
+  ): Promise<Paper | undefined>;
+
+  // Recent search operations
+  // Records the query as the user's latest search, keeping only their newest RECENT_SEARCHES_KEPT
+  saveRecentSearch(userId: number, query: string): Promise<RecentSearch>;
+  // Newest first
+  getRecentSearches(userId: number): Promise<RecentSearch[]>;
+  clearRecentSearches(userId: number): Promise<void>;
+  
+  // Saved search operations
+  createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  getSavedSearch(id: number): Promise<SavedSearch | undefined>;
+  // Newest first
+  getSavedSearches(userId: number): Promise<SavedSearch[]>;
+  getAllSavedSearches(): Promise<SavedSearch[]>;
+  updateSavedSearch(id: number, changes: Partial<SavedSearch>): Promise<SavedSearch | undefined>;
+  incrementSavedSearchMatches(id: number): Promise<void>;
+  deleteSavedSearch(id: number): Promise<boolean>;
+  
+  // Session reminder operations
+  createSessionReminder(reminder: InsertSessionReminder): Promise<SessionReminder>;
+  getSessionReminders(sessionId: number): Promise<SessionReminder[]>;
+  // Reminders the user hasn't dismissed yet, oldest first
+  getPendingSessionReminders(userId: number): Promise<SessionReminder[]>;
+  dismissSessionReminder(id: number, userId: number): Promise<SessionReminder | undefined>;
   
   // Activity operations
   createActivity(activity: InsertActivity): Promise<Activity>;
@@ -82,20 +181,22 @@ export interface IStorage {
   getGroupChatMessages(groupId: number, limit?: number): Promise<GroupChatMessage[]>;
   
   // Session store for authentication
-  sessionStore: session.SessionStore;
+  sessionStore: session.Store;
 
   // Friend operations
-  getFriends(userId: number): Promise<any[]>;
-  createFriendship(user1Id: number, user2Id: number): Promise<any>;
-  getFriendRequest(senderId: number, receiverId: number): Promise<any>;
-  getFriendRequestById(requestId: number): Promise<any>;
-  getFriendRequests(userId: number): Promise<any[]>;
-  createFriendRequest(request: { senderId: number, receiverId: number, status: string, createdAt: Date }): Promise<any>;
-  updateFriendRequestStatus(requestId: number, status: string): Promise<any>;
+  getFriends(userId: number): Promise<Friend[]>;
+  createFriendship(user1Id: number, user2Id: number): Promise<Friendship>;
+  getFriendRequest(senderId: number, receiverId: number): Promise<FriendRequest | undefined>;
+  getFriendRequestById(requestId: number): Promise<FriendRequest | undefined>;
+  getFriendRequests(userId: number): Promise<FriendRequestWithSender[]>;
+  createFriendRequest(request: InsertFriendRequest): Promise<FriendRequest>;
+  updateFriendRequestStatus(requestId: number, status: FriendRequestStatus): Promise<FriendRequest>;
   checkFriendship(user1Id: number, user2Id: number): Promise<boolean>;
 
   // Admin methods
   getAllUsers(): Promise<User[]>;
+  // Just the names of users who aren't banned, for finding people
+  getUserDirectory(): Promise<UserDirectoryEntry[]>;
   getTotalUsers(): Promise<number>;
   getActiveUsers(): Promise<number>;
   getBannedUsers(): Promise<number>;
@@ -105,6 +206,7 @@ export interface IStorage {
   getTotalSessions(): Promise<number>;
   getAdminActions(): Promise<AdminAction[]>;
   createAdminAction(action: InsertAdminAction): Promise<AdminAction>;
+  // Deletes the paper with its version history and extracted text
   deletePaper(id: number): Promise<void>;
   deleteDiscussionPost(id: number): Promise<void>;
   setUserAsAdmin(userId: number, adminId: number): Promise<User>;
@@ -113,8 +215,20 @@ export interface IStorage {
   isFirstAdmin(userId: number): Promise<boolean>;
 
   // Direct message operations
-  createDirectMessage(message: Omit<ChatMessage, 'id'>): Promise<ChatMessage>;
-  getDirectMessages(userId1: number, userId2: number): Promise<ChatMessage[]>;
+  createDirectMessage(message: InsertDirectMessage): Promise<DirectMessage>;
+  // Messages between two users, or every message to or from userId1 when userId2 is omitted
+  getDirectMessages(userId1: number, userId2?: number): Promise<DirectMessage[]>;
+  // Marks unread messages from senderId to receiverId as read and returns them
+  markDirectMessagesRead(receiverId: number, senderId: number): Promise<DirectMessage[]>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotifications(userId: number, limit?: number): Promise<Notification[]>;
+  // Oldest first, for batching into digests
+  getNotificationsSince(userId: number, since: Date): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
@@ -129,15 +243,39 @@ export class MemStorage implements IStorage {
   private studySessions: Map<number, StudySession>;
   private activities: Map<number, Activity>;
   private groupChatMessages: Map<number, GroupChatMessage>;
-  private friendRequests: Map<number, any>;
-  private friendships: Map<number, any>;
+  private friendRequests: Map<number, FriendRequest>;
+  private friendships: Map<number, Friendship>;
   private adminActions: Map<number, AdminAction> = new Map();
   private nextAdminActionId = 1;
-  private directMessages: Map<number, ChatMessage> = new Map();
+  private directMessages: Map<number, DirectMessage> = new Map();
   private currentDirectMessageId: number = 1;
+  private notifications: Map<number, Notification> = new Map();
+  private currentNotificationId: number = 1;
+  private sessionReminders: Map<number, SessionReminder> = new Map();
+  private currentSessionReminderId: number = 1;
+  private studySessionExceptions: Map<number, StudySessionException> = new Map();
+  private currentStudySessionExceptionId: number = 1;
+  private sessionAttendance: Map<number, SessionAttendance> = new Map();
+  private currentSessionAttendanceId: number = 1;
+  private studyLogEntries: Map<number, StudyLogEntry> = new Map();
+  private currentStudyLogEntryId: number = 1;
+  private studyGoals: Map<number, StudyGoal> = new Map();
+  private currentStudyGoalId: number = 1;
+  private exams: Map<number, Exam> = new Map();
+  private currentExamId: number = 1;
+  private groupTimers: Map<number, GroupTimer> = new Map();
+  private currentGroupTimerId: number = 1;
+  private paperContents: Map<number, PaperContent> = new Map();
+  private currentPaperContentId: number = 1;
+  private paperVersions: Map<number, PaperVersion> = new Map();
+  private currentPaperVersionId: number = 1;
+  private recentSearches: Map<number, RecentSearch> = new Map();
+  private currentRecentSearchId: number = 1;
+  private savedSearches: Map<number, SavedSearch> = new Map();
+  private currentSavedSearchId: number = 1;
   private firstAdminId: number | null = null;
   
-  sessionStore: session.SessionStore;
+  sessionStore: session.Store;
   
   currentUserId: number;
   currentPaperId: number;
@@ -188,6 +326,10 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getUsers(ids: number[]): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => ids.includes(user.id));
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username.toLowerCase() === username.toLowerCase(),
@@ -213,7 +355,12 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       createdAt: now,
-      points: 0
+      updatedAt: now,
+      points: 0,
+      lastActiveAt: null,
+      notificationPreferences: null,
+      lastDigestAt: null,
+      calendarToken: null
     };
     this.users.set(id, user);
     return user;
@@ -257,6 +404,47 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  async updateUserLastActive(userId: number, lastActiveAt: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, lastActiveAt });
+    }
+  }
+
+  async updateNotificationPreferences(userId: number, preferences: NotificationPreferences): Promise<User> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    const updatedUser = { ...user, notificationPreferences: preferences };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserLastDigest(userId: number, lastDigestAt: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, lastDigestAt });
+    }
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.calendarToken === token,
+    );
+  }
+
+  async updateUserCalendarToken(userId: number, calendarToken: string): Promise<User> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const updatedUser = { ...user, calendarToken };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
   // Paper operations
   async createPaper(paper: InsertPaper): Promise<Paper> {
     const id = this.currentPaperId++;
@@ -265,7 +453,9 @@ export class MemStorage implements IStorage {
       ...paper,
       id,
       uploadDate: now,
-      downloads: 0
+      downloads: 0,
+      version: 1,
+      contentHash: paper.contentHash ?? null
     };
     this.papers.set(id, newPaper);
     return newPaper;
@@ -287,11 +477,20 @@ export class MemStorage implements IStorage {
     });
   }
   
-  async incrementPaperDownloads(id: number): Promise<Paper | undefined> {
+  async updatePaper(id: number, changes: Partial<Omit<Paper, "id">>): Promise<Paper | undefined> {
+    const paper = this.papers.get(id);
+    if (!paper) return undefined;
+
+    const updatedPaper = { ...paper, ...changes };
+    this.papers.set(id, updatedPaper);
+    return updatedPaper;
+  }
+
+  async incrementPaperDownloads(id: number, amount = 1): Promise<Paper | undefined> {
     const paper = await this.getPaper(id);
     if (!paper) return undefined;
     
-    const updatedPaper = { ...paper, downloads: paper.downloads + 1 };
+    const updatedPaper = { ...paper, downloads: paper.downloads + amount };
     this.papers.set(id, updatedPaper);
     return updatedPaper;
   }
@@ -378,7 +577,8 @@ export class MemStorage implements IStorage {
       id,
       createdAt: now,
       updatedAt: now,
-      votes: 0
+      votes: 0,
+      isAccepted: false
     };
     this.discussionReplies.set(id, newReply);
     return newReply;
@@ -388,6 +588,11 @@ export class MemStorage implements IStorage {
     return this.discussionReplies.get(id) || null;
   }
   
+  async getDiscussionRepliesByAuthor(authorId: number): Promise<DiscussionReply[]> {
+    return Array.from(this.discussionReplies.values())
+      .filter(reply => reply.authorId === authorId);
+  }
+
   async getDiscussionReplies(postId: number): Promise<DiscussionReply[]> {
     const replies = Array.from(this.discussionReplies.values())
       .filter(reply => reply.postId === postId);
@@ -418,7 +623,7 @@ export class MemStorage implements IStorage {
     const reply = await this.getDiscussionReply(id);
     if (!reply) throw new Error('Discussion reply not found');
     
-    const updatedReply = { ...reply, accepted: true };
+    const updatedReply = { ...reply, isAccepted: true };
     this.discussionReplies.set(id, updatedReply);
     return updatedReply;
   }
@@ -558,6 +763,11 @@ export class MemStorage implements IStorage {
     return Array.from(this.studyGroupMembers.values())
       .filter(member => member.groupId === groupId);
   }
+
+  async getStudyGroupMemberships(userIds: number[]): Promise<StudyGroupMember[]> {
+    return Array.from(this.studyGroupMembers.values())
+      .filter(member => userIds.includes(member.userId));
+  }
   
   async removeStudyGroupMember(groupId: number, userId: number): Promise<boolean> {
     const memberToDelete = Array.from(this.studyGroupMembers.values())
@@ -575,6 +785,7 @@ export class MemStorage implements IStorage {
     const id = this.currentStudySessionId++;
     const newSession: StudySession = {
       ...session,
+      recurrence: session.recurrence ?? null,
       id
     };
     this.studySessions.set(id, newSession);
@@ -589,6 +800,11 @@ export class MemStorage implements IStorage {
     return Array.from(this.studySessions.values())
       .filter(session => session.groupId === groupId);
   }
+
+  async getStudySessionsInGroups(groupIds: number[]): Promise<StudySession[]> {
+    return Array.from(this.studySessions.values())
+      .filter(session => groupIds.includes(session.groupId));
+  }
   
   async getUpcomingStudySessions(userId: number): Promise<StudySession[]> {
     // Get all groups where user is a member
@@ -600,11 +816,431 @@ export class MemStorage implements IStorage {
     return Array.from(this.studySessions.values())
       .filter(session => 
         memberGroups.includes(session.groupId) && 
-        new Date(session.startTime) > now
+        (session.recurrence || new Date(session.startTime) > now)
       )
       .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
   }
 
+  async getStudySessionsStartingBetween(from: Date, to: Date): Promise<StudySession[]> {
+    return Array.from(this.studySessions.values())
+      .filter(session => {
+        const startTime = new Date(session.startTime);
+        return session.recurrence || (startTime > from && startTime <= to);
+      })
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  }
+
+  async updateStudySession(id: number, changes: Partial<InsertStudySession>): Promise<StudySession | undefined> {
+    const session = this.studySessions.get(id);
+    if (!session) return undefined;
+
+    const updatedSession: StudySession = { ...session, ...changes };
+    this.studySessions.set(id, updatedSession);
+    return updatedSession;
+  }
+
+  async deleteStudySession(id: number): Promise<boolean> {
+    Array.from(this.studySessionExceptions.values())
+      .filter(exception => exception.sessionId === id)
+      .forEach(exception => this.studySessionExceptions.delete(exception.id));
+    Array.from(this.sessionReminders.values())
+      .filter(reminder => reminder.sessionId === id)
+      .forEach(reminder => this.sessionReminders.delete(reminder.id));
+    // Attendance is kept so past check-ins still count towards user stats
+
+    return this.studySessions.delete(id);
+  }
+
+  async getStudySessionExceptions(sessionIds: number[]): Promise<StudySessionException[]> {
+    return Array.from(this.studySessionExceptions.values())
+      .filter(exception => sessionIds.includes(exception.sessionId));
+  }
+
+  async saveStudySessionException(exception: InsertStudySessionException): Promise<StudySessionException> {
+    const existing = Array.from(this.studySessionExceptions.values()).find(e =>
+      e.sessionId === exception.sessionId &&
+      e.occurrenceStart.getTime() === exception.occurrenceStart.getTime()
+    );
+
+    // Like the upsert in DatabaseStorage, fields that aren't given keep their saved value
+    const changes = Object.fromEntries(
+      Object.entries(exception).filter(([, value]) => value !== undefined)
+    ) as InsertStudySessionException;
+
+    const saved: StudySessionException = {
+      title: null,
+      description: null,
+      startTime: null,
+      endTime: null,
+      location: null,
+      isVirtual: null,
+      meetingLink: null,
+      isCancelled: false,
+      ...existing,
+      ...changes,
+      id: existing?.id ?? this.currentStudySessionExceptionId++,
+    };
+    this.studySessionExceptions.set(saved.id, saved);
+    return saved;
+  }
+
+  async replaceStudySessionExceptions(sessionId: number, exceptions: InsertStudySessionException[]): Promise<void> {
+    Array.from(this.studySessionExceptions.values())
+      .filter(exception => exception.sessionId === sessionId)
+      .forEach(exception => this.studySessionExceptions.delete(exception.id));
+    for (const exception of exceptions) {
+      await this.saveStudySessionException({ ...exception, sessionId });
+    }
+  }
+
+  // Session attendance operations
+  async saveSessionAttendance(attendance: InsertSessionAttendance): Promise<SessionAttendance> {
+    const existing = Array.from(this.sessionAttendance.values()).find(a =>
+      a.sessionId === attendance.sessionId &&
+      a.userId === attendance.userId &&
+      a.occurrenceStart.getTime() === attendance.occurrenceStart.getTime()
+    );
+
+    const changes = Object.fromEntries(
+      Object.entries(attendance).filter(([, value]) => value !== undefined)
+    ) as InsertSessionAttendance;
+
+    const saved: SessionAttendance = {
+      rsvp: null,
+      checkedInAt: null,
+      ...existing,
+      ...changes,
+      id: existing?.id ?? this.currentSessionAttendanceId++,
+      updatedAt: new Date(),
+    };
+    this.sessionAttendance.set(saved.id, saved);
+    return saved;
+  }
+
+  async getSessionAttendance(sessionIds: number[]): Promise<SessionAttendance[]> {
+    return Array.from(this.sessionAttendance.values())
+      .filter(attendance => sessionIds.includes(attendance.sessionId));
+  }
+
+  async getSessionsAttended(userId: number): Promise<SessionAttendance[]> {
+    return Array.from(this.sessionAttendance.values())
+      .filter(attendance => attendance.userId === userId && attendance.checkedInAt)
+      .sort((a, b) => b.checkedInAt!.getTime() - a.checkedInAt!.getTime());
+  }
+
+  // Study log operations
+  async createStudyLogEntry(entry: InsertStudyLogEntry): Promise<StudyLogEntry> {
+    const id = this.currentStudyLogEntryId++;
+    const newEntry: StudyLogEntry = {
+      source: "manual",
+      sessionId: null,
+      ...entry,
+      loggedAt: entry.loggedAt ?? new Date(),
+      id,
+    };
+    this.studyLogEntries.set(id, newEntry);
+    return newEntry;
+  }
+
+  async getStudyLogEntry(id: number): Promise<StudyLogEntry | undefined> {
+    return this.studyLogEntries.get(id);
+  }
+
+  async getStudyLogEntries(userId: number, range: { from?: Date; to?: Date } = {}): Promise<StudyLogEntry[]> {
+    return Array.from(this.studyLogEntries.values())
+      .filter(entry =>
+        entry.userId === userId &&
+        (!range.from || entry.loggedAt >= range.from) &&
+        (!range.to || entry.loggedAt < range.to)
+      )
+      .sort((a, b) => b.loggedAt.getTime() - a.loggedAt.getTime());
+  }
+
+  async deleteStudyLogEntry(id: number): Promise<boolean> {
+    return this.studyLogEntries.delete(id);
+  }
+
+  async getTotalStudyHours(userId: number): Promise<number> {
+    const entries = await this.getStudyLogEntries(userId);
+    return entries.reduce((total, entry) => total + entry.durationMinutes, 0) / 60;
+  }
+
+  // Study goal operations
+  async createStudyGoal(goal: InsertStudyGoal): Promise<StudyGoal> {
+    const id = this.currentStudyGoalId++;
+    const newGoal: StudyGoal = {
+      color: "bg-blue-500",
+      ...goal,
+      id,
+      createdAt: new Date(),
+    };
+    this.studyGoals.set(id, newGoal);
+    return newGoal;
+  }
+
+  async getStudyGoal(id: number): Promise<StudyGoal | undefined> {
+    return this.studyGoals.get(id);
+  }
+
+  async getStudyGoals(userId: number): Promise<StudyGoal[]> {
+    return Array.from(this.studyGoals.values())
+      .filter(goal => goal.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateStudyGoal(id: number, changes: Partial<InsertStudyGoal>): Promise<StudyGoal | undefined> {
+    const goal = this.studyGoals.get(id);
+    if (!goal) return undefined;
+
+    const updatedGoal: StudyGoal = { ...goal, ...changes };
+    this.studyGoals.set(id, updatedGoal);
+    return updatedGoal;
+  }
+
+  async deleteStudyGoal(id: number): Promise<boolean> {
+    return this.studyGoals.delete(id);
+  }
+
+  // Exam operations
+  async createExam(exam: InsertExam): Promise<Exam> {
+    const id = this.currentExamId++;
+    const newExam: Exam = {
+      title: null,
+      location: null,
+      weight: null,
+      ...exam,
+      id,
+      createdAt: new Date(),
+    };
+    this.exams.set(id, newExam);
+    return newExam;
+  }
+
+  async getExam(id: number): Promise<Exam | undefined> {
+    return this.exams.get(id);
+  }
+
+  async getExams(userId: number, from?: Date): Promise<Exam[]> {
+    return Array.from(this.exams.values())
+      .filter(exam => exam.userId === userId && (!from || exam.examDate >= from))
+      .sort((a, b) => a.examDate.getTime() - b.examDate.getTime());
+  }
+
+  async updateExam(id: number, changes: Partial<InsertExam>): Promise<Exam | undefined> {
+    const exam = this.exams.get(id);
+    if (!exam) return undefined;
+
+    const updatedExam: Exam = { ...exam, ...changes };
+    this.exams.set(id, updatedExam);
+    return updatedExam;
+  }
+
+  async deleteExam(id: number): Promise<boolean> {
+    return this.exams.delete(id);
+  }
+
+  // Group Pomodoro timer operations
+  async getGroupTimer(groupId: number): Promise<GroupTimer | undefined> {
+    return Array.from(this.groupTimers.values()).find(timer => timer.groupId === groupId);
+  }
+
+  async saveGroupTimer(timer: InsertGroupTimer): Promise<GroupTimer> {
+    const existing = await this.getGroupTimer(timer.groupId);
+    const saved: GroupTimer = {
+      phase: "focus",
+      status: "idle",
+      phaseEndsAt: null,
+      remainingSeconds: null,
+      completedFocusBlocks: 0,
+      startedBy: null,
+      ...timer,
+      id: existing?.id ?? this.currentGroupTimerId++,
+      updatedAt: new Date(),
+    };
+    this.groupTimers.set(saved.id, saved);
+    return saved;
+  }
+
+  // Paper content operations
+  async getPaperContent(paperId: number): Promise<PaperContent | undefined> {
+    return Array.from(this.paperContents.values()).find(content => content.paperId === paperId);
+  }
+
+  async getPaperContents(): Promise<PaperContent[]> {
+    return Array.from(this.paperContents.values());
+  }
+
+  async savePaperContent(content: InsertPaperContent): Promise<PaperContent> {
+    const existing = await this.getPaperContent(content.paperId);
+    const saved: PaperContent = {
+      pages: null,
+      error: null,
+      extractedAt: null,
+      ...content,
+      id: existing?.id ?? this.currentPaperContentId++,
+    };
+    this.paperContents.set(saved.id, saved);
+    return saved;
+  }
+
+  // Paper version operations
+  async createPaperVersion(version: InsertPaperVersion): Promise<PaperVersion> {
+    const id = this.currentPaperVersionId++;
+    const newVersion: PaperVersion = {
+      ...version,
+      id,
+      changeNote: version.changeNote ?? null,
+      createdAt: version.createdAt ?? new Date(),
+    };
+    this.paperVersions.set(id, newVersion);
+    return newVersion;
+  }
+
+  async getPaperVersions(paperId: number): Promise<PaperVersion[]> {
+    return Array.from(this.paperVersions.values())
+      .filter(version => version.paperId === paperId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getPaperVersion(paperId: number, version: number): Promise<PaperVersion | undefined> {
+    return Array.from(this.paperVersions.values())
+      .find(v => v.paperId === paperId && v.version === version);
+  }
+
+  async addPaperVersion(
+    paperId: number,
+    file: Pick<InsertPaperVersion, "fileUrl" | "changeNote" | "uploadedBy">,
+    contentHash: string,
+  ): Promise<Paper | undefined> {
+    // Nothing here awaits, so no other upload can read the paper halfway through
+    const paper = this.papers.get(paperId);
+    if (!paper) return undefined;
+
+    const hasVersions = Array.from(this.paperVersions.values()).some(v => v.paperId === paperId);
+    const rows = hasVersions ? [] : [originalPaperVersion(paper)];
+    const version = paper.version + 1;
+    rows.push({ ...file, paperId, version });
+    rows.forEach((row) => {
+      const id = this.currentPaperVersionId++;
+      this.paperVersions.set(id, { ...row, id, changeNote: row.changeNote ?? null, createdAt: row.createdAt ?? new Date() });
+    });
+
+    const updated: Paper = { ...paper, fileUrl: file.fileUrl, version, contentHash };
+    this.papers.set(paperId, updated);
+    return updated;
+  }
+
+  // Recent search operations
+  async saveRecentSearch(userId: number, query: string): Promise<RecentSearch> {
+    const existing = Array.from(this.recentSearches.values())
+      .find(search => search.userId === userId && search.query === query);
+    const saved: RecentSearch = {
+      id: existing?.id ?? this.currentRecentSearchId++,
+      userId,
+      query,
+      searchedAt: new Date(),
+    };
+    this.recentSearches.set(saved.id, saved);
+
+    const stale = (await this.getRecentSearches(userId)).slice(RECENT_SEARCHES_KEPT);
+    stale.forEach(search => this.recentSearches.delete(search.id));
+    return saved;
+  }
+
+  async getRecentSearches(userId: number): Promise<RecentSearch[]> {
+    return Array.from(this.recentSearches.values())
+      .filter(search => search.userId === userId)
+      .sort((a, b) => b.searchedAt.getTime() - a.searchedAt.getTime() || b.id - a.id);
+  }
+
+  async clearRecentSearches(userId: number): Promise<void> {
+    (await this.getRecentSearches(userId)).forEach(search => this.recentSearches.delete(search.id));
+  }
+
+  // Saved search operations
+  async createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    const id = this.currentSavedSearchId++;
+    const now = new Date();
+    const newSearch: SavedSearch = {
+      course: null,
+      year: null,
+      institution: null,
+      resourceType: null,
+      ...search,
+      id,
+      newMatchCount: 0,
+      lastVisitedAt: now,
+      createdAt: now,
+    };
+    this.savedSearches.set(id, newSearch);
+    return newSearch;
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    return this.savedSearches.get(id);
+  }
+
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values());
+  }
+
+  async updateSavedSearch(id: number, changes: Partial<SavedSearch>): Promise<SavedSearch | undefined> {
+    const search = this.savedSearches.get(id);
+    if (!search) return undefined;
+
+    const updatedSearch: SavedSearch = { ...search, ...changes };
+    this.savedSearches.set(id, updatedSearch);
+    return updatedSearch;
+  }
+
+  async incrementSavedSearchMatches(id: number): Promise<void> {
+    const search = this.savedSearches.get(id);
+    if (search) search.newMatchCount++;
+  }
+
+  async deleteSavedSearch(id: number): Promise<boolean> {
+    return this.savedSearches.delete(id);
+  }
+
+  // Session reminder operations
+  async createSessionReminder(reminder: InsertSessionReminder): Promise<SessionReminder> {
+    const id = this.currentSessionReminderId++;
+    const newReminder: SessionReminder = {
+      ...reminder,
+      id,
+      dismissedAt: reminder.dismissedAt ?? null,
+      createdAt: new Date()
+    };
+    this.sessionReminders.set(id, newReminder);
+    return newReminder;
+  }
+
+  async getSessionReminders(sessionId: number): Promise<SessionReminder[]> {
+    return Array.from(this.sessionReminders.values())
+      .filter(reminder => reminder.sessionId === sessionId);
+  }
+
+  async getPendingSessionReminders(userId: number): Promise<SessionReminder[]> {
+    return Array.from(this.sessionReminders.values())
+      .filter(reminder => reminder.userId === userId && !reminder.dismissedAt)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async dismissSessionReminder(id: number, userId: number): Promise<SessionReminder | undefined> {
+    const reminder = this.sessionReminders.get(id);
+    if (!reminder || reminder.userId !== userId) return undefined;
+
+    const dismissedReminder = { ...reminder, dismissedAt: new Date() };
+    this.sessionReminders.set(id, dismissedReminder);
+    return dismissedReminder;
+  }
+
   // Activity operations
   async createActivity(activity: InsertActivity): Promise<Activity> {
     const id = this.currentActivityId++;
@@ -633,123 +1269,6 @@ export class MemStorage implements IStorage {
     return limit ? allActivities.slice(0, limit) : allActivities;
   }
   
-  // Search operations
-  async searchPapers(query: string, limit?: number): Promise<Paper[]> {
-    // Normalize the query to lowercase for case-insensitive search
-    const normalizedQuery = query.toLowerCase();
-    
-    // Search in multiple fields
-    const results = Array.from(this.papers.values()).filter(paper => {
-      return (
-        paper.title.toLowerCase().includes(normalizedQuery) ||
-        paper.course.toLowerCase().includes(normalizedQuery) ||
-        paper.institution.toLowerCase().includes(normalizedQuery) ||
-        (paper.description && paper.description.toLowerCase().includes(normalizedQuery))
-      );
-    });
-    
-    // Sort by relevance (simple algorithm - title matches first, then by date)
-    const sortedResults = results.sort((a, b) => {
-      // Title matches are prioritized
-      const aTitleMatch = a.title.toLowerCase().includes(normalizedQuery);
-      const bTitleMatch = b.title.toLowerCase().includes(normalizedQuery);
-      
-      if (aTitleMatch && !bTitleMatch) return -1;
-      if (!aTitleMatch && bTitleMatch) return 1;
-      
-      // Then sort by date (newer first)
-      return new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime();
-    });
-    
-    return limit ? sortedResults.slice(0, limit) : sortedResults;
-  }
-  
-  async searchDiscussions(query: string, limit?: number): Promise<DiscussionPost[]> {
-    const normalizedQuery = query.toLowerCase();
-    
-    const results = Array.from(this.discussionPosts.values()).filter(post => {
-      return (
-        post.title.toLowerCase().includes(normalizedQuery) ||
-        post.content.toLowerCase().includes(normalizedQuery) ||
-        (post.course && post.course.toLowerCase().includes(normalizedQuery)) ||
-        (post.tags && post.tags.some(tag => tag.toLowerCase().includes(normalizedQuery)))
-      );
-    });
-    
-    // Sort by relevance and then by recency
-    const sortedResults = results.sort((a, b) => {
-      // Title matches first
-      const aTitleMatch = a.title.toLowerCase().includes(normalizedQuery);
-      const bTitleMatch = b.title.toLowerCase().includes(normalizedQuery);
-      
-      if (aTitleMatch && !bTitleMatch) return -1;
-      if (!aTitleMatch && bTitleMatch) return 1;
-      
-      // Then by votes (if available)
-      const aVotes = a.votes || 0;
-      const bVotes = b.votes || 0;
-      
-      if (aVotes !== bVotes) return bVotes - aVotes;
-      
-      // Finally by date
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
-    
-    return limit ? sortedResults.slice(0, limit) : sortedResults;
-  }
-  
-  async searchGroups(query: string, limit?: number): Promise<StudyGroup[]> {
-    const normalizedQuery = query.toLowerCase();
-    
-    const results = Array.from(this.studyGroups.values()).filter(group => {
-      return (
-        group.name.toLowerCase().includes(normalizedQuery) ||
-        (group.description && group.description.toLowerCase().includes(normalizedQuery)) ||
-        (group.course && group.course.toLowerCase().includes(normalizedQuery))
-      );
-    });
-    
-    // Sort by name match first, then by recency
-    const sortedResults = results.sort((a, b) => {
-      const aNameMatch = a.name.toLowerCase().includes(normalizedQuery);
-      const bNameMatch = b.name.toLowerCase().includes(normalizedQuery);
-      
-      if (aNameMatch && !bNameMatch) return -1;
-      if (!aNameMatch && bNameMatch) return 1;
-      
-      // Then by date (newer first)
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
-    
-    return limit ? sortedResults.slice(0, limit) : sortedResults;
-  }
-  
-  async searchSessions(query: string, limit?: number): Promise<StudySession[]> {
-    const normalizedQuery = query.toLowerCase();
-    const now = new Date();
-    
-    const results = Array.from(this.studySessions.values()).filter(session => {
-      // Only include future or ongoing sessions
-      const sessionEndTime = new Date(session.endTime);
-      if (sessionEndTime < now) return false;
-      
-      return (
-        session.title.toLowerCase().includes(normalizedQuery) ||
-        (session.description && session.description.toLowerCase().includes(normalizedQuery)) ||
-        (session.location && session.location.toLowerCase().includes(normalizedQuery))
-      );
-    });
-    
-    // Sort by time (closest upcoming sessions first)
-    const sortedResults = results.sort((a, b) => {
-      const aTime = new Date(a.startTime).getTime();
-      const bTime = new Date(b.startTime).getTime();
-      return aTime - bTime; // Ascending order (closest first)
-    });
-    
-    return limit ? sortedResults.slice(0, limit) : sortedResults;
-  }
-
   // Group chat operations
   async createGroupChatMessage(message: InsertGroupChatMessage): Promise<GroupChatMessage> {
     const id = this.currentGroupChatMessageId++;
@@ -779,7 +1298,7 @@ export class MemStorage implements IStorage {
   }
 
   // Friend operations
-  async getFriends(userId: number): Promise<any[]> {
+  async getFriends(userId: number): Promise<Friend[]> {
     // Get all friendships where the user is participating
     const userFriendships = Array.from(this.friendships.values())
       .filter(friendship => 
@@ -787,7 +1306,7 @@ export class MemStorage implements IStorage {
       );
     
     // Get details of each friend
-    const friends = await Promise.all(userFriendships.map(async (friendship) => {
+    const friends = await Promise.all(userFriendships.map(async (friendship): Promise<Friend | null> => {
       // Determine which user is the friend (not the requesting user)
       const friendId = friendship.user1Id === userId ? 
         friendship.user2Id : friendship.user1Id;
@@ -806,18 +1325,17 @@ export class MemStorage implements IStorage {
           id: friendship.id,
           createdAt: friendship.createdAt
         },
-        isOnline: Math.random() > 0.5, // Mock online status
-        lastActive: new Date(Date.now() - Math.floor(Math.random() * 7 * 24 * 60 * 60 * 1000)) // Random activity in the last week
+        lastActive: friendUser.lastActiveAt ?? undefined
       };
     }));
     
     // Remove any null entries (in case a user was deleted)
-    return friends.filter(friend => friend !== null);
+    return friends.filter((friend): friend is Friend => friend !== null);
   }
   
-  async createFriendship(user1Id: number, user2Id: number): Promise<any> {
+  async createFriendship(user1Id: number, user2Id: number): Promise<Friendship> {
     const id = this.currentFriendshipId++;
-    const friendship = {
+    const friendship: Friendship = {
       id,
       user1Id,
       user2Id,
@@ -828,7 +1346,7 @@ export class MemStorage implements IStorage {
     return friendship;
   }
   
-  async getFriendRequest(senderId: number, receiverId: number): Promise<any> {
+  async getFriendRequest(senderId: number, receiverId: number): Promise<FriendRequest | undefined> {
     return Array.from(this.friendRequests.values())
       .find(request => 
         (request.senderId === senderId && request.receiverId === receiverId) ||
@@ -836,11 +1354,11 @@ export class MemStorage implements IStorage {
       );
   }
   
-  async getFriendRequestById(requestId: number): Promise<any> {
+  async getFriendRequestById(requestId: number): Promise<FriendRequest | undefined> {
     return this.friendRequests.get(requestId);
   }
   
-  async getFriendRequests(userId: number): Promise<any[]> {
+  async getFriendRequests(userId: number): Promise<FriendRequestWithSender[]> {
     // Get all requests where user is sender or receiver
     const requests = Array.from(this.friendRequests.values())
       .filter(request => 
@@ -868,25 +1386,27 @@ export class MemStorage implements IStorage {
     }));
   }
   
-  async createFriendRequest(request: { senderId: number, receiverId: number, status: string, createdAt: Date }): Promise<any> {
+  async createFriendRequest(request: InsertFriendRequest): Promise<FriendRequest> {
     const id = this.currentFriendRequestId++;
-    const friendRequest = {
+    const friendRequest: FriendRequest = {
       id,
-      ...request
+      ...request,
+      status: request.status ?? 'pending',
+      createdAt: new Date()
     };
     
     this.friendRequests.set(id, friendRequest);
     return friendRequest;
   }
   
-  async updateFriendRequestStatus(requestId: number, status: string): Promise<any> {
+  async updateFriendRequestStatus(requestId: number, status: FriendRequestStatus): Promise<FriendRequest> {
     const request = this.friendRequests.get(requestId);
     
     if (!request) {
       throw new Error('Friend request not found');
     }
     
-    const updatedRequest = {
+    const updatedRequest: FriendRequest = {
       ...request,
       status
     };
@@ -908,6 +1428,12 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values());
   }
 
+  async getUserDirectory(): Promise<UserDirectoryEntry[]> {
+    return Array.from(this.users.values())
+      .filter(user => !user.isBanned)
+      .map(({ id, username, displayName }) => ({ id, username, displayName }));
+  }
+
   async getTotalUsers(): Promise<number> {
     return this.users.size;
   }
@@ -945,6 +1471,7 @@ export class MemStorage implements IStorage {
     const newAction: AdminAction = {
       id: this.nextAdminActionId++,
       ...action,
+      reason: action.reason ?? null,
       createdAt: new Date()
     };
     this.adminActions.set(newAction.id, newAction);
@@ -957,6 +1484,9 @@ export class MemStorage implements IStorage {
       throw new Error('Paper not found');
     }
     this.papers.delete(id);
+    (await this.getPaperVersions(id)).forEach(version => this.paperVersions.delete(version.id));
+    const content = await this.getPaperContent(id);
+    if (content) this.paperContents.delete(content.id);
   }
 
   async deleteDiscussionPost(id: number): Promise<void> {
@@ -1030,19 +1560,1203 @@ export class MemStorage implements IStorage {
   }
 
   // Direct message operations
-  async createDirectMessage(message: Omit<ChatMessage, 'id'>): Promise<ChatMessage> {
+  async createDirectMessage(message: InsertDirectMessage): Promise<DirectMessage> {
     const id = this.currentDirectMessageId++;
-    const newMessage: ChatMessage = { ...message, id };
+    const newMessage: DirectMessage = {
+      ...message,
+      id,
+      attachmentUrl: message.attachmentUrl ?? null,
+      createdAt: new Date(),
+      isRead: false
+    };
     this.directMessages.set(id, newMessage);
     return newMessage;
   }
 
-  async getDirectMessages(userId1: number, userId2: number): Promise<ChatMessage[]> {
-    return Array.from(this.directMessages.values()).filter(
-      m => (m.senderId === userId1 && m.receiverId === userId2) ||
-           (m.senderId === userId2 && m.receiverId === userId1)
+  async getDirectMessages(userId1: number, userId2?: number): Promise<DirectMessage[]> {
+    return Array.from(this.directMessages.values()).filter(m =>
+      userId2 === undefined
+        ? m.senderId === userId1 || m.receiverId === userId1
+        : (m.senderId === userId1 && m.receiverId === userId2) ||
+          (m.senderId === userId2 && m.receiverId === userId1)
     ).sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }
+
+  async markDirectMessagesRead(receiverId: number, senderId: number): Promise<DirectMessage[]> {
+    const updated: DirectMessage[] = [];
+    this.directMessages.forEach((message, id) => {
+      if (message.receiverId === receiverId && message.senderId === senderId && !message.isRead) {
+        const readMessage = { ...message, isRead: true };
+        this.directMessages.set(id, readMessage);
+        updated.push(readMessage);
+      }
+    });
+    return updated;
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const id = this.currentNotificationId++;
+    const newNotification: Notification = {
+      ...notification,
+      id,
+      link: notification.link ?? null,
+      actorId: notification.actorId ?? null,
+      isRead: false,
+      createdAt: new Date()
+    };
+    this.notifications.set(id, newNotification);
+    return newNotification;
+  }
+
+  async getNotifications(userId: number, limit?: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(n => n.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit || 20);
+  }
+
+  async getNotificationsSince(userId: number, since: Date): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(n => n.userId === userId && n.createdAt > since)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(n => n.userId === userId && !n.isRead)
+      .length;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+
+    const readNotification = { ...notification, isRead: true };
+    this.notifications.set(id, readNotification);
+    return readNotification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    let updated = 0;
+    this.notifications.forEach((notification, id) => {
+      if (notification.userId === userId && !notification.isRead) {
+        this.notifications.set(id, { ...notification, isRead: true });
+        updated++;
+      }
+    });
+    return updated;
+  }
+}
+
+// The version row of a paper's original upload, recorded when it's first replaced
+function originalPaperVersion(paper: Paper): InsertPaperVersion {
+  return {
+    paperId: paper.id,
+    version: 1,
+    fileUrl: paper.fileUrl,
+    changeNote: null,
+    uploadedBy: paper.uploaderId,
+    createdAt: paper.uploadDate,
+  };
+}
+
+// Builds an equality filter from a partial row, mirroring the
+// `Partial<T>` filters MemStorage applies in memory.
+function matchFilters(table: PgTable, filters?: Record<string, unknown>): SQL | undefined {
+  if (!filters) return undefined;
+
+  const columns = getTableColumns(table);
+  const conditions = Object.entries(filters)
+    .filter(([key]) => key in columns)
+    .map(([key, value]) => value === null ? isNull(columns[key]) : eq(columns[key], value));
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+  private embedded: boolean;
+
+  sessionStore: session.Store;
+
+  constructor(connection: DatabaseConnection) {
+    this.db = connection.db;
+    this.embedded = connection.embedded;
+
+    // The session table is part of shared/schema.ts, so it is created by
+    // `db:push` (or ensureSchema) together with everything else
+    this.sessionStore = new PostgresSessionStore({
+      pgPromise: connection.sessionQueries,
+      createTableIfMissing: false,
+    });
+  }
+
+  // Embedded databases start empty, so push the schema before first use
+  async ensureSchema(): Promise<void> {
+    if (this.embedded) {
+      await pushSchema(this.db);
+    }
+  }
+
+  private async getAuthorInfo(authorId: number) {
+    const author = await this.getUser(authorId);
+    return {
+      authorName: author?.displayName || author?.username || "Unknown",
+      authorAvatar: author?.profilePicture || '/default-avatar.png'
+    };
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUsers(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users)
+      .where(sql`lower(${users.username}) = lower(${username})`);
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users)
+      .where(sql`lower(${users.email}) = lower(${email})`);
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, user: User): Promise<User> {
+    const { id: _id, createdAt: _createdAt, ...changes } = user;
+    const [updatedUser] = await this.db.update(users)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error('User not found');
+    }
+    return updatedUser;
+  }
+
+  async updateUserProfile(userId: number, updates: {
+    displayName?: string;
+    email?: string;
+    bio?: string;
+    yearOfStudy?: number;
+    institution?: string;
+    department?: string;
+  }): Promise<User> {
+    // Same semantics as MemStorage: undefined fields keep their current value
+    const changes = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+
+    const [updatedUser] = await this.db.update(users)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error('User not found');
+    }
+    return updatedUser;
+  }
+
+  // Activity is not a profile edit, so updatedAt is left alone
+  async updateUserLastActive(userId: number, lastActiveAt: Date): Promise<void> {
+    await this.db.update(users).set({ lastActiveAt }).where(eq(users.id, userId));
+  }
+
+  async updateNotificationPreferences(userId: number, preferences: NotificationPreferences): Promise<User> {
+    const [updatedUser] = await this.db.update(users)
+      .set({ notificationPreferences: preferences, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error('User not found');
+    }
+    return updatedUser;
+  }
+
+  async updateUserLastDigest(userId: number, lastDigestAt: Date): Promise<void> {
+    await this.db.update(users).set({ lastDigestAt }).where(eq(users.id, userId));
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.calendarToken, token));
+    return user;
+  }
+
+  async updateUserCalendarToken(userId: number, calendarToken: string): Promise<User> {
+    const [updatedUser] = await this.db.update(users)
+      .set({ calendarToken })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error('User not found');
+    }
+    return updatedUser;
+  }
+
+  // Paper operations
+  async createPaper(paper: InsertPaper): Promise<Paper> {
+    const [newPaper] = await this.db.insert(papers).values(paper).returning();
+    return newPaper;
+  }
+
+  async getPaper(id: number): Promise<Paper | undefined> {
+    const [paper] = await this.db.select().from(papers).where(eq(papers.id, id));
+    return paper;
+  }
+
+  async getPapers(filters?: Partial<Paper>): Promise<Paper[]> {
+    return this.db.select().from(papers)
+      .where(matchFilters(papers, filters))
+      .orderBy(asc(papers.id));
+  }
+
+  async updatePaper(id: number, changes: Partial<Omit<Paper, "id">>): Promise<Paper | undefined> {
+    const [paper] = await this.db.update(papers)
+      .set(changes)
+      .where(eq(papers.id, id))
+      .returning();
+    return paper;
+  }
+
+  async incrementPaperDownloads(id: number, amount = 1): Promise<Paper | undefined> {
+    const [paper] = await this.db.update(papers)
+      .set({ downloads: sql`coalesce(${papers.downloads}, 0) + ${amount}` })
+      .where(eq(papers.id, id))
+      .returning();
+    return paper;
+  }
+
+  // Discussion operations
+  async createDiscussionPost(post: InsertDiscussionPost): Promise<DiscussionPost> {
+    const [newPost] = await this.db.insert(discussionPosts).values(post).returning();
+    return newPost;
+  }
+
+  async getDiscussionPost(id: number): Promise<DiscussionPost | null> {
+    const [post] = await this.db.select().from(discussionPosts).where(eq(discussionPosts.id, id));
+    if (!post) return null;
+
+    const replies = await this.db.select().from(discussionReplies)
+      .where(eq(discussionReplies.postId, id))
+      .orderBy(asc(discussionReplies.id));
+
+    // For each reply, get its comments with author info
+    const repliesWithComments = await Promise.all(replies.map(async (reply) => {
+      const comments = await this.db.select().from(discussionComments)
+        .where(eq(discussionComments.replyId, reply.id))
+        .orderBy(asc(discussionComments.createdAt));
+
+      const commentsWithAuthor = await Promise.all(comments.map(async (comment) => ({
+        ...comment,
+        ...(await this.getAuthorInfo(comment.authorId))
+      })));
+
+      return {
+        ...reply,
+        ...(await this.getAuthorInfo(reply.authorId)),
+        comments: commentsWithAuthor
+      };
+    }));
+
+    const postWithReplies = {
+      ...post,
+      ...(await this.getAuthorInfo(post.authorId)),
+      replies: repliesWithComments
+    };
+    return postWithReplies;
+  }
+
+  async getDiscussionPosts(): Promise<DiscussionPost[]> {
+    return this.db.select().from(discussionPosts).orderBy(asc(discussionPosts.id));
+  }
+
+  async voteDiscussionPost(id: number, value: number): Promise<DiscussionPost> {
+    const [updatedPost] = await this.db.update(discussionPosts)
+      .set({ votes: sql`coalesce(${discussionPosts.votes}, 0) + ${value}` })
+      .where(eq(discussionPosts.id, id))
+      .returning();
+
+    if (!updatedPost) throw new Error('Discussion post not found');
+    return updatedPost;
+  }
+
+  async createDiscussionReply(reply: InsertDiscussionReply): Promise<DiscussionReply> {
+    const [newReply] = await this.db.insert(discussionReplies).values(reply).returning();
+    return newReply;
+  }
+
+  async getDiscussionReply(id: number): Promise<DiscussionReply | null> {
+    const [reply] = await this.db.select().from(discussionReplies).where(eq(discussionReplies.id, id));
+    return reply || null;
+  }
+
+  async getDiscussionReplies(postId: number): Promise<DiscussionReply[]> {
+    const replies = await this.db.select().from(discussionReplies)
+      .where(eq(discussionReplies.postId, postId))
+      .orderBy(asc(discussionReplies.id));
+
+    return Promise.all(replies.map(async (reply) => ({
+      ...reply,
+      ...(await this.getAuthorInfo(reply.authorId))
+    })));
+  }
+
+  async getDiscussionRepliesByAuthor(authorId: number): Promise<DiscussionReply[]> {
+    return this.db.select().from(discussionReplies)
+      .where(eq(discussionReplies.authorId, authorId))
+      .orderBy(asc(discussionReplies.id));
+  }
+
+  async voteDiscussionReply(id: number, value: number): Promise<DiscussionReply> {
+    const [updatedReply] = await this.db.update(discussionReplies)
+      .set({ votes: sql`coalesce(${discussionReplies.votes}, 0) + ${value}` })
+      .where(eq(discussionReplies.id, id))
+      .returning();
+
+    if (!updatedReply) throw new Error('Discussion reply not found');
+    return updatedReply;
+  }
+
+  async acceptDiscussionReply(id: number): Promise<DiscussionReply> {
+    const [updatedReply] = await this.db.update(discussionReplies)
+      .set({ isAccepted: true })
+      .where(eq(discussionReplies.id, id))
+      .returning();
+
+    if (!updatedReply) throw new Error('Discussion reply not found');
+    return updatedReply;
+  }
+
+  async createDiscussionComment(comment: InsertDiscussionComment): Promise<DiscussionComment> {
+    const [newComment] = await this.db.insert(discussionComments).values(comment).returning();
+    return newComment;
+  }
+
+  async getDiscussionComment(id: number): Promise<DiscussionComment | null> {
+    const [comment] = await this.db.select().from(discussionComments).where(eq(discussionComments.id, id));
+    if (!comment) return null;
+
+    return {
+      ...comment,
+      ...(await this.getAuthorInfo(comment.authorId))
+    };
+  }
+
+  async deleteDiscussionComment(id: number): Promise<void> {
+    await this.db.delete(discussionComments).where(eq(discussionComments.id, id));
+  }
+
+  // Resource operations
+  async createResource(resource: InsertResource): Promise<Resource> {
+    const [newResource] = await this.db.insert(resources).values(resource).returning();
+    return newResource;
+  }
+
+  async getResource(id: number): Promise<Resource | undefined> {
+    const [resource] = await this.db.select().from(resources).where(eq(resources.id, id));
+    return resource;
+  }
+
+  async getResources(filters?: Partial<Resource>): Promise<Resource[]> {
+    return this.db.select().from(resources)
+      .where(matchFilters(resources, filters))
+      .orderBy(asc(resources.id));
+  }
+
+  async incrementResourceDownloads(id: number): Promise<Resource | undefined> {
+    const [resource] = await this.db.update(resources)
+      .set({ downloads: sql`coalesce(${resources.downloads}, 0) + 1` })
+      .where(eq(resources.id, id))
+      .returning();
+    return resource;
+  }
+
+  async rateResource(id: number, rating: number): Promise<Resource | undefined> {
+    const [resource] = await this.db.update(resources)
+      .set({ rating })
+      .where(eq(resources.id, id))
+      .returning();
+    return resource;
+  }
+
+  // Study group operations
+  async createStudyGroup(group: InsertStudyGroup): Promise<StudyGroup> {
+    const [newGroup] = await this.db.insert(studyGroups).values(group).returning();
+    return newGroup;
+  }
+
+  async getStudyGroup(id: number): Promise<StudyGroup | undefined> {
+    const [group] = await this.db.select().from(studyGroups).where(eq(studyGroups.id, id));
+    return group;
+  }
+
+  async getStudyGroups(filters?: Partial<StudyGroup>): Promise<StudyGroup[]> {
+    return this.db.select().from(studyGroups)
+      .where(matchFilters(studyGroups, filters))
+      .orderBy(asc(studyGroups.id));
+  }
+
+  async getUserStudyGroups(userId: number): Promise<StudyGroup[]> {
+    return this.db.select(getTableColumns(studyGroups)).from(studyGroups)
+      .innerJoin(studyGroupMembers, eq(studyGroupMembers.groupId, studyGroups.id))
+      .where(eq(studyGroupMembers.userId, userId))
+      .orderBy(asc(studyGroups.id));
+  }
+
+  // Study group member operations
+  async addStudyGroupMember(member: InsertStudyGroupMember): Promise<StudyGroupMember> {
+    const [newMember] = await this.db.insert(studyGroupMembers).values(member).returning();
+    return newMember;
+  }
+
+  async getStudyGroupMembers(groupId: number): Promise<StudyGroupMember[]> {
+    return this.db.select().from(studyGroupMembers)
+      .where(eq(studyGroupMembers.groupId, groupId))
+      .orderBy(asc(studyGroupMembers.id));
+  }
+
+  async getStudyGroupMemberships(userIds: number[]): Promise<StudyGroupMember[]> {
+    if (userIds.length === 0) return [];
+    return this.db.select().from(studyGroupMembers)
+      .where(inArray(studyGroupMembers.userId, userIds))
+      .orderBy(asc(studyGroupMembers.id));
+  }
+
+  async removeStudyGroupMember(groupId: number, userId: number): Promise<boolean> {
+    const removed = await this.db.delete(studyGroupMembers)
+      .where(and(eq(studyGroupMembers.groupId, groupId), eq(studyGroupMembers.userId, userId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  // Study session operations
+  async createStudySession(session: InsertStudySession): Promise<StudySession> {
+    const [newSession] = await this.db.insert(studySessions).values(session).returning();
+    return newSession;
+  }
+
+  async getStudySession(id: number): Promise<StudySession | undefined> {
+    const [session] = await this.db.select().from(studySessions).where(eq(studySessions.id, id));
+    return session;
+  }
+
+  async getStudySessions(groupId: number): Promise<StudySession[]> {
+    return this.db.select().from(studySessions)
+      .where(eq(studySessions.groupId, groupId))
+      .orderBy(asc(studySessions.id));
+  }
+
+  async getStudySessionsInGroups(groupIds: number[]): Promise<StudySession[]> {
+    if (groupIds.length === 0) return [];
+    return this.db.select().from(studySessions)
+      .where(inArray(studySessions.groupId, groupIds))
+      .orderBy(asc(studySessions.id));
+  }
+
+  async getUpcomingStudySessions(userId: number): Promise<StudySession[]> {
+    return this.db.select(getTableColumns(studySessions)).from(studySessions)
+      .innerJoin(studyGroupMembers, eq(studyGroupMembers.groupId, studySessions.groupId))
+      .where(and(
+        eq(studyGroupMembers.userId, userId),
+        or(isNotNull(studySessions.recurrence), gt(studySessions.startTime, new Date()))
+      ))
+      .orderBy(asc(studySessions.startTime));
+  }
+
+  async getStudySessionsStartingBetween(from: Date, to: Date): Promise<StudySession[]> {
+    return this.db.select().from(studySessions)
+      .where(or(
+        isNotNull(studySessions.recurrence),
+        and(gt(studySessions.startTime, from), lte(studySessions.startTime, to))
+      ))
+      .orderBy(asc(studySessions.startTime));
+  }
+
+  async updateStudySession(id: number, changes: Partial<InsertStudySession>): Promise<StudySession | undefined> {
+    const [session] = await this.db.update(studySessions)
+      .set(changes)
+      .where(eq(studySessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async deleteStudySession(id: number): Promise<boolean> {
+    await this.db.delete(studySessionExceptions).where(eq(studySessionExceptions.sessionId, id));
+    await this.db.delete(sessionReminders).where(eq(sessionReminders.sessionId, id));
+    // Attendance is kept so past check-ins still count towards user stats
+    const deleted = await this.db.delete(studySessions).where(eq(studySessions.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getStudySessionExceptions(sessionIds: number[]): Promise<StudySessionException[]> {
+    if (sessionIds.length === 0) return [];
+    return this.db.select().from(studySessionExceptions)
+      .where(inArray(studySessionExceptions.sessionId, sessionIds));
+  }
+
+  async saveStudySessionException(exception: InsertStudySessionException): Promise<StudySessionException> {
+    const { sessionId: _sessionId, occurrenceStart: _occurrenceStart, ...changes } = exception;
+    const [saved] = await this.db.insert(studySessionExceptions)
+      .values(exception)
+      .onConflictDoUpdate({
+        target: [studySessionExceptions.sessionId, studySessionExceptions.occurrenceStart],
+        set: changes,
+      })
+      .returning();
+    return saved;
+  }
+
+  async replaceStudySessionExceptions(sessionId: number, exceptions: InsertStudySessionException[]): Promise<void> {
+    await this.db.delete(studySessionExceptions).where(eq(studySessionExceptions.sessionId, sessionId));
+    if (exceptions.length > 0) {
+      await this.db.insert(studySessionExceptions)
+        .values(exceptions.map(exception => ({ ...exception, sessionId })));
+    }
+  }
+
+  // Session attendance operations
+  async saveSessionAttendance(attendance: InsertSessionAttendance): Promise<SessionAttendance> {
+    const { sessionId: _sessionId, occurrenceStart: _occurrenceStart, userId: _userId, ...changes } = attendance;
+    const [saved] = await this.db.insert(sessionAttendance)
+      .values(attendance)
+      .onConflictDoUpdate({
+        target: [sessionAttendance.sessionId, sessionAttendance.occurrenceStart, sessionAttendance.userId],
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getSessionAttendance(sessionIds: number[]): Promise<SessionAttendance[]> {
+    if (sessionIds.length === 0) return [];
+    return this.db.select().from(sessionAttendance)
+      .where(inArray(sessionAttendance.sessionId, sessionIds));
+  }
+
+  async getSessionsAttended(userId: number): Promise<SessionAttendance[]> {
+    return this.db.select().from(sessionAttendance)
+      .where(and(eq(sessionAttendance.userId, userId), isNotNull(sessionAttendance.checkedInAt)))
+      .orderBy(desc(sessionAttendance.checkedInAt));
+  }
+
+  // Study log operations
+  async createStudyLogEntry(entry: InsertStudyLogEntry): Promise<StudyLogEntry> {
+    const [newEntry] = await this.db.insert(studyLogEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async getStudyLogEntry(id: number): Promise<StudyLogEntry | undefined> {
+    const [entry] = await this.db.select().from(studyLogEntries).where(eq(studyLogEntries.id, id));
+    return entry;
+  }
+
+  async getStudyLogEntries(userId: number, range: { from?: Date; to?: Date } = {}): Promise<StudyLogEntry[]> {
+    return this.db.select().from(studyLogEntries)
+      .where(and(
+        eq(studyLogEntries.userId, userId),
+        range.from && gte(studyLogEntries.loggedAt, range.from),
+        range.to && lt(studyLogEntries.loggedAt, range.to),
+      ))
+      .orderBy(desc(studyLogEntries.loggedAt));
+  }
+
+  async deleteStudyLogEntry(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(studyLogEntries).where(eq(studyLogEntries.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getTotalStudyHours(userId: number): Promise<number> {
+    const [result] = await this.db.select({ minutes: sum(studyLogEntries.durationMinutes) })
+      .from(studyLogEntries)
+      .where(eq(studyLogEntries.userId, userId));
+    return Number(result.minutes ?? 0) / 60;
+  }
+
+  // Study goal operations
+  async createStudyGoal(goal: InsertStudyGoal): Promise<StudyGoal> {
+    const [newGoal] = await this.db.insert(studyGoals).values(goal).returning();
+    return newGoal;
+  }
+
+  async getStudyGoal(id: number): Promise<StudyGoal | undefined> {
+    const [goal] = await this.db.select().from(studyGoals).where(eq(studyGoals.id, id));
+    return goal;
+  }
+
+  async getStudyGoals(userId: number): Promise<StudyGoal[]> {
+    return this.db.select().from(studyGoals)
+      .where(eq(studyGoals.userId, userId))
+      .orderBy(asc(studyGoals.id));
+  }
+
+  async updateStudyGoal(id: number, changes: Partial<InsertStudyGoal>): Promise<StudyGoal | undefined> {
+    const [goal] = await this.db.update(studyGoals)
+      .set(changes)
+      .where(eq(studyGoals.id, id))
+      .returning();
+    return goal;
+  }
+
+  async deleteStudyGoal(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(studyGoals).where(eq(studyGoals.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Exam operations
+  async createExam(exam: InsertExam): Promise<Exam> {
+    const [newExam] = await this.db.insert(exams).values(exam).returning();
+    return newExam;
+  }
+
+  async getExam(id: number): Promise<Exam | undefined> {
+    const [exam] = await this.db.select().from(exams).where(eq(exams.id, id));
+    return exam;
+  }
+
+  async getExams(userId: number, from?: Date): Promise<Exam[]> {
+    return this.db.select().from(exams)
+      .where(and(eq(exams.userId, userId), from && gte(exams.examDate, from)))
+      .orderBy(asc(exams.examDate));
+  }
+
+  async updateExam(id: number, changes: Partial<InsertExam>): Promise<Exam | undefined> {
+    const [exam] = await this.db.update(exams)
+      .set(changes)
+      .where(eq(exams.id, id))
+      .returning();
+    return exam;
+  }
+
+  async deleteExam(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(exams).where(eq(exams.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Group Pomodoro timer operations
+  async getGroupTimer(groupId: number): Promise<GroupTimer | undefined> {
+    const [timer] = await this.db.select().from(groupTimers).where(eq(groupTimers.groupId, groupId));
+    return timer;
+  }
+
+  async saveGroupTimer(timer: InsertGroupTimer): Promise<GroupTimer> {
+    const { groupId: _groupId, ...state } = timer;
+    const [saved] = await this.db.insert(groupTimers)
+      .values(timer)
+      .onConflictDoUpdate({
+        target: groupTimers.groupId,
+        set: { ...state, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Paper content operations
+  async getPaperContent(paperId: number): Promise<PaperContent | undefined> {
+    const [content] = await this.db.select().from(paperContents).where(eq(paperContents.paperId, paperId));
+    return content;
+  }
+
+  async getPaperContents(): Promise<PaperContent[]> {
+    return this.db.select().from(paperContents);
+  }
+
+  async savePaperContent(content: InsertPaperContent): Promise<PaperContent> {
+    const { paperId: _paperId, ...state } = content;
+    const [saved] = await this.db.insert(paperContents)
+      .values(content)
+      .onConflictDoUpdate({
+        target: paperContents.paperId,
+        set: state,
+      })
+      .returning();
+    return saved;
+  }
+
+  // Paper version operations
+  async createPaperVersion(version: InsertPaperVersion): Promise<PaperVersion> {
+    const [newVersion] = await this.db.insert(paperVersions).values(version).returning();
+    return newVersion;
+  }
+
+  async getPaperVersions(paperId: number): Promise<PaperVersion[]> {
+    return this.db.select().from(paperVersions)
+      .where(eq(paperVersions.paperId, paperId))
+      .orderBy(desc(paperVersions.version));
+  }
+
+  async getPaperVersion(paperId: number, version: number): Promise<PaperVersion | undefined> {
+    const [paperVersion] = await this.db.select().from(paperVersions)
+      .where(and(eq(paperVersions.paperId, paperId), eq(paperVersions.version, version)));
+    return paperVersion;
+  }
+
+  async addPaperVersion(
+    paperId: number,
+    file: Pick<InsertPaperVersion, "fileUrl" | "changeNote" | "uploadedBy">,
+    contentHash: string,
+  ): Promise<Paper | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locks the paper's row, so another upload waits for this one's number
+      const [paper] = await tx.select().from(papers).where(eq(papers.id, paperId)).for("update");
+      if (!paper) return undefined;
+
+      if (paper.version === 1) {
+        await tx.insert(paperVersions).values(originalPaperVersion(paper)).onConflictDoNothing();
+      }
+      const version = paper.version + 1;
+      await tx.insert(paperVersions).values({ ...file, paperId, version });
+      const [updated] = await tx.update(papers)
+        .set({ fileUrl: file.fileUrl, version, contentHash })
+        .where(eq(papers.id, paperId))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Recent search operations
+  async saveRecentSearch(userId: number, query: string): Promise<RecentSearch> {
+    const [saved] = await this.db.insert(recentSearches)
+      .values({ userId, query })
+      .onConflictDoUpdate({
+        target: [recentSearches.userId, recentSearches.query],
+        set: { searchedAt: new Date() },
+      })
+      .returning();
+
+    const stale = (await this.getRecentSearches(userId)).slice(RECENT_SEARCHES_KEPT);
+    if (stale.length > 0) {
+      await this.db.delete(recentSearches).where(inArray(recentSearches.id, stale.map(search => search.id)));
+    }
+    return saved;
+  }
+
+  async getRecentSearches(userId: number): Promise<RecentSearch[]> {
+    return this.db.select().from(recentSearches)
+      .where(eq(recentSearches.userId, userId))
+      .orderBy(desc(recentSearches.searchedAt), desc(recentSearches.id));
+  }
+
+  async clearRecentSearches(userId: number): Promise<void> {
+    await this.db.delete(recentSearches).where(eq(recentSearches.userId, userId));
+  }
+
+  // Saved search operations
+  async createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    const [newSearch] = await this.db.insert(savedSearches).values(search).returning();
+    return newSearch;
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    const [search] = await this.db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return search;
+  }
+
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt), desc(savedSearches.id));
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches);
+  }
+
+  async updateSavedSearch(id: number, changes: Partial<SavedSearch>): Promise<SavedSearch | undefined> {
+    const [updatedSearch] = await this.db.update(savedSearches)
+      .set(changes)
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return updatedSearch;
+  }
+
+  async incrementSavedSearchMatches(id: number): Promise<void> {
+    await this.db.update(savedSearches)
+      .set({ newMatchCount: sql`${savedSearches.newMatchCount} + 1` })
+      .where(eq(savedSearches.id, id));
+  }
+
+  async deleteSavedSearch(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(savedSearches).where(eq(savedSearches.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Session reminder operations
+  async createSessionReminder(reminder: InsertSessionReminder): Promise<SessionReminder> {
+    const [newReminder] = await this.db.insert(sessionReminders).values(reminder).returning();
+    return newReminder;
+  }
+
+  async getSessionReminders(sessionId: number): Promise<SessionReminder[]> {
+    return this.db.select().from(sessionReminders)
+      .where(eq(sessionReminders.sessionId, sessionId));
+  }
+
+  async getPendingSessionReminders(userId: number): Promise<SessionReminder[]> {
+    return this.db.select().from(sessionReminders)
+      .where(and(eq(sessionReminders.userId, userId), isNull(sessionReminders.dismissedAt)))
+      .orderBy(asc(sessionReminders.createdAt), asc(sessionReminders.id));
+  }
+
+  async dismissSessionReminder(id: number, userId: number): Promise<SessionReminder | undefined> {
+    const [reminder] = await this.db.update(sessionReminders)
+      .set({ dismissedAt: new Date() })
+      .where(and(eq(sessionReminders.id, id), eq(sessionReminders.userId, userId)))
+      .returning();
+    return reminder;
+  }
+
+  // Activity operations
+  async createActivity(activity: InsertActivity): Promise<Activity> {
+    const [newActivity] = await this.db.insert(activities).values(activity).returning();
+    return newActivity;
+  }
+
+  async getUserActivities(userId: number, limit?: number): Promise<Activity[]> {
+    const query = this.db.select().from(activities)
+      .where(eq(activities.userId, userId))
+      .orderBy(desc(activities.createdAt));
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getRecentActivities(limit?: number): Promise<Activity[]> {
+    const query = this.db.select().from(activities).orderBy(desc(activities.createdAt));
+    return limit ? query.limit(limit) : query;
+  }
+
+  // Group chat operations
+  async createGroupChatMessage(message: InsertGroupChatMessage): Promise<GroupChatMessage> {
+    const [newMessage] = await this.db.insert(groupChatMessages).values(message).returning();
+    return newMessage;
+  }
+
+  async getGroupChatMessages(groupId: number, limit?: number): Promise<GroupChatMessage[]> {
+    // Take the latest messages, then return them oldest first
+    const rows = await this.db.select({
+      message: groupChatMessages,
+      displayName: users.displayName,
+      username: users.username,
+    }).from(groupChatMessages)
+      .leftJoin(users, eq(users.id, groupChatMessages.userId))
+      .where(eq(groupChatMessages.groupId, groupId))
+      .orderBy(desc(groupChatMessages.timestamp), desc(groupChatMessages.id))
+      .limit(limit || 50);
+
+    return rows.reverse().map(row => ({
+      ...row.message,
+      userName: row.displayName || row.username || 'Unknown',
+    }));
+  }
+
+  // Friend operations
+  async getFriends(userId: number): Promise<Friend[]> {
+    const userFriendships = await this.db.select().from(friendships)
+      .where(or(eq(friendships.user1Id, userId), eq(friendships.user2Id, userId)));
+
+    const friends = await Promise.all(userFriendships.map(async (friendship): Promise<Friend | null> => {
+      const friendId = friendship.user1Id === userId ?
+        friendship.user2Id : friendship.user1Id;
+
+      const friendUser = await this.getUser(friendId);
+
+      if (!friendUser) return null;
+
+      return {
+        id: friendship.id,
+        userId: userId,
+        friendId: friendId,
+        friendName: friendUser.displayName || friendUser.username,
+        friendAvatar: friendUser.profilePicture,
+        friendship: {
+          id: friendship.id,
+          createdAt: friendship.createdAt
+        },
+        lastActive: friendUser.lastActiveAt ?? undefined
+      };
+    }));
+
+    // Remove any null entries (in case a user was deleted)
+    return friends.filter((friend): friend is Friend => friend !== null);
+  }
+
+  async createFriendship(user1Id: number, user2Id: number): Promise<Friendship> {
+    const [friendship] = await this.db.insert(friendships).values({ user1Id, user2Id }).returning();
+    return friendship;
+  }
+
+  async getFriendRequest(senderId: number, receiverId: number): Promise<FriendRequest | undefined> {
+    const [request] = await this.db.select().from(friendRequests)
+      .where(or(
+        and(eq(friendRequests.senderId, senderId), eq(friendRequests.receiverId, receiverId)),
+        and(eq(friendRequests.senderId, receiverId), eq(friendRequests.receiverId, senderId))
+      ));
+    return request;
+  }
+
+  async getFriendRequestById(requestId: number): Promise<FriendRequest | undefined> {
+    const [request] = await this.db.select().from(friendRequests).where(eq(friendRequests.id, requestId));
+    return request;
+  }
+
+  async getFriendRequests(userId: number): Promise<FriendRequestWithSender[]> {
+    const requests = await this.db.select().from(friendRequests)
+      .where(or(eq(friendRequests.senderId, userId), eq(friendRequests.receiverId, userId)))
+      .orderBy(asc(friendRequests.id));
+
+    // Enrich with the sender's details
+    return Promise.all(requests.map(async (request) => {
+      const sender = await this.getUser(request.senderId);
+
+      if (!sender) return request;
+
+      return {
+        ...request,
+        senderName: sender.displayName || sender.username,
+        senderAvatar: sender.profilePicture
+      };
+    }));
+  }
+
+  async createFriendRequest(request: InsertFriendRequest): Promise<FriendRequest> {
+    const [friendRequest] = await this.db.insert(friendRequests).values(request).returning();
+    return friendRequest;
+  }
+
+  async updateFriendRequestStatus(requestId: number, status: FriendRequestStatus): Promise<FriendRequest> {
+    const [updatedRequest] = await this.db.update(friendRequests)
+      .set({ status })
+      .where(eq(friendRequests.id, requestId))
+      .returning();
+
+    if (!updatedRequest) {
+      throw new Error('Friend request not found');
+    }
+    return updatedRequest;
+  }
+
+  async checkFriendship(user1Id: number, user2Id: number): Promise<boolean> {
+    const [friendship] = await this.db.select({ id: friendships.id }).from(friendships)
+      .where(or(
+        and(eq(friendships.user1Id, user1Id), eq(friendships.user2Id, user2Id)),
+        and(eq(friendships.user1Id, user2Id), eq(friendships.user2Id, user1Id))
+      ))
+      .limit(1);
+    return !!friendship;
+  }
+
+  // Admin methods
+  private async countRows(table: PgTable, where?: SQL): Promise<number> {
+    const [result] = await this.db.select({ value: count() }).from(table).where(where);
+    return result.value;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async getUserDirectory(): Promise<UserDirectoryEntry[]> {
+    return this.db.select({ id: users.id, username: users.username, displayName: users.displayName })
+      .from(users)
+      .where(or(eq(users.isBanned, false), isNull(users.isBanned)))
+      .orderBy(asc(users.id));
+  }
+
+  async getTotalUsers(): Promise<number> {
+    return this.countRows(users);
+  }
+
+  async getActiveUsers(): Promise<number> {
+    return this.countRows(users, or(eq(users.isBanned, false), isNull(users.isBanned)));
+  }
+
+  async getBannedUsers(): Promise<number> {
+    return this.countRows(users, eq(users.isBanned, true));
+  }
+
+  async getTotalPapers(): Promise<number> {
+    return this.countRows(papers);
+  }
+
+  async getTotalDiscussions(): Promise<number> {
+    return this.countRows(discussionPosts);
+  }
+
+  async getTotalGroups(): Promise<number> {
+    return this.countRows(studyGroups);
+  }
+
+  async getTotalSessions(): Promise<number> {
+    return this.countRows(studySessions);
+  }
+
+  async getAdminActions(): Promise<AdminAction[]> {
+    return this.db.select().from(adminActions).orderBy(desc(adminActions.createdAt));
+  }
+
+  async createAdminAction(action: InsertAdminAction): Promise<AdminAction> {
+    const [newAction] = await this.db.insert(adminActions).values(action).returning();
+    return newAction;
+  }
+
+  async deletePaper(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const deleted = await tx.delete(papers).where(eq(papers.id, id)).returning();
+      if (deleted.length === 0) {
+        throw new Error('Paper not found');
+      }
+      await tx.delete(paperVersions).where(eq(paperVersions.paperId, id));
+      await tx.delete(paperContents).where(eq(paperContents.paperId, id));
+    });
+  }
+
+  async deleteDiscussionPost(id: number): Promise<void> {
+    const deleted = await this.db.delete(discussionPosts).where(eq(discussionPosts.id, id)).returning();
+    if (deleted.length === 0) {
+      throw new Error('Discussion post not found');
+    }
+  }
+
+  private async setUserRole(userId: number, adminId: number, role: 'admin' | 'user'): Promise<User> {
+    const user = await this.getUser(userId);
+    const admin = await this.getUser(adminId);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    // Check if the admin is the first admin
+    const isFirstAdmin = await this.isFirstAdmin(adminId);
+    if (!isFirstAdmin) {
+      throw new Error('Only the first admin can manage admin permissions');
+    }
+
+    // Prevent removing admin from the first admin
+    if (role !== 'admin' && userId === adminId) {
+      throw new Error('Cannot remove admin permissions from the first admin');
+    }
+
+    const [updatedUser] = await this.db.update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async setUserAsAdmin(userId: number, adminId: number): Promise<User> {
+    return this.setUserRole(userId, adminId, 'admin');
+  }
+
+  async removeUserAdmin(userId: number, adminId: number): Promise<User> {
+    return this.setUserRole(userId, adminId, 'user');
+  }
+
+  async getFirstAdmin(): Promise<User | undefined> {
+    const [admin] = await this.db.select().from(users)
+      .where(eq(users.role, 'admin'))
+      .orderBy(asc(users.id))
+      .limit(1);
+    return admin;
+  }
+
+  async isFirstAdmin(userId: number): Promise<boolean> {
+    const firstAdmin = await this.getFirstAdmin();
+    return firstAdmin?.id === userId;
+  }
+
+  // Direct message operations
+  async createDirectMessage(message: InsertDirectMessage): Promise<DirectMessage> {
+    const [newMessage] = await this.db.insert(directMessages).values(message).returning();
+    return newMessage;
+  }
+
+  async getDirectMessages(userId1: number, userId2?: number): Promise<DirectMessage[]> {
+    const condition = userId2 === undefined
+      ? or(eq(directMessages.senderId, userId1), eq(directMessages.receiverId, userId1))
+      : or(
+          and(eq(directMessages.senderId, userId1), eq(directMessages.receiverId, userId2)),
+          and(eq(directMessages.senderId, userId2), eq(directMessages.receiverId, userId1))
+        );
+
+    return this.db.select().from(directMessages)
+      .where(condition)
+      .orderBy(asc(directMessages.createdAt), asc(directMessages.id));
+  }
+
+  async markDirectMessagesRead(receiverId: number, senderId: number): Promise<DirectMessage[]> {
+    return this.db.update(directMessages)
+      .set({ isRead: true })
+      .where(and(
+        eq(directMessages.receiverId, receiverId),
+        eq(directMessages.senderId, senderId),
+        eq(directMessages.isRead, false)
+      ))
+      .returning();
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await this.db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async getNotifications(userId: number, limit?: number): Promise<Notification[]> {
+    return this.db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit || 20);
+  }
+
+  async getNotificationsSince(userId: number, since: Date): Promise<Notification[]> {
+    return this.db.select().from(notifications)
+      .where(and(eq(notifications.userId, userId), gt(notifications.createdAt, since)))
+      .orderBy(asc(notifications.createdAt), asc(notifications.id));
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return this.countRows(notifications, and(
+      eq(notifications.userId, userId),
+      eq(notifications.isRead, false)
+    ));
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await this.db.update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is configured, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(connectDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
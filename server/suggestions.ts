@@ -0,0 +1,189 @@
+import type { SearchSuggestion, SearchSuggestionType, SearchSuggestionsResponse } from "@shared/types";
+import { storage } from "./storage";
+import { getSearchDocuments, getSearchIndexVersion } from "./search";
+import { words } from "./search-tokenizer";
+
+const MAX_SUGGESTIONS = 8;
+const MAX_RECENT = 5;
+
+// Content types offered by title; sessions come and go too quickly to be worth it
+const TITLE_TYPES = ["paper", "discussion", "group"] as const;
+type TitleType = typeof TITLE_TYPES[number];
+
+const isTitleType = (type: string): type is TitleType => (TITLE_TYPES as readonly string[]).includes(type);
+
+interface Candidate {
+  suggestion: SearchSuggestion;
+  // What the query is matched against, when more than the label
+  text: string;
+}
+
+interface Match {
+  suggestion: SearchSuggestion;
+  typos: number;
+  // The label starts with the query as typed
+  isPrefix: boolean;
+}
+
+// Typos forgiven in a typed word: none in short words, where one edit
+// makes a different word, more as words get longer
+function allowedTypos(word: string) {
+  return word.length < 4 ? 0 : word.length < 8 ? 1 : 2;
+}
+
+/**
+ * Edit distance between what was typed and the closest prefix of a word,
+ * counting a swap of adjacent letters as one edit. "calcul" is no edits
+ * from "calculus", "clacul" one.
+ */
+function prefixDistance(typed: string, word: string): number {
+  // Longer prefixes can't be closer than this
+  const target = word.slice(0, typed.length + allowedTypos(typed));
+  // distances[i][j] is the distance between the first i typed letters and the first j of the word
+  const distances: number[][] = [];
+  for (let i = 0; i <= typed.length; i++) {
+    distances[i] = [i];
+    for (let j = 1; j <= target.length; j++) {
+      if (i === 0) {
+        distances[i][j] = j;
+        continue;
+      }
+      const substitution = typed[i - 1] === target[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + substitution,
+      );
+      if (i > 1 && j > 1 && typed[i - 1] === target[j - 2] && typed[i - 2] === target[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return Math.min(...distances[typed.length]);
+}
+
+// Every typed word has to start some word of the text, give or take a few typos
+function match(candidate: Candidate, query: string, queryWords: string[]): Match | null {
+  const textWords = words(candidate.text);
+  let typos = 0;
+  for (const typed of queryWords) {
+    const closest = Math.min(...textWords.map((word) => prefixDistance(typed, word)));
+    if (closest > allowedTypos(typed)) return null;
+    typos += closest;
+  }
+
+  return {
+    suggestion: candidate.suggestion,
+    typos,
+    isPrefix: candidate.suggestion.label.toLowerCase().startsWith(query),
+  };
+}
+
+const searchUrl = (query: string) => `/search?q=${encodeURIComponent(query)}`;
+
+// Distinct values compared case-insensitively, named as first seen
+function distinct(values: string[]): string[] {
+  const byKey = new Map<string, string>();
+  values.forEach((value) => {
+    const key = value.trim().toLowerCase();
+    if (key && !byKey.has(key)) byKey.set(key, value.trim());
+  });
+  return Array.from(byKey.values());
+}
+
+// Titles, courses and tags, kept until the search index changes
+let documentCandidates: { version: number; candidates: Promise<Candidate[]> } | null = null;
+// People, kept until a user is added, renamed, banned or unbanned
+let userCandidates: Promise<(Candidate & { userId: number })[]> | null = null;
+
+async function buildDocumentCandidates(): Promise<Candidate[]> {
+  const documents = await getSearchDocuments();
+  const candidates: Candidate[] = [];
+  const add = (type: SearchSuggestionType, label: string, url: string, detail: string | null) => {
+    candidates.push({ suggestion: { type, label, url, detail }, text: label });
+  };
+
+  documents.forEach((document) => {
+    if (isTitleType(document.type)) add(document.type, document.title, document.url, document.course);
+  });
+  distinct(documents.map((document) => document.course ?? ""))
+    .forEach((course) => add("course", course, searchUrl(course), null));
+  distinct(documents.flatMap((document) => document.tags ?? []))
+    .forEach((tag) => add("tag", tag, searchUrl(tag), null));
+
+  return candidates;
+}
+
+async function buildUserCandidates(): Promise<(Candidate & { userId: number })[]> {
+  return (await storage.getUserDirectory()).map((user) => ({
+    userId: user.id,
+    suggestion: {
+      type: "user",
+      label: user.displayName,
+      url: `/friends?q=${encodeURIComponent(user.displayName)}`,
+      detail: `@${user.username}`,
+    },
+    text: `${user.displayName} ${user.username}`,
+  }));
+}
+
+// Failed builds are dropped so the next keystroke tries again
+async function getCandidates(userId: number): Promise<Candidate[]> {
+  const version = getSearchIndexVersion();
+  if (documentCandidates?.version !== version) {
+    documentCandidates = {
+      version,
+      candidates: buildDocumentCandidates().catch((error) => {
+        documentCandidates = null;
+        throw error;
+      }),
+    };
+  }
+  if (!userCandidates) {
+    userCandidates = buildUserCandidates().catch((error) => {
+      userCandidates = null;
+      throw error;
+    });
+  }
+
+  const [documents, users] = await Promise.all([documentCandidates.candidates, userCandidates]);
+  return [...documents, ...users.filter((user) => user.userId !== userId)];
+}
+
+// Called after users are added or their names or bans change
+export function invalidateUserSuggestions() {
+  userCandidates = null;
+}
+
+/**
+ * Autocomplete for the search bar: titles, course codes, tags and people
+ * whose words start with what was typed, tolerating typos, plus the user's
+ * own recent searches. Exact prefixes rank above fuzzy matches.
+ */
+export async function getSearchSuggestions(userId: number, query: string): Promise<SearchSuggestionsResponse> {
+  const normalized = query.trim().toLowerCase();
+  const queryWords = words(normalized);
+
+  const recent = (await storage.getRecentSearches(userId))
+    .map((search) => search.query)
+    .filter((recentQuery) => recentQuery.toLowerCase().includes(normalized))
+    .slice(0, MAX_RECENT);
+  if (queryWords.length === 0) return { suggestions: [], recent };
+
+  const matches: Match[] = [];
+  (await getCandidates(userId)).forEach((candidate) => {
+    const found = match(candidate, normalized, queryWords);
+    if (found) matches.push(found);
+  });
+
+  const suggestions = matches
+    .sort((a, b) =>
+      a.typos - b.typos ||
+      Number(b.isPrefix) - Number(a.isPrefix) ||
+      a.suggestion.label.length - b.suggestion.label.length ||
+      a.suggestion.label.localeCompare(b.suggestion.label))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((found) => found.suggestion);
+
+  return { suggestions, recent };
+}
@@ -0,0 +1,221 @@
+import path from "path";
+import { storage } from "./storage";
+import { fileStore } from "./file-store";
+import { openPdf } from "./pdf";
+import { readZipEntries } from "./zip";
+import { indexPaper } from "./search";
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: "\"", apos: "'" };
+
+function decodeXml(text: string) {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith("#x")) return String.fromCharCode(parseInt(name.slice(2), 16));
+    if (name.startsWith("#")) return String.fromCharCode(parseInt(name.slice(1)));
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+interface XmlTag {
+  name: string;
+  attributes: string;
+  closing: boolean;
+  selfClosing: boolean;
+}
+
+// Calls back for each tag and run of text in document order. Enough for the
+// flat, machine-written XML of Office documents; not a general XML parser.
+function walkXml(xml: string, onTag: (tag: XmlTag) => void, onText: (text: string) => void) {
+  const pattern = /<(\/?)([\w:.-]+)([^>]*?)(\/?)>|<[!?][^>]*>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    if (match[5] !== undefined) {
+      onText(decodeXml(match[5]));
+    } else if (match[2]) {
+      onTag({ name: match[2], attributes: match[3], closing: match[1] === "/", selfClosing: match[4] === "/" });
+    }
+  }
+}
+
+// Text of the runs in a Word document, split where Word last laid out a page break
+function extractDocxPages(data: Buffer): string[] {
+  const document = readZipEntries(data).get("word/document.xml");
+  if (!document) throw new Error("Not a Word document");
+
+  const pages: string[] = [];
+  let page = "";
+  let inText = false;
+  const breakPage = () => {
+    // Explicit breaks are followed by the rendered break of the same page
+    if (!page.trim()) return;
+    pages.push(page);
+    page = "";
+  };
+
+  walkXml(document().toString("utf8"), (tag) => {
+    if (tag.name === "w:t") {
+      inText = !tag.closing && !tag.selfClosing;
+    } else if (tag.name === "w:tab" && !tag.closing) {
+      page += "\t";
+    } else if (tag.name === "w:br" && !tag.closing) {
+      if (/w:type="page"/.test(tag.attributes)) breakPage();
+      else page += "\n";
+    } else if (tag.name === "w:lastRenderedPageBreak") {
+      breakPage();
+    } else if (tag.name === "w:p" && tag.closing) {
+      page += "\n";
+    }
+  }, (text) => {
+    if (inText) page += text;
+  });
+
+  pages.push(page);
+  return pages;
+}
+
+// Slide part names in presentation order, as listed in presentation.xml
+function slideOrder(entries: Map<string, () => Buffer>): string[] {
+  const presentation = entries.get("ppt/presentation.xml");
+  const relationships = entries.get("ppt/_rels/presentation.xml.rels");
+  const numbered = Array.from(entries.keys())
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, "")) - parseInt(b.replace(/\D/g, "")));
+  if (!presentation || !relationships) return numbered;
+
+  const targets = new Map<string, string>();
+  walkXml(relationships().toString("utf8"), (tag) => {
+    const id = /\bId="([^"]+)"/.exec(tag.attributes);
+    const target = /\bTarget="([^"]+)"/.exec(tag.attributes);
+    if (tag.name === "Relationship" && id && target) {
+      targets.set(id[1], path.posix.normalize(path.posix.join("ppt", target[1].replace(/^\//, ""))));
+    }
+  }, () => {});
+
+  const ordered: string[] = [];
+  walkXml(presentation().toString("utf8"), (tag) => {
+    const id = /\br:id="([^"]+)"/.exec(tag.attributes);
+    const target = id && targets.get(id[1]);
+    if (tag.name === "p:sldId" && target && entries.has(target)) ordered.push(target);
+  }, () => {});
+
+  return ordered.length > 0 ? ordered : numbered;
+}
+
+// Text of each slide of a PowerPoint presentation
+function extractPptxPages(data: Buffer): string[] {
+  const entries = readZipEntries(data);
+  const slides = slideOrder(entries);
+  if (slides.length === 0) throw new Error("Not a PowerPoint presentation");
+
+  return slides.map((name) => {
+    let text = "";
+    let inText = false;
+    walkXml(entries.get(name)!().toString("utf8"), (tag) => {
+      if (tag.name === "a:t") {
+        inText = !tag.closing && !tag.selfClosing;
+      } else if ((tag.name === "a:p" && tag.closing) || (tag.name === "a:br" && !tag.closing)) {
+        text += "\n";
+      }
+    }, (run) => {
+      if (inText) text += run;
+    });
+    return text;
+  });
+}
+
+// Text of each page of a PDF, a line break wherever pdf.js saw a line end
+async function extractPdfPages(data: Buffer): Promise<string[]> {
+  const document = await openPdf(data);
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number);
+      const content = await page.getTextContent();
+      pages.push(content.items.map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : "")).join(""));
+      page.cleanup();
+      // Parsing runs on this thread; let requests through between pages
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+}
+
+// Extractors by file extension; other uploads (old Office formats, images) have no searchable text
+const EXTRACTORS: Record<string, (data: Buffer) => string[] | Promise<string[]>> = {
+  ".pdf": extractPdfPages,
+  ".docx": extractDocxPages,
+  ".pptx": extractPptxPages,
+  ".txt": (data) => [data.toString("utf8")],
+};
+
+const normalizePage = (text: string) => text
+  .split("\n")
+  .map((line) => line.replace(/\s+/g, " ").trim())
+  .filter(Boolean)
+  .join("\n");
+
+// The text of each page of a file, one line per line of text; null when
+// files of this kind have no extractable text
+export async function extractTextPages(extension: string, data: Buffer): Promise<string[] | null> {
+  const extract = EXTRACTORS[extension];
+  return extract ? (await extract(data)).map(normalizePage) : null;
+}
+
+/**
+ * Extracts the text of a paper's file, stores it per page and adds it to
+ * the search index. Failures are stored too, so a broken file isn't retried
+ * on every start.
+ */
+export async function extractPaperText(paperId: number): Promise<void> {
+  const paper = await storage.getPaper(paperId);
+  if (!paper) return;
+
+  const extension = path.extname(paper.fileUrl).toLowerCase();
+  try {
+    if (!EXTRACTORS[extension]) throw new Error(`Text can't be extracted from ${extension || "extensionless"} files`);
+
+    const pages = (await extractTextPages(extension, await fileStore.get(paper.fileUrl)))!;
+    await storage.savePaperContent({ paperId, status: "done", pages, error: null, extractedAt: new Date() });
+    indexPaper(paper, pages);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await storage.savePaperContent({ paperId, status: "failed", pages: null, error: message, extractedAt: new Date() });
+  }
+}
+
+const queue: number[] = [];
+let processing = false;
+
+async function processQueue() {
+  processing = true;
+  while (queue.length > 0) {
+    const paperId = queue.shift()!;
+    await extractPaperText(paperId)
+      .catch((error) => console.error(`Error extracting text of paper ${paperId}:`, error));
+    // Parsing is synchronous; let requests through between files
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  processing = false;
+}
+
+/**
+ * Queues a paper for text extraction. Files are processed one at a time
+ * in the background, so uploads don't wait for them.
+ */
+export function queueTextExtraction(paperId: number) {
+  if (!queue.includes(paperId)) queue.push(paperId);
+  if (!processing) processQueue();
+}
+
+export function startTextExtraction() {
+  // Pick up papers uploaded before extraction existed or while the server was down
+  Promise.all([storage.getPapers(), storage.getPaperContents()])
+    .then(([papers, contents]) => {
+      const extracted = new Set(contents.map((content) => content.paperId));
+      papers
+        .filter((paper) => !extracted.has(paper.id))
+        .forEach((paper) => queueTextExtraction(paper.id));
+    })
+    .catch((error) => console.error("Error queueing text extraction:", error));
+}
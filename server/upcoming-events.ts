@@ -0,0 +1,129 @@
+import type { StudyGroup, User } from "@shared/schema";
+import type { UpcomingEvent } from "@shared/types";
+import { storage } from "./storage";
+import { expandSessionOccurrences } from "./recurrence";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How far ahead sessions are listed
+const SESSION_WINDOW_DAYS = 30;
+
+// How long a new group in the user's department stays on the timeline
+const NEW_GROUP_DAYS = 14;
+
+function groupNames(groups: StudyGroup[]) {
+  return new Map(groups.map((group) => [group.id, group.name]));
+}
+
+async function getOwnSessionEvents(user: User, ownGroups: StudyGroup[], now: Date, to: Date): Promise<UpcomingEvent[]> {
+  const sessions = await storage.getUpcomingStudySessions(user.id);
+  const exceptions = await storage.getStudySessionExceptions(sessions.map((session) => session.id));
+  const names = groupNames(ownGroups);
+
+  return expandSessionOccurrences(sessions, exceptions, { from: now, to }).map((session) => ({
+    type: "session",
+    id: `session-${session.id}-${new Date(session.occurrenceStart).getTime()}`,
+    date: new Date(session.startTime),
+    session,
+    groupName: names.get(session.groupId) ?? "Study group",
+  }));
+}
+
+// Sessions in groups the user could join because a friend is a member
+async function getFriendSessionEvents(
+  user: User,
+  ownGroups: StudyGroup[],
+  allGroups: StudyGroup[],
+  now: Date,
+  to: Date
+): Promise<UpcomingEvent[]> {
+  const friends = await storage.getFriends(user.id);
+  if (friends.length === 0) return [];
+
+  const ownGroupIds = new Set(ownGroups.map((group) => group.id));
+  const friendNames = new Map(friends.map((friend) => [friend.friendId, friend.friendName]));
+  const friendsByGroup = new Map<number, { id: number; name: string }[]>();
+
+  const memberships = await storage.getStudyGroupMemberships(Array.from(friendNames.keys()));
+  memberships
+    .filter((membership) => !ownGroupIds.has(membership.groupId))
+    .forEach((membership) => {
+      friendsByGroup.set(membership.groupId, [
+        ...(friendsByGroup.get(membership.groupId) ?? []),
+        { id: membership.userId, name: friendNames.get(membership.userId) ?? "A friend" },
+      ]);
+    });
+  if (friendsByGroup.size === 0) return [];
+
+  const names = groupNames(allGroups);
+  const sessions = await storage.getStudySessionsInGroups(Array.from(friendsByGroup.keys()));
+  const exceptions = await storage.getStudySessionExceptions(sessions.map((session) => session.id));
+
+  return expandSessionOccurrences(sessions, exceptions, { from: now, to }).map((session) => ({
+    type: "friend_session",
+    id: `friend_session-${session.id}-${new Date(session.occurrenceStart).getTime()}`,
+    date: new Date(session.startTime),
+    session,
+    groupName: names.get(session.groupId) ?? "Study group",
+    friends: friendsByGroup.get(session.groupId) ?? [],
+  }));
+}
+
+// Groups created lately by others in the user's department that the user hasn't joined
+async function getNewGroupEvents(
+  user: User,
+  ownGroups: StudyGroup[],
+  allGroups: StudyGroup[],
+  now: Date
+): Promise<UpcomingEvent[]> {
+  if (!user.department) return [];
+
+  const since = now.getTime() - NEW_GROUP_DAYS * DAY;
+  const ownGroupIds = new Set(ownGroups.map((group) => group.id));
+  const candidates = allGroups.filter((group) =>
+    new Date(group.createdAt).getTime() >= since &&
+    group.creatorId !== user.id &&
+    !ownGroupIds.has(group.id)
+  );
+  if (candidates.length === 0) return [];
+
+  const creators = new Map(
+    (await storage.getUsers(Array.from(new Set(candidates.map((group) => group.creatorId)))))
+      .map((creator) => [creator.id, creator])
+  );
+
+  return candidates
+    .filter((group) => creators.get(group.creatorId)?.department === user.department)
+    .map((group) => {
+      const creator = creators.get(group.creatorId)!;
+      return {
+        type: "new_group",
+        id: `new_group-${group.id}`,
+        date: new Date(group.createdAt),
+        group,
+        creatorName: creator.displayName || creator.username,
+      };
+    });
+}
+
+/**
+ * Everything on the user's dashboard timeline, oldest first: their own
+ * upcoming sessions, sessions they could join through friends, and new groups
+ * in their department. A session shows up once, as the user's own if they're
+ * in the group.
+ */
+export async function getUpcomingEvents(user: User, now = new Date()): Promise<UpcomingEvent[]> {
+  const to = new Date(now.getTime() + SESSION_WINDOW_DAYS * DAY);
+  const [ownGroups, allGroups] = await Promise.all([
+    storage.getUserStudyGroups(user.id),
+    storage.getStudyGroups(),
+  ]);
+
+  const events = (await Promise.all([
+    getOwnSessionEvents(user, ownGroups, now, to),
+    getFriendSessionEvents(user, ownGroups, allGroups, now, to),
+    getNewGroupEvents(user, ownGroups, allGroups, now),
+  ])).flat();
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
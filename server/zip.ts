@@ -0,0 +1,72 @@
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+// Keeps a small, maliciously compressed entry from taking all the memory
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Lists the files in a ZIP archive held in memory, each read on demand.
+ * DOCX and PPTX documents are ZIP archives of XML parts, which is all this
+ * is for: stored and deflated entries are supported, ZIP64 and encryption
+ * are not. Reading an entry larger than MAX_ENTRY_BYTES throws.
+ */
+export function readZipEntries(data: Buffer): Map<string, () => Buffer> {
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - MAX_END_RECORD_SEARCH); i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a ZIP archive");
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const entries = new Map<string, () => Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const headerOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      const tooLarge = new Error(`ZIP entry ${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB`);
+      if (size > MAX_ENTRY_BYTES) throw tooLarge;
+      if (data.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt ZIP entry ${name}`);
+      }
+      // The local header repeats the name but may have a different extra field
+      const start = headerOffset + 30 + data.readUInt16LE(headerOffset + 26) + data.readUInt16LE(headerOffset + 28);
+      const raw = data.subarray(start, start + compressedSize);
+
+      if (method === 0) return raw;
+      if (method === 8) {
+        // The declared size can't be trusted, so the output is capped too
+        try {
+          return inflateRawSync(raw, { maxOutputLength: MAX_ENTRY_BYTES });
+        } catch (error) {
+          throw (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE" ? tooLarge : error;
+        }
+      }
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, varchar, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -20,6 +20,12 @@ export const users = pgTable("users", {
   isBanned: boolean("is_banned").default(false),
   banReason: text("ban_reason"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  lastActiveAt: timestamp("last_active_at"),
+  // null until the user saves their settings; see defaultNotificationPreferences
+  notificationPreferences: json("notification_preferences").$type<NotificationPreferences>(),
+  lastDigestAt: timestamp("last_digest_at"),
+  // Secret for the subscribable calendar feed, created on first request
+  calendarToken: text("calendar_token").unique(),
 });
 
 // Past papers table
@@ -35,7 +41,13 @@ export const papers = pgTable("papers", {
   uploadDate: timestamp("upload_date").defaultNow().notNull(),
   downloads: integer("downloads").default(0),
   resourceType: text("resource_type").default("past_paper").notNull(),
-});
+  // Number of the file in `fileUrl`, which is always the latest version
+  version: integer("version").default(1).notNull(),
+  // SHA-256 of the latest file, to spot the same file uploaded twice
+  contentHash: text("content_hash"),
+}, (table) => [
+  index("papers_content_hash").on(table.contentHash),
+]);
 
 // Discussion forum posts
 export const discussionPosts = pgTable("discussion_posts", {
@@ -60,6 +72,7 @@ export const discussionReplies = pgTable("discussion_replies", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   votes: integer("votes").default(0),
+  isAccepted: boolean("is_accepted").default(false),
 });
 
 // Discussion comments
@@ -119,8 +132,29 @@ export const studySessions = pgTable("study_sessions", {
   isVirtual: boolean("is_virtual").default(false),
   meetingLink: text("meeting_link"),
   createdBy: integer("created_by").notNull(),
+  // null for one-off sessions, otherwise startTime/endTime describe the first occurrence
+  recurrence: json("recurrence").$type<SessionRecurrence>(),
 });
 
+// Changes to a single occurrence of a recurring session.
+// Override columns left null keep the series value.
+export const studySessionExceptions = pgTable("study_session_exceptions", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  // Start of the occurrence as generated by the series, identifies it even after it is moved
+  occurrenceStart: timestamp("occurrence_start").notNull(),
+  isCancelled: boolean("is_cancelled").default(false).notNull(),
+  title: text("title"),
+  description: text("description"),
+  startTime: timestamp("start_time"),
+  endTime: timestamp("end_time"),
+  location: text("location"),
+  isVirtual: boolean("is_virtual"),
+  meetingLink: text("meeting_link"),
+}, (table) => [
+  uniqueIndex("study_session_exceptions_session_occurrence").on(table.sessionId, table.occurrenceStart),
+]);
+
 // Activity Feed
 export const activities = pgTable("activities", {
   id: serial("id").primaryKey(),
@@ -141,12 +175,222 @@ export const groupChatMessages = pgTable("group_chat_messages", {
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+// Friend requests
+export const friendRequests = pgTable("friend_requests", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").notNull(),
+  receiverId: integer("receiver_id").notNull(),
+  status: text("status", { enum: ["pending", "accepted", "rejected"] }).notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Friendships (one row per pair of users)
+export const friendships = pgTable("friendships", {
+  id: serial("id").primaryKey(),
+  user1Id: integer("user1_id").notNull(),
+  user2Id: integer("user2_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Direct messages between users
+export const directMessages = pgTable("direct_messages", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").notNull(),
+  receiverId: integer("receiver_id").notNull(),
+  content: text("content").notNull(),
+  attachmentUrl: text("attachment_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  isRead: boolean("is_read").default(false).notNull(),
+});
+
+// Admin moderation log
+export const adminActions = pgTable("admin_actions", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull(),
+  targetType: text("target_type", { enum: ["user", "paper", "discussion", "group", "session"] }).notNull(),
+  targetId: integer("target_id").notNull(),
+  action: text("action", { enum: ["ban", "unban", "delete", "modify", "merge"] }).notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// In-app notifications
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type", { enum: ["discussion_reply", "friend_request", "friend_request_accepted", "group_session", "session_reminder", "direct_message"] }).notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"),
+  actorId: integer("actor_id"),
+  isRead: boolean("is_read").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Study session reminders already produced, one per member and offset.
+// Kept so a restart doesn't send them again.
+export const sessionReminders = pgTable("session_reminders", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  // Which occurrence of a recurring session; the start time for one-off sessions
+  occurrenceStart: timestamp("occurrence_start").notNull(),
+  userId: integer("user_id").notNull(),
+  offsetMinutes: integer("offset_minutes").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  dismissedAt: timestamp("dismissed_at"),
+}, (table) => [
+  uniqueIndex("session_reminders_occurrence_user_offset").on(table.sessionId, table.occurrenceStart, table.userId, table.offsetMinutes),
+]);
+
+// RSVPs and check-ins, per occurrence for recurring sessions
+export const sessionAttendance = pgTable("session_attendance", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  // Which occurrence of a recurring session; the start time for one-off sessions
+  occurrenceStart: timestamp("occurrence_start").notNull(),
+  userId: integer("user_id").notNull(),
+  rsvp: text("rsvp", { enum: ["going", "maybe", "not_going"] }),
+  checkedInAt: timestamp("checked_in_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("session_attendance_occurrence_user").on(table.sessionId, table.occurrenceStart, table.userId),
+]);
+
+// Time spent studying, from the Pomodoro timer, manual entries or attended sessions
+export const studyLogEntries = pgTable("study_log_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  subject: text("subject").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  source: text("source", { enum: ["timer", "manual", "session"] }).notNull().default("manual"),
+  // Set for entries created by checking in to a study session
+  sessionId: integer("session_id"),
+  // When the studying happened, which can be earlier than when it was logged
+  loggedAt: timestamp("logged_at").defaultNow().notNull(),
+}, (table) => [
+  index("study_log_entries_user_logged_at").on(table.userId, table.loggedAt),
+]);
+
+export const studyGoals = pgTable("study_goals", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  subject: text("subject").notNull(),
+  targetMinutes: integer("target_minutes").notNull(),
+  color: text("color").default("bg-blue-500"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A user's own exams, matched to past papers by course code
+export const exams = pgTable("exams", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  course: text("course").notNull(),
+  // e.g. "Midterm" or "Final"
+  title: text("title"),
+  examDate: timestamp("exam_date").notNull(),
+  location: text("location"),
+  // Share of the final grade, in percent
+  weight: integer("weight"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("exams_user_exam_date").on(table.userId, table.examDate),
+]);
+
+// Shared Pomodoro timer of a study group, one row per group.
+// Phase times are kept on the server so every member sees the same countdown.
+export const groupTimers = pgTable("group_timers", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull(),
+  phase: text("phase", { enum: ["focus", "shortBreak", "longBreak"] }).notNull().default("focus"),
+  status: text("status", { enum: ["idle", "running", "paused"] }).notNull().default("idle"),
+  // Set while running
+  phaseEndsAt: timestamp("phase_ends_at"),
+  // Set while paused
+  remainingSeconds: integer("remaining_seconds"),
+  completedFocusBlocks: integer("completed_focus_blocks").notNull().default(0),
+  // Last member to start or resume the timer
+  startedBy: integer("started_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("group_timers_group").on(table.groupId),
+]);
+
+// Text extracted from a paper's uploaded file, one entry per page (or slide).
+// Papers without a row haven't been processed yet.
+export const paperContents = pgTable("paper_contents", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull(),
+  status: text("status", { enum: ["done", "failed"] }).notNull(),
+  pages: json("pages").$type<string[]>(),
+  // Why extraction failed, e.g. an unsupported or corrupt file
+  error: text("error"),
+  extractedAt: timestamp("extracted_at"),
+}, (table) => [
+  uniqueIndex("paper_contents_paper").on(table.paperId),
+]);
+
+// Files a paper has had. Version 1 is the original upload; its row is only
+// written once a second version replaces it.
+export const paperVersions = pgTable("paper_versions", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull(),
+  version: integer("version").notNull(),
+  fileUrl: text("file_url").notNull(),
+  changeNote: text("change_note"),
+  uploadedBy: integer("uploaded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("paper_versions_paper_version").on(table.paperId, table.version),
+]);
+
+// Queries a user searched for, offered again by the search bar
+export const recentSearches = pgTable("recent_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  query: text("query").notNull(),
+  searchedAt: timestamp("searched_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("recent_searches_user_query").on(table.userId, table.query),
+]);
+
+// A search a user saved to run again, counting papers uploaded since they last opened it
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
+  // Filters, null when not set
+  course: text("course"),
+  year: text("year"),
+  institution: text("institution"),
+  resourceType: text("resource_type"),
+  newMatchCount: integer("new_match_count").notNull().default(0),
+  lastVisitedAt: timestamp("last_visited_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("saved_searches_user").on(table.userId),
+]);
+
+// Express sessions, in the layout connect-pg-simple expects.
+// Declared here so `db:push` keeps the table instead of dropping it.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
 // Insert schemas for form validation
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   points: true,
   updatedAt: true,
+  lastActiveAt: true,
+  notificationPreferences: true,
+  lastDigestAt: true,
+  calendarToken: true,
 }).extend({
   // Add custom validation rules
   password: z.string().min(8, "Password must be at least 8 characters"),
@@ -161,6 +405,7 @@ export const insertPaperSchema = createInsertSchema(papers).omit({
   id: true,
   uploadDate: true,
   downloads: true,
+  version: true,
 });
 
 export const insertDiscussionPostSchema = createInsertSchema(discussionPosts).omit({
@@ -175,6 +420,7 @@ export const insertDiscussionReplySchema = createInsertSchema(discussionReplies)
   createdAt: true,
   updatedAt: true,
   votes: true,
+  isAccepted: true,
 });
 
 export const insertDiscussionCommentSchema = createInsertSchema(discussionComments).omit({
@@ -200,8 +446,161 @@ export const insertStudyGroupMemberSchema = createInsertSchema(studyGroupMembers
   joinedAt: true,
 });
 
+// An IANA time zone name, e.g. "Europe/Berlin"
+export const timeZoneSchema = z.string().refine((timeZone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown time zone");
+
+// Series longer than this have to be split up
+export const MAX_SESSION_OCCURRENCES = 366;
+
+export const sessionRecurrenceSchema = z.object({
+  frequency: z.enum(["daily", "weekly"]),
+  // Every N days or weeks
+  interval: z.number().int().min(1).max(52).default(1),
+  // Weekly only, 0 = Sunday. Defaults to the weekday of the first occurrence
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  // The series ends at whichever of these comes first
+  until: z.string().datetime().optional(),
+  count: z.number().int().min(1).max(MAX_SESSION_OCCURRENCES).optional(),
+  // IANA zone the times were picked in, so a 6pm session stays at 6pm across DST changes
+  timeZone: timeZoneSchema.default("UTC"),
+}).refine((recurrence) => recurrence.until || recurrence.count, {
+  message: "A recurring session needs an end date or a number of occurrences",
+});
+
 export const insertStudySessionSchema = createInsertSchema(studySessions).omit({
   id: true,
+}).extend({
+  // Sent as ISO strings in JSON bodies
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  recurrence: sessionRecurrenceSchema.nullish(),
+});
+
+// Fields that can be changed on a session, or on one occurrence of a recurring session
+export const updateStudySessionSchema = insertStudySessionSchema.pick({
+  title: true,
+  description: true,
+  startTime: true,
+  endTime: true,
+  location: true,
+  isVirtual: true,
+  meetingLink: true,
+  recurrence: true,
+}).partial();
+
+// Members can check in from this long before a session starts until it ends
+export const CHECK_IN_OPENS_MINUTES_BEFORE = 15;
+
+export const insertSessionAttendanceSchema = createInsertSchema(sessionAttendance).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const sessionRsvpSchema = z.object({
+  status: z.enum(sessionAttendance.rsvp.enumValues),
+});
+
+export const insertStudyLogEntrySchema = createInsertSchema(studyLogEntries).omit({
+  id: true,
+}).extend({
+  subject: z.string().trim().min(1, "Subject is required"),
+  durationMinutes: z.number().int().min(1).max(24 * 60),
+  loggedAt: z.coerce.date().optional(),
+});
+
+// What clients can log themselves; session entries come from checking in
+export const createStudyLogEntrySchema = insertStudyLogEntrySchema.omit({
+  userId: true,
+  sessionId: true,
+}).extend({
+  source: z.enum(["timer", "manual"]).default("manual"),
+});
+
+export const insertStudyGoalSchema = createInsertSchema(studyGoals).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  subject: z.string().trim().min(1, "Subject is required"),
+  targetMinutes: z.number().int().min(1).max(1000 * 60),
+});
+
+export const updateStudyGoalSchema = insertStudyGoalSchema.pick({
+  subject: true,
+  targetMinutes: true,
+  color: true,
+}).partial();
+
+export const insertExamSchema = createInsertSchema(exams).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  course: z.string().trim().min(1, "Course is required"),
+  // Sent as an ISO string in JSON bodies
+  examDate: z.coerce.date(),
+  weight: z.number().int().min(0).max(100).nullish(),
+});
+
+export const updateExamSchema = insertExamSchema.omit({ userId: true }).partial();
+
+// Phase lengths of the group Pomodoro timer; every fourth break is a long one
+export const POMODORO_PHASE_MINUTES = {
+  focus: 25,
+  shortBreak: 5,
+  longBreak: 15,
+} as const;
+export const POMODORO_LONG_BREAK_INTERVAL = 4;
+
+export const insertGroupTimerSchema = createInsertSchema(groupTimers).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const pomodoroActionSchema = z.enum(["start", "pause", "reset", "skip"]);
+
+// Duplicate papers an admin folds into the one that is kept
+export const mergePapersSchema = z.object({
+  targetId: z.number().int(),
+  duplicateIds: z.array(z.number().int()).min(1, "Choose at least one duplicate to merge")
+    .transform((ids) => Array.from(new Set(ids))),
+}).refine((merge) => !merge.duplicateIds.includes(merge.targetId), {
+  message: "A paper can't be merged into itself",
+  path: ["duplicateIds"],
+});
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
+  id: true,
+  newMatchCount: true,
+  lastVisitedAt: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  query: z.string().trim().min(1, "Query is required"),
+});
+
+export const insertPaperVersionSchema = createInsertSchema(paperVersions).omit({
+  id: true,
+}).extend({
+  changeNote: z.string().trim().max(500, "Change note must be 500 characters or fewer").nullish(),
+});
+
+// Form fields sent with a replacement file
+export const uploadPaperVersionSchema = insertPaperVersionSchema.pick({ changeNote: true });
+
+export const insertPaperContentSchema = createInsertSchema(paperContents).omit({
+  id: true,
+}).extend({
+  pages: z.array(z.string()).nullish(),
+});
+
+export const insertStudySessionExceptionSchema = createInsertSchema(studySessionExceptions).omit({
+  id: true,
 });
 
 export const insertActivitySchema = createInsertSchema(activities).omit({
@@ -213,6 +612,61 @@ export const insertGroupChatMessageSchema = createInsertSchema(groupChatMessages
   id: true,
 });
 
+export const insertFriendRequestSchema = createInsertSchema(friendRequests).omit({
+  id: true,
+  createdAt: true,
+}).refine(request => request.senderId !== request.receiverId, {
+  message: "You cannot send a friend request to yourself",
+  path: ["receiverId"],
+});
+
+export const insertFriendshipSchema = createInsertSchema(friendships).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDirectMessageSchema = createInsertSchema(directMessages).omit({
+  id: true,
+  createdAt: true,
+  isRead: true,
+}).extend({
+  content: z.string().trim().min(1, "Message content is required"),
+});
+
+export const insertAdminActionSchema = createInsertSchema(adminActions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSessionReminderSchema = createInsertSchema(sessionReminders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+  isRead: true,
+});
+
+// Switches on the Notifications tab of the settings page
+export const notificationPreferencesSchema = z.object({
+  emailNotifications: z.boolean(),
+  // "off" emails each event as it happens, otherwise they are batched
+  emailDigest: z.enum(["off", "daily", "weekly"]),
+  discussionReplies: z.boolean(),
+  studySessionReminders: z.boolean(),
+  resourceUpdates: z.boolean(),
+});
+
+export const defaultNotificationPreferences: NotificationPreferences = {
+  emailNotifications: true,
+  emailDigest: "off",
+  discussionReplies: true,
+  studySessionReminders: true,
+  resourceUpdates: false,
+};
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -240,6 +694,40 @@ export type StudyGroupMember = typeof studyGroupMembers.$inferSelect;
 
 export type InsertStudySession = z.infer<typeof insertStudySessionSchema>;
 export type StudySession = typeof studySessions.$inferSelect;
+export type SessionRecurrence = z.infer<typeof sessionRecurrenceSchema>;
+
+export type InsertStudySessionException = z.infer<typeof insertStudySessionExceptionSchema>;
+export type StudySessionException = typeof studySessionExceptions.$inferSelect;
+
+export type InsertSessionAttendance = z.infer<typeof insertSessionAttendanceSchema>;
+export type SessionAttendance = typeof sessionAttendance.$inferSelect;
+export type RsvpStatus = NonNullable<SessionAttendance["rsvp"]>;
+
+export type InsertStudyLogEntry = z.infer<typeof insertStudyLogEntrySchema>;
+export type StudyLogEntry = typeof studyLogEntries.$inferSelect;
+
+export type InsertStudyGoal = z.infer<typeof insertStudyGoalSchema>;
+export type StudyGoal = typeof studyGoals.$inferSelect;
+
+export type InsertExam = z.infer<typeof insertExamSchema>;
+export type Exam = typeof exams.$inferSelect;
+
+export type InsertGroupTimer = z.infer<typeof insertGroupTimerSchema>;
+export type GroupTimer = typeof groupTimers.$inferSelect;
+export type PomodoroPhase = GroupTimer["phase"];
+export type PomodoroAction = z.infer<typeof pomodoroActionSchema>;
+
+export type RecentSearch = typeof recentSearches.$inferSelect;
+
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
+export type InsertPaperVersion = z.infer<typeof insertPaperVersionSchema>;
+export type PaperVersion = typeof paperVersions.$inferSelect;
+
+export type InsertPaperContent = z.infer<typeof insertPaperContentSchema>;
+export type PaperContent = typeof paperContents.$inferSelect;
+export type PaperContentStatus = PaperContent["status"];
 
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type Activity = typeof activities.$inferSelect;
@@ -247,6 +735,27 @@ export type Activity = typeof activities.$inferSelect;
 export type InsertGroupChatMessage = z.infer<typeof insertGroupChatMessageSchema>;
 export type GroupChatMessage = typeof groupChatMessages.$inferSelect;
 
+export type InsertFriendRequest = z.infer<typeof insertFriendRequestSchema>;
+export type FriendRequest = typeof friendRequests.$inferSelect;
+export type FriendRequestStatus = FriendRequest["status"];
+
+export type InsertFriendship = z.infer<typeof insertFriendshipSchema>;
+export type Friendship = typeof friendships.$inferSelect;
+
+export type InsertDirectMessage = z.infer<typeof insertDirectMessageSchema>;
+export type DirectMessage = typeof directMessages.$inferSelect;
+
+export type InsertAdminAction = z.infer<typeof insertAdminActionSchema>;
+export type AdminAction = typeof adminActions.$inferSelect;
+
+export type InsertSessionReminder = z.infer<typeof insertSessionReminderSchema>;
+export type SessionReminder = typeof sessionReminders.$inferSelect;
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationType = Notification["type"];
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
 export type AdminStats = {
   totalUsers: number;
   activeUsers: number;
@@ -258,14 +767,3 @@ export type AdminStats = {
   recentActivities: Activity[];
 };
 
-export type AdminAction = {
-  id: number;
-  adminId: number;
-  targetType: 'user' | 'paper' | 'discussion' | 'group' | 'session';
-  targetId: number;
-  action: 'ban' | 'unban' | 'delete' | 'modify';
-  reason?: string;
-  createdAt: Date;
-};
-
-export type InsertAdminAction = Omit<AdminAction, 'id' | 'createdAt'>;
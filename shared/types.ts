@@ -1,4 +1,4 @@
-import { Paper as PaperSchema, Resource as ResourceSchema } from "./schema";
+import { Paper as PaperSchema, Resource as ResourceSchema, FriendRequest as FriendRequestSchema, DirectMessage, GroupChatMessage, Notification, SessionReminder, StudySession, StudyGoal, StudyGroup, StudyGroupMember, GroupTimer, PaperVersion, User } from "./schema";
 
 // Extended Paper type with additional properties needed for the UI
 export interface ExtendedPaper extends PaperSchema {
@@ -57,14 +57,9 @@ export interface ExtendedDiscussionComment {
 }
 
 // Friend relationship types
-export interface FriendRequest {
-  id: number;
-  senderId: number;
+export interface FriendRequest extends FriendRequestSchema {
   senderName?: string;
-  senderAvatar?: string;
-  receiverId: number;
-  status: 'pending' | 'accepted' | 'rejected';
-  createdAt: Date;
+  senderAvatar?: string | null;
 }
 
 export interface Friend {
@@ -72,7 +67,7 @@ export interface Friend {
   userId: number;
   friendId: number;
   friendName: string;
-  friendAvatar?: string;
+  friendAvatar?: string | null;
   friendship: {
     id: number;
     createdAt: Date;
@@ -81,17 +76,17 @@ export interface Friend {
   lastActive?: Date;
 }
 
-// Chat/Message types
-export interface ChatMessage {
-  id: number;
-  senderId: number;
-  receiverId: number;
-  content: string;
-  attachmentUrl?: string;
-  createdAt: Date;
-  isRead: boolean;
+// Who a user is to others looking them up, nothing private
+export type UserDirectoryEntry = Pick<User, "id" | "username" | "displayName">;
+
+// A group member with the profile the group page shows for them
+export interface GroupMember extends StudyGroupMember {
+  user?: Pick<User, "id" | "username" | "displayName" | "profilePicture">;
 }
 
+// Chat/Message types
+export type ChatMessage = DirectMessage;
+
 export interface ChatConversation {
   id: number;
   participantIds: number[];
@@ -106,6 +101,229 @@ export interface ChatConversation {
   }[];
 }
 
+// Group chat message as returned by the chat endpoints
+export interface ExtendedGroupChatMessage extends GroupChatMessage {
+  userName: string;
+}
+
+// A chat conversation, seen from the current user's side.
+// For direct messages `userId` is the other participant.
+export type ChatTarget =
+  | { kind: "group"; groupId: number }
+  | { kind: "direct"; userId: number };
+
+// Events pushed to the client over the /ws WebSocket
+export type RealtimeEvent =
+  | { type: "group_message"; groupId: number; message: ExtendedGroupChatMessage }
+  | { type: "direct_message"; message: ChatMessage }
+  | { type: "messages_read"; readerId: number; senderId: number; messageIds: number[] }
+  | { type: "notification"; notification: Notification }
+  | { type: "typing"; target: ChatTarget; userId: number; userName: string; isTyping: boolean }
+  | { type: "presence"; userId: number; isOnline: boolean; lastActive?: Date }
+  | { type: "pomodoro"; room: PomodoroRoom };
+
+// Events the client sends over the /ws WebSocket
+export type RealtimeClientEvent =
+  | { type: "typing"; target: ChatTarget; isTyping: boolean }
+  // Sent when the group page is opened (true) and closed (false)
+  | { type: "pomodoro_presence"; groupId: number; isViewing: boolean };
+
+// Response of GET /api/notifications
+export interface NotificationFeed {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+// A dated instance of a study session, as returned by the session list endpoints.
+// `id` is the session (series) id; one-off sessions have a single occurrence.
+export interface SessionOccurrence extends StudySession {
+  // Start generated by the series, used to address this occurrence when editing or cancelling it
+  occurrenceStart: Date;
+  // True when this occurrence was edited separately from its series
+  isException: boolean;
+}
+
+// Response item of GET /api/reminders
+export interface PendingSessionReminder extends SessionReminder {
+  session: SessionOccurrence;
+  groupName: string;
+}
+
+// Response item of GET /api/study-goals
+export interface StudyGoalProgress extends StudyGoal {
+  // Minutes logged for the goal's subject since the goal was set
+  completedMinutes: number;
+}
+
+export interface StudyMinutesByDate {
+  // YYYY-MM-DD in the time zone the analytics were computed for
+  date: string;
+  minutes: number;
+}
+
+// Response of GET /api/analytics/study
+export interface StudyAnalytics {
+  timeZone: string;
+  totalMinutes: number;
+  // Consecutive days with logged study time
+  currentStreak: number;
+  longestStreak: number;
+  // The last 30 days, oldest first
+  daily: StudyMinutesByDate[];
+  // The last 12 weeks, starting on Mondays
+  weekly: { weekStart: string; minutes: number }[];
+  // All time, most studied first
+  subjects: { subject: string; minutes: number }[];
+  // The last 365 days, oldest first
+  heatmap: StudyMinutesByDate[];
+}
+
+// Item of GET /api/upcoming-events, told apart by `type`. `id` is unique across types.
+export type UpcomingEvent =
+  | {
+      // A session in one of the user's own groups
+      type: "session";
+      id: string;
+      date: Date;
+      session: SessionOccurrence;
+      groupName: string;
+    }
+  | {
+      // A session in a group the user isn't in but a friend is
+      type: "friend_session";
+      id: string;
+      date: Date;
+      session: SessionOccurrence;
+      groupName: string;
+      friends: { id: number; name: string }[];
+    }
+  | {
+      // A recently created group by someone in the user's department; dated by creation
+      type: "new_group";
+      id: string;
+      date: Date;
+      group: StudyGroup;
+      creatorName: string;
+    };
+
+// Response of GET /api/upcoming-events
+export interface UpcomingEventsPage {
+  events: UpcomingEvent[];
+  total: number;
+  // Offset of the next page, null on the last one
+  nextOffset: number | null;
+}
+
+// Response of GET /api/groups/:id/pomodoro, also pushed as a "pomodoro" realtime event
+export interface PomodoroRoom extends Omit<GroupTimer, "id" | "updatedAt"> {
+  // Length of the current phase
+  phaseSeconds: number;
+  // Members who have the group page open
+  participants: { id: number; name: string }[];
+  // Lets clients correct for their own clock when counting down to phaseEndsAt
+  serverTime: Date;
+}
+
+export type SearchResultType = "paper" | "discussion" | "group" | "session";
+
+// Text split into parts, with the parts matching the search query flagged
+export type HighlightedText = { text: string; highlight: boolean }[];
+
+// Item of GET /api/search, best match first
+export interface SearchResult {
+  id: number;
+  type: SearchResultType;
+  title: string;
+  url: string;
+  score: number;
+  highlightedTitle: HighlightedText;
+  // Excerpt around the first match in the body, empty when only the title matched
+  snippet: HighlightedText;
+  // Page of the uploaded file the snippet comes from, for papers matched on their contents
+  matchedPage: number | null;
+  course: string | null;
+  year: string | null;
+  institution: string | null;
+  date: Date;
+}
+
+export interface SearchFacetCount {
+  value: string;
+  count: number;
+}
+
+// Response of GET /api/search
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  // Counts of matches per value. Each facet applies the other facets' filters but not its own,
+  // so picking a value still shows how many results the alternatives would give.
+  facets: {
+    type: SearchFacetCount[];
+    course: SearchFacetCount[];
+    year: SearchFacetCount[];
+    institution: SearchFacetCount[];
+    // Papers only, e.g. "past_paper" or "notes"
+    resourceType: SearchFacetCount[];
+  };
+}
+
+export type SearchSuggestionType = "paper" | "discussion" | "group" | "course" | "tag" | "user";
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  label: string;
+  url: string;
+  // e.g. the course of a paper or a user's username
+  detail: string | null;
+}
+
+// Response of GET /api/search/suggestions
+export interface SearchSuggestionsResponse {
+  suggestions: SearchSuggestion[];
+  // The user's latest searches, narrowed to those containing the query
+  recent: string[];
+}
+
+// Response of GET /api/papers/:id/preview. A "pdf" paper is drawn in the browser
+// from its file; "pages" previews are served page by page from
+// /api/papers/:id/preview/:page; an "image" paper is its own preview. Previews
+// are "pending" while the server builds them.
+export interface PaperPreview {
+  kind: "pending" | "pdf" | "pages" | "image" | "none";
+  // Page sizes in points, of "pages" previews
+  pages: { width: number; height: number }[];
+  // Whether /api/papers/:id/thumbnail has an image of the first page
+  thumbnail: boolean;
+}
+
+// A file in a paper's version history, from GET /api/papers/:id/versions,
+// newest first; the first entry is the file downloads serve by default
+export interface PaperVersionEntry extends Omit<PaperVersion, "id" | "fileUrl"> {
+  uploaderName: string;
+}
+
+// Why a paper looks like a copy of another: the very same file, or the same
+// course, year and institution under a similar title
+export type DuplicateReason = "same_file" | "similar_title";
+
+export interface DuplicatePaper extends ExtendedPaper {
+  reason: DuplicateReason;
+}
+
+// Body of the 409 response to an upload that looks like papers already
+// shared; sending the upload again with allowDuplicate=true stores it anyway
+export interface DuplicateUploadWarning {
+  message: string;
+  duplicates: DuplicatePaper[];
+}
+
+// Papers that look like copies of each other, from GET /api/admin/papers/duplicates
+export interface DuplicateCluster {
+  papers: ExtendedPaper[];
+  reasons: DuplicateReason[];
+}
+
 // Department type for user profiles
 export interface Department {
   id: number;